@@ -2,92 +2,267 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GoogleGenAI, Modality, Part } from '@google/genai';
+import { ACCOUNT_STATUS_LABELS, AccountStatus, parseUserImport, serializeIssuedPasswordsCsv, serializeUsersCsv, UserImportRow } from './services/accounts';
+import { apiRequest } from './services/apiClient';
+import { AUDIT_ACTION_LABELS, AuditAction, AuditEvent, describeAuditDetails, DownloadKind, serializeAuditCsv } from './services/audit';
+import { BatchRow, loadBatchSources, parseBatchManifest, preprocessBatchRows, runWithConcurrency } from './services/batch';
+import { DiagnosticEntry, diagnosticLog, serializeDiagnostics } from './services/diagnosticLog';
+import { buildExportArchive, describeModel, downloadBlob, ExportItem, exportArchiveName, exportFileName, exportItemsFromEntry } from './services/exportArchive';
+import { createExportProcessor, EXPORT_SIZES, ExportFormat, ExportSettings, exportSettingsStore, ExportSizeId, WATERMARK_POSITION_LABELS, WatermarkMode, WatermarkPosition } from './services/exportPipeline';
+import { ACCESSORY_SLOTS, AccessorySlot, DEFAULT_OUTFIT_TYPE, GARMENT_SLOT_IDS, GarmentSlot, missingRequiredSlots, OUTFIT_TYPES, outfitType, PLACEMENT_LABELS } from './services/garmentSchema';
+import { classifyGenerationError, ERROR_GUIDANCE } from './services/generationErrors';
+import { AppMode, GenerationInputs, HistoryEntry, HistoryImage, historyStore, matchesHistorySearch, newHistoryEntry, TryOnMode, VariantStrategy } from './services/historyStore';
+import { BackgroundMode, decodeImageFile, decodeInlineImage, ImageEdit, ImageValidationError, NO_EDIT, OutputFormat, preprocessSettingsStore, processImage, rotateToCanvas } from './services/imagePreprocess';
+import { createServerProvider, fromDataUrl, ImageGenerationRequest, InlineImage, LabelledImage, toDataUrl } from './services/imageProvider';
+import { buildInpaintRequest, compositeInpaint, cropForInpaint } from './services/inpaint';
+import { createJobQueue, DEFAULT_QUEUE_OPTIONS, GenerationJob, isFinished } from './services/jobQueue';
+import { Lookbook, LookbookDocument, lookbookFileName, lookbookStore, MAX_LOOKBOOK_ITEMS, newLookbook, newLookbookItem, renderLookbookHtml, validateLookbook } from './services/lookbook';
+import { canEditLibraryModel, LibraryModel, MAX_MODEL_REFERENCES, modelLibrary, newLibraryModel, validateLibraryModel } from './services/modelLibrary';
+import { DEFAULT_ROLE, hasPermission, isRole, Permission, Role, ROLE_LABELS, ROLES } from './services/permissions';
+import { base64ToBytes, bytesToBase64 } from './services/placeholderImage';
+import { blankWorkspace, buildProjectArchive, importProjectArchive, newProject, Project, projectArchiveName, projectStore, validateProject } from './services/projects';
+import { buildPoseOutfit, Fabric, hasGarmentPhotos, isFabric, mainPieceColour, PieceColours, pieceColour } from './services/posePrompts';
+import { cloneTemplate, DEFAULT_TEMPLATE, newPosePreset, parseTemplateImport, poseCountFor, PromptTemplate, renderTemplate, serializeTemplates, TEMPLATE_VARIABLES, templateStore, validateTemplate } from './services/promptTemplates';
+import { buildRefineRequest, createVersionStack, RefinementBase } from './services/refinement';
+import { buildTryOnGarments as buildSharedTryOnGarments, buildTryOnPrompts as buildSharedTryOnPrompts, TryOnGarmentImages } from './services/tryOnPrompts';
+import { emptyCounts, formatCost, serializeUsageCsv, totalUsage, usageByDay, usageByUser, UsageCounts, usageDay, UsageQuota, UsageRecord } from './services/usage';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Generation runs on the local API server (server/index.ts), which holds the Gemini key.
+const imageProvider = createServerProvider();
+
+// Every generation call is a job on this queue (services/jobQueue.ts), which caps
+// how many run at once and retries rate-limited or transient failures.
+const QUEUE_CONCURRENCY_KEY = 'virtual-try-on-queue-concurrency';
+const jobQueue = createJobQueue(imageProvider, {
+    concurrency: Number(localStorage.getItem(QUEUE_CONCURRENCY_KEY)) || DEFAULT_QUEUE_OPTIONS.concurrency,
+    // Failures go to the local diagnostic log shown on the admin page.
+    onFailure: (job, error, request) => {
+        const images = [
+            ...request.garments.map(g => g.image),
+            ...(request.modelImage ? [request.modelImage] : []),
+            ...(request.modelReferences ?? []),
+            ...(request.refine ? [request.refine.image] : []),
+            ...(request.inpaint ? [request.inpaint.image, request.inpaint.mask] : []),
+        ];
+        diagnosticLog.record({
+            user: userService.getCurrentUser()?.username ?? '',
+            kind: error.kind,
+            message: error.message,
+            status: error.status,
+            finishReason: error.finishReason,
+            modelText: error.modelText,
+            job: { label: job.label, mode: job.mode, attempts: job.attempts },
+            request: {
+                aspectRatio: request.aspectRatio,
+                promptChars: request.prompts.join('\n').length,
+                imageCount: images.length,
+                imageBytes: images.reduce((sum, image) => sum + Math.floor((image.base64.length * 3) / 4), 0),
+            },
+        }).catch(logError => console.error('Could not write to the diagnostic log:', logError));
+    },
+});
+
+/** Explains a failed generation: what happened, what to try, and any text the model sent back. */
+const renderGenerationFailure = (error: unknown) => {
+    const failure = classifyGenerationError(error);
+    const { title, explanation, fix } = failure.guidance;
+    const box = document.createElement('div');
+    box.className = `generation-error generation-error-${failure.kind}`;
+
+    const heading = document.createElement('strong');
+    heading.textContent = title;
+    const explanationEl = document.createElement('p');
+    explanationEl.textContent = failure.message === explanation ? explanation : `${explanation} (${failure.message})`;
+    box.append(heading, explanationEl);
+    if (fix) {
+        const fixEl = document.createElement('p');
+        fixEl.className = 'generation-error-fix';
+        fixEl.textContent = fix;
+        box.appendChild(fixEl);
+    }
+    if (failure.modelText) {
+        const quote = document.createElement('blockquote');
+        quote.textContent = `The model said: ${failure.modelText}`;
+        box.appendChild(quote);
+    }
+    return box;
+};
 
 // --- USER AUTHENTICATION & MANAGEMENT ---
-const USERS_STORAGE_KEY = 'virtual-try-on-users';
+// Accounts, password hashing and sessions live on the API server (server/auth.ts).
+// The browser only caches the signed-in user's public profile so routing can stay
+// synchronous; the HttpOnly session cookie is what actually authorises requests.
+// With "Remember me" the profile is cached in localStorage, so that, like the
+// cookie, it outlives the browser window.
 const SESSION_STORAGE_KEY = 'virtual-try-on-session';
 
-// Simple "hashing" for demonstration. In a real app, use a proper library like bcrypt.
-const hashPassword = (pass: string) => btoa(pass.split('').reverse().join(''));
-const verifyPassword = (pass: string, hash: string) => hashPassword(pass) === hash;
+const cachedUserStorage = () => localStorage.getItem(SESSION_STORAGE_KEY) ? localStorage : sessionStorage;
+
+interface AppUser {
+    username: string;
+    createdAt: string;
+    role: Role;
+    permissions: Permission[];
+    quota: UsageQuota;
+    displayName: string;
+    note: string;
+    status: AccountStatus;
+    expiresOn: string | null;
+    deletedAt: string | null;
+    purgeAt: string | null;
+    mustChangePassword: boolean; // true until the user replaces an admin-issued password
+}
+
+/** The signed-in session's limits, from the server (server/sessions.ts). */
+interface SessionInfo {
+    expiresAt: number;
+    idleTimeoutMs: number | null; // null for "Remember me" sessions, which do not go idle
+    remember: boolean;
+}
+
+interface ActiveSession {
+    id: string;
+    username: string;
+    createdAt: number;
+    lastSeenAt: number;
+    expiresAt: number; // the earlier of its absolute and idle limits
+    remember: boolean;
+    ip: string | null;
+    userAgent: string | null;
+    current: boolean; // the session making the request
+}
+
+interface UserImportResult {
+    username: string;
+    status: 'created' | 'skipped' | 'failed';
+    message?: string;
+    password?: string; // issued when the row had none
+}
 
 const userService = {
-    _getUsers: () => {
-        const users = localStorage.getItem(USERS_STORAGE_KEY);
-        return users ? JSON.parse(users) : {};
-    },
-    _saveUsers: (users: object) => {
-        localStorage.setItem(USERS_STORAGE_KEY, JSON.stringify(users));
+    listUsers: async (): Promise<AppUser[]> => {
+        const response = await apiRequest<{ users: AppUser[] }>('/users');
+        return response.ok ? response.data.users : [];
     },
-    init: () => {
-        const users = userService._getUsers();
-        let updated = false;
-
-        // Ensure the primary admin account exists
-        if (!users['xhkusman4@gmail.com']) {
-            console.log('Creating admin user: xhkusman4@gmail.com');
-            users['xhkusman4@gmail.com'] = {
-                passwordHash: hashPassword('Usman456321@'),
-                createdAt: new Date().toISOString()
-            };
-            updated = true;
-        }
-
-        if (updated) {
-            userService._saveUsers(users);
+    // Re-validates the cached session against the server on page load.
+    init: async () => {
+        if (!userService.isLoggedIn()) return;
+        const response = await apiRequest<{ user: AppUser; session: SessionInfo | null }>('/auth/me');
+        if (response.ok) {
+            userService.login(response.data.user);
+            if (response.data.session) startSessionTimeouts(response.data.session);
+        } else if (response.status === 401) {
+            userService.forget();
         }
     },
-    createUser: (username, password) => {
-        const users = userService._getUsers();
-        if (users[username]) {
-            return { success: false, message: 'Username already exists.' };
-        }
-        users[username] = {
-            passwordHash: hashPassword(password),
-            plainPassword: password, // Store plain text password as requested
-            createdAt: new Date().toISOString()
-        };
-        userService._saveUsers(users);
-        return { success: true, message: 'User created successfully.', user: { username, password } };
+    createUser: async (username: string, password: string, role: Role = DEFAULT_ROLE, expiresOn: string | null = null) => {
+        const response = await apiRequest<{ user: AppUser }>('/users', { method: 'POST', body: { username, password, role, expiresOn } });
+        return response.ok
+            ? { success: true, message: response.data.message ?? 'User created successfully.', user: response.data.user }
+            : { success: false, message: response.data.error ?? 'Could not create user.' };
     },
-    deleteUser: (username) => {
-        const users = userService._getUsers();
-        // Prevent deleting the main admin account
-        if (username.toLowerCase() === 'xhkusman4@gmail.com') {
-            return { success: false, message: 'Cannot delete the primary admin account.' };
-        }
-        if (users[username]) {
-            delete users[username];
-            userService._saveUsers(users);
-            return { success: true, message: `User ${username} deleted.` };
-        }
-        return { success: false, message: 'User not found.' };
+    updateUser: async (username: string, details: { displayName?: string; note?: string; expiresOn?: string | null; disabled?: boolean }) => {
+        const response = await apiRequest<{ user: AppUser }>(`/users/${encodeURIComponent(username)}`, { method: 'PUT', body: details });
+        return response.ok
+            ? { success: true, message: response.data.message ?? `${username} updated.` }
+            : { success: false, message: response.data.error ?? 'Could not update the user.' };
     },
-    authenticate: (username, password) => {
-        const users = userService._getUsers();
-        const user = users[username.toLowerCase()];
-        if (user && verifyPassword(password, user.passwordHash)) {
-            return { success: true, user: { username, ...user } };
-        }
-        return { success: false };
+    deleteUser: async (username: string) => {
+        const response = await apiRequest(`/users/${encodeURIComponent(username)}`, { method: 'DELETE' });
+        return response.ok
+            ? { success: true, message: response.data.message ?? `User ${username} deleted.` }
+            : { success: false, message: response.data.error ?? 'Could not delete user.' };
+    },
+    restoreUser: async (username: string) => {
+        const response = await apiRequest(`/users/${encodeURIComponent(username)}/restore`, { method: 'POST' });
+        return response.ok
+            ? { success: true, message: response.data.message ?? `User ${username} restored.` }
+            : { success: false, message: response.data.error ?? 'Could not restore the user.' };
+    },
+    resetPassword: async (username: string) => {
+        const response = await apiRequest<{ password: string }>(`/users/${encodeURIComponent(username)}/password-reset`, { method: 'POST' });
+        return response.ok
+            ? { success: true, message: response.data.message ?? 'Password reset.', password: response.data.password }
+            : { success: false, message: response.data.error ?? 'Could not reset the password.' };
+    },
+    importUsers: async (users: UserImportRow[]) => {
+        const response = await apiRequest<{ results: UserImportResult[] }>('/users/import', { method: 'POST', body: { users } });
+        return response.ok
+            ? { success: true, message: response.data.message ?? 'Import finished.', results: response.data.results }
+            : { success: false, message: response.data.error ?? 'Could not import users.', results: [] as UserImportResult[] };
+    },
+    changePassword: async (currentPassword: string, newPassword: string) => {
+        const response = await apiRequest<{ user: AppUser }>('/auth/password', { method: 'POST', body: { currentPassword, newPassword } });
+        if (response.ok) userService.login(response.data.user);
+        return response.ok
+            ? { success: true, message: response.data.message ?? 'Password changed.' }
+            : { success: false, message: response.data.error ?? 'Could not change the password.' };
+    },
+    setRole: async (username: string, role: Role) => {
+        const response = await apiRequest<{ user: AppUser }>(`/users/${encodeURIComponent(username)}/role`, { method: 'PUT', body: { role } });
+        return response.ok
+            ? { success: true, message: response.data.message ?? 'Role updated.' }
+            : { success: false, message: response.data.error ?? 'Could not change role.' };
+    },
+    setQuota: async (username: string, quota: UsageQuota) => {
+        const response = await apiRequest<{ user: AppUser }>(`/users/${encodeURIComponent(username)}/quota`, { method: 'PUT', body: { quota } });
+        return response.ok
+            ? { success: true, message: response.data.message ?? 'Quota updated.' }
+            : { success: false, message: response.data.error ?? 'Could not change the quota.' };
+    },
+    usageReport: async (from: string, to: string) => {
+        const response = await apiRequest<{ costPerImageUsd: number; records: UsageRecord[] }>(`/usage?from=${from}&to=${to}`);
+        return response.ok ? response.data : null;
+    },
+    auditLog: async (filter: { from: string; to: string; action: string; user: string }) => {
+        const query = new URLSearchParams(Object.entries(filter).filter(([, value]) => value !== ''));
+        const response = await apiRequest<{ events: AuditEvent[]; truncated: boolean }>(`/audit?${query}`);
+        return response.ok ? response.data : null;
+    },
+    // Downloads happen in the browser, so the server only learns of them from here.
+    recordDownload: (kind: DownloadKind, files: number, name: string) => {
+        apiRequest('/audit/downloads', { method: 'POST', body: { kind, files, name } });
+    },
+    myUsage: async () => {
+        const response = await apiRequest<{ today: UsageCounts; month: UsageCounts; quota: UsageQuota }>('/usage/me');
+        return response.ok ? response.data : null;
+    },
+    listSessions: async (): Promise<ActiveSession[]> => {
+        const response = await apiRequest<{ sessions: ActiveSession[] }>('/sessions');
+        return response.ok ? response.data.sessions : [];
     },
-    getCurrentUser: () => {
-        const session = sessionStorage.getItem(SESSION_STORAGE_KEY);
-        if (!session) return null;
-        const { username } = JSON.parse(session);
-        const users = userService._getUsers();
-        return users[username] ? { username, ...users[username] } : null;
+    revokeSession: async (id: string) => {
+        const response = await apiRequest(`/sessions/${encodeURIComponent(id)}`, { method: 'DELETE' });
+        return response.ok
+            ? { success: true, message: response.data.message ?? 'Session ended.' }
+            : { success: false, message: response.data.error ?? 'Could not end the session.' };
     },
-    login: (username) => {
-        sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ username }));
+    authenticate: async (username: string, password: string, remember = false) => {
+        const response = await apiRequest<{ user: AppUser; session: SessionInfo }>('/auth/login', { method: 'POST', body: { username, password, remember } });
+        return response.ok
+            ? { success: true, user: response.data.user, session: response.data.session }
+            // 429: throttled or locked out (server/loginGuard.ts)
+            : { success: false, message: response.data.error ?? 'Invalid username or password.', isLockedOut: response.status === 429 };
     },
-    logout: () => {
+    getCurrentUser: (): AppUser | null => {
+        const session = cachedUserStorage().getItem(SESSION_STORAGE_KEY);
+        return session ? JSON.parse(session) : null;
+    },
+    /** Caches the profile; `remember` picks localStorage over sessionStorage and defaults to the current choice. */
+    login: (user: AppUser, remember = cachedUserStorage() === localStorage) => {
+        userService.forget();
+        (remember ? localStorage : sessionStorage).setItem(SESSION_STORAGE_KEY, JSON.stringify(user));
+    },
+    forget: () => {
         sessionStorage.removeItem(SESSION_STORAGE_KEY);
+        localStorage.removeItem(SESSION_STORAGE_KEY);
     },
-    isLoggedIn: () => !!sessionStorage.getItem(SESSION_STORAGE_KEY),
+    logout: async () => {
+        stopSessionTimeouts();
+        userService.forget();
+        await apiRequest('/auth/logout', { method: 'POST' });
+    },
+    isLoggedIn: () => !!cachedUserStorage().getItem(SESSION_STORAGE_KEY),
 };
 
 // --- ROUTER & PAGE MANAGEMENT ---
@@ -97,21 +272,52 @@ const pages = {
     app: document.getElementById('app-main') as HTMLDivElement,
     account: document.getElementById('account-page') as HTMLDivElement,
     admin: document.getElementById('admin-page') as HTMLDivElement,
+    audit: document.getElementById('audit-page') as HTMLDivElement,
+    history: document.getElementById('history-page') as HTMLDivElement,
+    batch: document.getElementById('batch-page') as HTMLDivElement,
+    templates: document.getElementById('templates-page') as HTMLDivElement,
+    models: document.getElementById('models-page') as HTMLDivElement,
+    lookbooks: document.getElementById('lookbooks-page') as HTMLDivElement,
+    projects: document.getElementById('projects-page') as HTMLDivElement,
+    lookbookPublic: document.getElementById('lookbook-public-page') as HTMLDivElement,
+};
+
+const loggedInPages = [pages.app, pages.account, pages.admin, pages.audit, pages.history, pages.batch, pages.templates, pages.models, pages.lookbooks, pages.projects];
+
+// Permission each route requires; `null` means any signed-in user.
+const routePermissions: { [route: string]: Permission | null } = {
+    app: 'generate',
+    account: null,
+    admin: 'manage-users',
+    audit: 'manage-users',
+    history: 'view-history',
+    batch: 'generate',
+    templates: 'generate',
+    models: 'generate',
+    lookbooks: 'generate',
+    projects: 'generate',
 };
 
-const loggedInPages = [pages.app, pages.account, pages.admin];
+// Where a user lands after signing in or hitting a route they cannot open.
+const defaultRouteFor = (user: AppUser | null) => {
+    if (user?.mustChangePassword) return '#account';
+    if (hasPermission(user, 'manage-users')) return '#admin';
+    if (hasPermission(user, 'generate')) return '#app';
+    return '#account';
+};
 
 const router = {
     showPage: (pageId: keyof typeof pages) => {
         // Hide all top-level containers
         pages.login.classList.add('hidden');
         pages.appWrapper.classList.add('hidden');
+        pages.lookbookPublic.classList.add('hidden');
         
         // Hide all pages within the app wrapper
         loggedInPages.forEach(p => p.classList.add('hidden'));
 
-        if (pageId === 'login') {
-            pages.login.classList.remove('hidden');
+        if (pageId === 'login' || pageId === 'lookbookPublic') {
+            pages[pageId].classList.remove('hidden');
         } else if (pages[pageId] && pageId !== 'appWrapper') {
             pages.appWrapper.classList.remove('hidden');
             pages[pageId].classList.remove('hidden');
@@ -120,6 +326,15 @@ const router = {
     handleRouteChange: () => {
         const hash = window.location.hash || '#login';
         const isLoggedIn = userService.isLoggedIn();
+        const currentUser = userService.getCurrentUser();
+
+        // Shared lookbooks are open to anyone with the link.
+        const sharedLookbook = /^#lookbook\/([A-Za-z0-9-]+)$/.exec(hash);
+        if (sharedLookbook) {
+            router.showPage('lookbookPublic');
+            displayPublicLookbook(sharedLookbook[1]);
+            return;
+        }
 
         if (!isLoggedIn && hash !== '#login') {
             window.location.hash = '#login';
@@ -127,48 +342,95 @@ const router = {
         }
 
         if (isLoggedIn && hash === '#login') {
-            const currentUser = userService.getCurrentUser();
-            if (currentUser?.username.toLowerCase() === 'xhkusman4@gmail.com') {
-                window.location.hash = '#admin';
-            } else {
-                window.location.hash = '#app';
-            }
+            window.location.hash = defaultRouteFor(currentUser);
             return;
         }
 
         const route = hash.substring(1);
 
+        // After an admin reset, the account page (with its password form) is the only way on.
+        if (currentUser?.mustChangePassword && route !== 'account') {
+            window.location.hash = '#account';
+            return;
+        }
+
+        const requiredPermission = routePermissions[route];
+        if (requiredPermission && !hasPermission(currentUser, requiredPermission)) {
+            alert('Access to this page is restricted.');
+            window.location.hash = defaultRouteFor(currentUser);
+            return;
+        }
+
         switch (route) {
-            case 'app':
-                if (isLoggedIn) {
-                    router.showPage('app');
-                    updateUIForLoggedInState();
-                    initializeApp();
-                } else {
-                    window.location.hash = '#login';
-                }
+            case 'app': {
+                router.showPage('app');
+                updateUIForLoggedInState();
+                initializeApp();
+                // Restore only once the template is loaded, so a re-run uses its wording.
+                const restore = pendingHistoryRestore;
+                pendingHistoryRestore = null;
+                Promise.all([applyActiveTemplate?.(), refreshLibraryModels?.(), loadActiveProject()]).then(async ([, , project]) => {
+                    if (restore && restoreHistoryEntry) restoreHistoryEntry(restore.entry, restore.rerun);
+                    else if (appliedWorkspaceFor !== (project?.id ?? null)) await applyProjectWorkspace?.(project);
+                    appliedWorkspaceFor = project?.id ?? null;
+                });
                 break;
+            }
             case 'account':
-                if (isLoggedIn) {
-                    router.showPage('account');
-                    updateUIForLoggedInState();
-                    displayAccountDetails();
-                } else {
-                    window.location.hash = '#login';
-                }
+                router.showPage('account');
+                updateUIForLoggedInState();
+                displayAccountDetails();
                 break;
             case 'admin':
-                const currentUser = userService.getCurrentUser();
-                if (isLoggedIn && currentUser?.username.toLowerCase() === 'xhkusman4@gmail.com') {
-                    router.showPage('admin');
-                    updateUIForLoggedInState();
-                    displayUserList();
-                } else if (isLoggedIn) {
-                    alert('Access to this page is restricted.');
-                    window.location.hash = '#app';
-                } else {
-                    window.location.hash = '#login';
-                }
+                router.showPage('admin');
+                updateUIForLoggedInState();
+                displayUserList();
+                displayUsage();
+                displaySessions();
+                displayDiagnostics();
+                break;
+            case 'audit':
+                router.showPage('audit');
+                updateUIForLoggedInState();
+                initializeAuditPage();
+                displayAuditLog();
+                break;
+            case 'history':
+                router.showPage('history');
+                updateUIForLoggedInState();
+                // Opens on the active project's generations.
+                loadActiveProject().then(project => {
+                    historyProjectFilter = project?.id ?? '';
+                    displayHistory((document.getElementById('history-search-input') as HTMLInputElement).value);
+                });
+                break;
+            case 'batch':
+                router.showPage('batch');
+                updateUIForLoggedInState();
+                initializeBatch();
+                break;
+            case 'templates':
+                router.showPage('templates');
+                updateUIForLoggedInState();
+                initializeTemplateEditor();
+                displayTemplates();
+                break;
+            case 'models':
+                router.showPage('models');
+                updateUIForLoggedInState();
+                initializeModelLibrary();
+                displayModelLibrary();
+                break;
+            case 'projects':
+                router.showPage('projects');
+                updateUIForLoggedInState();
+                initializeProjectsPage();
+                loadActiveProject().then(displayProjects);
+                break;
+            case 'lookbooks':
+                router.showPage('lookbooks');
+                updateUIForLoggedInState();
+                initializeLookbooks().then(displayLookbooks);
                 break;
             default: // also handles #login
                 router.showPage('login');
@@ -180,8 +442,26 @@ const router = {
 // --- UI BINDING & UPDATE FUNCTIONS ---
 
 function updateUIForLoggedInState() {
-    // This function is now empty as the new header is static
-    // and does not display user-specific information.
+    // Only show navigation entries the current user's role can open.
+    const user = userService.getCurrentUser();
+    document.querySelectorAll<HTMLElement>('[data-permission]').forEach(el => {
+        el.classList.toggle('hidden', !hasPermission(user, el.dataset.permission as Permission));
+    });
+    loadActiveProject(); // fills the project pickers, once per user
+}
+
+function showAdminMessage(message: string, success: boolean) {
+    const messageEl = document.getElementById('admin-message') as HTMLParagraphElement;
+    messageEl.textContent = message;
+    messageEl.style.color = success ? 'var(--c-success)' : 'var(--c-primary)';
+
+    // Clear the message after 4 seconds for better UX
+    setTimeout(() => {
+        // Only clear if the message hasn't been replaced by another one
+        if (messageEl.textContent === message) {
+            messageEl.textContent = '';
+        }
+    }, 4000);
 }
 
 function displayAccountDetails() {
@@ -189,108 +469,204 @@ function displayAccountDetails() {
     if (user) {
         (document.getElementById('account-username') as HTMLSpanElement).textContent = user.username;
         (document.getElementById('account-created') as HTMLSpanElement).textContent = new Date(user.createdAt).toLocaleDateString();
+        (document.getElementById('account-role') as HTMLSpanElement).textContent = ROLE_LABELS[user.role] ?? user.role;
+        (document.getElementById('account-expires-item') as HTMLDivElement).classList.toggle('hidden', !user.expiresOn);
+        (document.getElementById('account-expires') as HTMLSpanElement).textContent = user.expiresOn ? formatDay(user.expiresOn) : '';
+        (document.getElementById('change-password-notice') as HTMLParagraphElement).classList.toggle('hidden', !user.mustChangePassword);
+        if (user.mustChangePassword) {
+            (document.getElementById('account-usage-today') as HTMLSpanElement).textContent = '—';
+            (document.getElementById('account-usage-month') as HTMLSpanElement).textContent = '—';
+        } else {
+            displayAccountUsage();
+        }
+    }
+}
+
+async function displayAccountUsage() {
+    const todayEl = document.getElementById('account-usage-today') as HTMLSpanElement;
+    const monthEl = document.getElementById('account-usage-month') as HTMLSpanElement;
+    const usage = await userService.myUsage();
+    const describe = (counts: UsageCounts | undefined, limit: number | null | undefined) =>
+        !counts ? '—' : `${counts.requests} generation${counts.requests === 1 ? '' : 's'}${limit ? ` of ${limit}` : ''}`;
+    todayEl.textContent = describe(usage?.today, usage?.quota.daily);
+    monthEl.textContent = describe(usage?.month, usage?.quota.monthly);
+}
+
+// --- User table: sorting, paging and row actions ---
+type UserSortKey = 'username' | 'displayName' | 'role' | 'status' | 'expiresOn' | 'createdAt';
+const USERS_PER_PAGE = 20;
+const userTable = { sort: 'username' as UserSortKey, descending: false, page: 0 };
+let listedUsers: AppUser[] = []; // every account, for the CSV export
+
+// Expiry dates are UTC days; showing them in UTC keeps "2026-12-31" from reading as the 30th.
+const formatDay = (day: string) => new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+const currentUserFilter = () => (document.getElementById('user-search-input') as HTMLInputElement).value;
+
+const compareUsers = (a: AppUser, b: AppUser, key: UserSortKey) => {
+    if (key === 'status') return ACCOUNT_STATUS_LABELS[a.status].localeCompare(ACCOUNT_STATUS_LABELS[b.status]);
+    if (key === 'role') return ROLE_LABELS[a.role].localeCompare(ROLE_LABELS[b.role]);
+    if (key === 'expiresOn') return (a.expiresOn ?? '9999').localeCompare(b.expiresOn ?? '9999'); // no expiry sorts last
+    return a[key].localeCompare(b[key]);
+};
+
+const userActionButton = (label: string, onClick: () => void, disabledReason = '') => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'user-action-btn';
+    button.textContent = label;
+    if (disabledReason) {
+        button.disabled = true;
+        button.title = disabledReason;
+    } else {
+        button.onclick = onClick;
+    }
+    return button;
+};
+
+function openUserEditor(user: AppUser) {
+    const dialog = document.getElementById('user-editor') as HTMLDialogElement;
+    dialog.dataset.username = user.username;
+    (document.getElementById('user-editor-title') as HTMLHeadingElement).textContent = `Edit ${user.username}`;
+    (document.getElementById('user-editor-name') as HTMLInputElement).value = user.displayName;
+    (document.getElementById('user-editor-expires') as HTMLInputElement).value = user.expiresOn ?? '';
+    (document.getElementById('user-editor-note') as HTMLTextAreaElement).value = user.note;
+    const disabledBox = document.getElementById('user-editor-disabled') as HTMLInputElement;
+    disabledBox.checked = user.status === 'disabled';
+    disabledBox.disabled = user.username === userService.getCurrentUser()?.username;
+    (document.getElementById('user-editor-error') as HTMLParagraphElement).textContent = '';
+    dialog.showModal();
+}
+
+async function resetUserPassword(user: AppUser) {
+    if (!confirm(`Reset the password of '${user.username}'? They are signed out and must choose a new password when they next sign in.`)) return;
+    const result = await userService.resetPassword(user.username);
+    showAdminMessage(result.message, result.success);
+    if (result.success) {
+        // Shown once; prompt() lets the admin copy it.
+        prompt(`Temporary password for ${user.username}. Give it to them securely; it is not shown again.`, result.password);
+        displayUserList(currentUserFilter());
     }
 }
 
-function displayUserList(filter: string = '') {
+async function setUserDisabled(user: AppUser, disabled: boolean) {
+    if (disabled && !confirm(`Disable '${user.username}'? They are signed out and cannot sign in until enabled again.`)) return;
+    const result = await userService.updateUser(user.username, { disabled });
+    showAdminMessage(result.message, result.success);
+    displayUserList(currentUserFilter());
+}
+
+async function displayUserList(filter: string = '') {
     const userTableBody = document.querySelector('#user-list-table tbody') as HTMLTableSectionElement;
     const userCountEl = document.getElementById('user-count') as HTMLSpanElement;
     if (!userTableBody || !userCountEl) return;
 
-    const users = userService._getUsers();
-    let userEntries = Object.entries(users);
-    
-    userCountEl.textContent = userEntries.length.toString();
+    const currentUser = userService.getCurrentUser();
+    listedUsers = await userService.listUsers();
+    const statusFilter = (document.getElementById('user-status-filter') as HTMLSelectElement).value;
+    const query = filter.trim().toLowerCase();
+    const users = listedUsers
+        .filter(user => statusFilter === 'current' ? user.status !== 'deleted' : user.status === statusFilter)
+        .filter(user => !query || user.username.toLowerCase().includes(query) || user.displayName.toLowerCase().includes(query))
+        .sort((a, b) => compareUsers(a, b, userTable.sort) * (userTable.descending ? -1 : 1));
+
+    userCountEl.textContent = listedUsers.filter(user => user.status !== 'deleted').length.toString();
     userTableBody.innerHTML = ''; // Clear previous entries
 
-    if (filter) {
-        userEntries = userEntries.filter(([email]) => email.toLowerCase().includes(filter.toLowerCase()));
-    }
+    document.querySelectorAll<HTMLButtonElement>('#user-list-table .sort-btn').forEach(button => {
+        if (button.dataset.sort === userTable.sort) button.setAttribute('aria-sort', userTable.descending ? 'descending' : 'ascending');
+        else button.removeAttribute('aria-sort');
+    });
 
-    userEntries.forEach(([email, userData]) => {
-        const user = userData as { createdAt: string; plainPassword?: string };
+    const pageCount = Math.max(1, Math.ceil(users.length / USERS_PER_PAGE));
+    userTable.page = Math.min(userTable.page, pageCount - 1);
+    (document.getElementById('user-page-info') as HTMLSpanElement).textContent = `Page ${userTable.page + 1} of ${pageCount}`;
+    (document.getElementById('user-page-prev') as HTMLButtonElement).disabled = userTable.page === 0;
+    (document.getElementById('user-page-next') as HTMLButtonElement).disabled = userTable.page >= pageCount - 1;
+
+    users.slice(userTable.page * USERS_PER_PAGE, (userTable.page + 1) * USERS_PER_PAGE).forEach((user) => {
+        const email = user.username;
+        const isSelf = email === currentUser?.username;
         const row = userTableBody.insertRow();
-        
+        row.classList.toggle('user-inactive', user.status !== 'active');
+
         const emailCell = row.insertCell(0);
-        const passwordCell = row.insertCell(1);
-        const createdCell = row.insertCell(2);
-        const actionsCell = row.insertCell(3);
+        const nameCell = row.insertCell(1);
+        const roleCell = row.insertCell(2);
+        const statusCell = row.insertCell(3);
+        const expiresCell = row.insertCell(4);
+        const createdCell = row.insertCell(5);
+        const actionsCell = row.insertCell(6);
 
         emailCell.textContent = email;
+        nameCell.textContent = user.displayName;
+        if (user.note) nameCell.title = user.note;
+        expiresCell.textContent = user.expiresOn ? formatDay(user.expiresOn) : '—';
         createdCell.textContent = new Date(user.createdAt).toLocaleDateString();
-        
-        // Password cell with show/hide toggle
-        if (user.plainPassword) {
-            passwordCell.classList.add('password-cell');
-            const passSpan = document.createElement('span');
-            passSpan.textContent = '••••••••';
-            passSpan.dataset.password = user.plainPassword;
-            
-            const toggleBtn = document.createElement('button');
-            toggleBtn.className = 'toggle-vis-btn';
-            toggleBtn.setAttribute('aria-label', 'Show password');
-            toggleBtn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M12 15a3 3 0 100-6 3 3 0 000 6z" /><path fill-rule="evenodd" d="M1.323 11.447C2.811 6.976 7.028 3.75 12.001 3.75c4.97 0 9.185 3.223 10.675 7.69.12.362.12.752 0 1.113-1.487 4.471-5.705 7.697-10.677 7.697-4.97 0-9.186-3.223-10.675-7.69a.75.75 0 010-1.113zM12.001 18C7.52 18 3.693 15.545 2.36 12c1.334-3.545 5.16-6 9.642-6 4.48 0 8.307 2.455 9.64 6-1.333 3.545-5.16 6-9.64 6z" clip-rule="evenodd" /></svg>`;
-            
-            let visibilityTimeout: number | null = null;
-            
-            toggleBtn.onclick = () => {
-                if (visibilityTimeout) {
-                    clearTimeout(visibilityTimeout);
-                    visibilityTimeout = null;
-                }
-                
-                const isMasked = passSpan.textContent === '••••••••';
-                if (isMasked) {
-                    passSpan.textContent = passSpan.dataset.password!;
-                    toggleBtn.setAttribute('aria-label', 'Hide password');
-                    toggleBtn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path fill-rule="evenodd" d="M3.53 2.47a.75.75 0 00-1.06 1.06l18 18a.75.75 0 101.06-1.06l-18-18zM22.676 12.553a11.249 11.249 0 01-2.631 4.31l-3.099-3.099a5.25 5.25 0 00-6.71-6.71L8.25 5.239a11.25 11.25 0 0114.426 7.314z" clip-rule="evenodd" /><path d="M12 15a3 3 0 100-6 3 3 0 000 6z" /><path d="M15.75 12a3.75 3.75 0 11-7.5 0 3.75 3.75 0 017.5 0z" /></svg>`;
-                    visibilityTimeout = window.setTimeout(() => {
-                        passSpan.textContent = '••••••••';
-                        toggleBtn.setAttribute('aria-label', 'Show password');
-                        toggleBtn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M12 15a3 3 0 100-6 3 3 0 000 6z" /><path fill-rule="evenodd" d="M1.323 11.447C2.811 6.976 7.028 3.75 12.001 3.75c4.97 0 9.185 3.223 10.675 7.69.12.362.12.752 0 1.113-1.487 4.471-5.705 7.697-10.677 7.697-4.97 0-9.186-3.223-10.675-7.69a.75.75 0 010-1.113zM12.001 18C7.52 18 3.693 15.545 2.36 12c1.334-3.545 5.16-6 9.642-6 4.48 0 8.307 2.455 9.64 6-1.333 3.545-5.16 6-9.64 6z" clip-rule="evenodd" /></svg>`;
-                    }, 5000);
-                } else {
-                    passSpan.textContent = '••••••••';
-                    toggleBtn.setAttribute('aria-label', 'Show password');
-                    toggleBtn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M12 15a3 3 0 100-6 3 3 0 000 6z" /><path fill-rule="evenodd" d="M1.323 11.447C2.811 6.976 7.028 3.75 12.001 3.75c4.97 0 9.185 3.223 10.675 7.69.12.362.12.752 0 1.113-1.487 4.471-5.705 7.697-10.677 7.697-4.97 0-9.186-3.223-10.675-7.69a.75.75 0 010-1.113zM12.001 18C7.52 18 3.693 15.545 2.36 12c1.334-3.545 5.16-6 9.642-6 4.48 0 8.307 2.455 9.64 6-1.333 3.545-5.16 6-9.64 6z" clip-rule="evenodd" /></svg>`;
-                }
-            };
-            
-            passwordCell.appendChild(passSpan);
-            passwordCell.appendChild(toggleBtn);
 
-        } else {
-            passwordCell.textContent = 'N/A'; // For admin user
+        statusCell.className = `user-status user-status-${user.status}`;
+        statusCell.textContent = ACCOUNT_STATUS_LABELS[user.status];
+        const statusDetail = user.purgeAt ? `Restorable until ${new Date(user.purgeAt).toLocaleDateString()}`
+            : user.mustChangePassword ? 'Password reset pending' : '';
+        if (statusDetail) {
+            const detail = document.createElement('small');
+            detail.textContent = statusDetail;
+            statusCell.appendChild(detail);
         }
-        
-        // Actions cell with Delete button
+
+        // Role cell: promote/demote. The server refuses to demote the last admin.
+        const roleSelect = document.createElement('select');
+        roleSelect.className = 'role-select';
+        roleSelect.setAttribute('aria-label', `Role for ${email}`);
+        roleSelect.disabled = user.status === 'deleted';
+        ROLES.forEach(role => roleSelect.add(new Option(ROLE_LABELS[role], role, false, role === user.role)));
+        roleSelect.onchange = async () => {
+            const newRole = roleSelect.value;
+            if (!isRole(newRole)) return;
+            const result = await userService.setRole(email, newRole);
+            showAdminMessage(result.message, result.success);
+            if (result.success && isSelf) {
+                // Changing your own role changes which pages you may open.
+                await userService.init();
+                router.handleRouteChange();
+                return;
+            }
+            displayUserList(currentUserFilter());
+        };
+        roleCell.appendChild(roleSelect);
+
+        actionsCell.className = 'user-actions';
+        if (user.status === 'deleted') {
+            actionsCell.appendChild(userActionButton('Restore', async () => {
+                const result = await userService.restoreUser(email);
+                showAdminMessage(result.message, result.success);
+                displayUserList(currentUserFilter());
+            }));
+            return;
+        }
+        const selfReason = isSelf ? 'You cannot do this to your own account.' : '';
+        actionsCell.append(
+            userActionButton('Edit', () => openUserEditor(user)),
+            userActionButton('Reset Password', () => resetUserPassword(user), selfReason),
+            user.status === 'disabled'
+                ? userActionButton('Enable', () => setUserDisabled(user, false))
+                : userActionButton('Disable', () => setUserDisabled(user, true), selfReason),
+        );
+
+        // Delete only marks the account; it can be restored within the server's restore window.
         const deleteBtn = document.createElement('button');
         deleteBtn.className = 'delete-btn';
         deleteBtn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path fill-rule="evenodd" d="M16.5 4.478v.227a48.816 48.816 0 013.878.512.75.75 0 11-.256 1.478l-.209-.035-1.005 13.006a.75.75 0 01-.749.658h-7.5a.75.75 0 01-.749-.658L5.13 6.66l-.209.035a.75.75 0 01-.256-1.478A48.567 48.567 0 017.5 4.705v-.227c0-1.564 1.213-2.9 2.816-2.9h.064c1.603 0 2.816 1.336 2.816 2.9zM18 6H6v12h12V6z" clip-rule="evenodd" /></svg> <span>Delete</span>`;
 
-        if (email.toLowerCase() === 'xhkusman4@gmail.com') {
+        if (isSelf) {
             deleteBtn.disabled = true;
-            deleteBtn.title = "Cannot delete the primary admin account.";
+            deleteBtn.title = "You cannot delete your own account.";
         } else {
-            deleteBtn.onclick = () => {
-                // More explicit confirmation dialog
-                if (confirm(`Are you sure you want to permanently delete the user '${email}'? This action cannot be undone.`)) {
-                    const result = userService.deleteUser(email);
-                    const messageEl = document.getElementById('admin-message') as HTMLParagraphElement;
-                    messageEl.textContent = result.message;
-                    messageEl.style.color = result.success ? 'var(--c-success)' : 'var(--c-primary)';
-
-                    // Clear the message after 4 seconds for better UX
-                    setTimeout(() => {
-                        // Only clear if the message hasn't been replaced by another one
-                        if (messageEl.textContent === result.message) {
-                            messageEl.textContent = '';
-                        }
-                    }, 4000);
-
-                    // Refresh list while preserving the current search filter
-                    const currentFilter = (document.getElementById('user-search-input') as HTMLInputElement).value;
-                    displayUserList(currentFilter);
+            deleteBtn.onclick = async () => {
+                if (confirm(`Delete the user '${email}'? They are signed out at once. The account can be restored from the Deleted filter for a limited time.`)) {
+                    const result = await userService.deleteUser(email);
+                    showAdminMessage(result.message, result.success);
+                    displayUserList(currentUserFilter());
                 }
             };
         }
@@ -298,309 +674,3280 @@ function displayUserList(filter: string = '') {
     });
 }
 
-// --- VIRTUAL TRY-ON APPLICATION LOGIC (Encapsulated) ---
-let isAppInitialized = false;
+// --- USAGE DASHBOARD ---
+// Generation calls metered by the API server (server/usage.ts), per user and UTC day.
+const DAY_MS = 24 * 60 * 60 * 1000;
+let usageRecords: UsageRecord[] = [];
+let usageRange = { from: '', to: '' };
 
-function initializeApp() {
-    if (isAppInitialized) return;
-    isAppInitialized = true;
+// Empty means no limit.
+const parseQuotaLimit = (value: string) => value.trim() === '' ? null : Number(value);
 
-    // --- DOM Elements ---
-    // App Mode
-    const virtualTryOnModeBtn = document.getElementById('virtual-try-on-mode-btn') as HTMLButtonElement;
-    const modelGenModeBtn = document.getElementById('model-gen-mode-btn') as HTMLButtonElement;
-    const virtualTryOnControls = document.getElementById('virtual-try-on-controls') as HTMLDivElement;
-    const modelGenControls = document.getElementById('model-generation-controls') as HTMLDivElement;
+async function displayUsage() {
+    const days = Number((document.getElementById('usage-range') as HTMLSelectElement).value);
+    const summaryEl = document.getElementById('usage-summary') as HTMLParagraphElement;
+    const chartEl = document.getElementById('usage-day-chart') as HTMLDivElement;
+    const tableBody = document.querySelector('#usage-table tbody') as HTMLTableSectionElement;
+    const to = usageDay();
+    const from = usageDay(new Date(Date.now() - (days - 1) * DAY_MS));
 
-    // Virtual Try-On Controls
-    const threePieceBtn = document.getElementById('three-piece-btn') as HTMLButtonElement;
-    const twoPieceBtn = document.getElementById('two-piece-btn') as HTMLButtonElement;
-    const kameezUpload = document.getElementById('kameez-upload') as HTMLInputElement;
-    const dupattaUpload = document.getElementById('dupatta-upload') as HTMLInputElement;
-    const trouserUpload = document.getElementById('trouser-upload') as HTMLInputElement;
-    const modelUpload = document.getElementById('model-upload') as HTMLInputElement;
-    const dupattaUploader = document.getElementById('dupatta-uploader') as HTMLDivElement;
-    const kameezPreview = document.getElementById('kameez-preview') as HTMLImageElement;
-    const dupattaPreview = document.getElementById('dupatta-preview') as HTMLImageElement;
-    const trouserPreview = document.getElementById('trouser-preview') as HTMLImageElement;
-    const modelPreview = document.getElementById('model-preview') as HTMLImageElement;
-    const modelClearBtn = document.getElementById('model-clear-btn') as HTMLButtonElement;
-    
-    // Model Generation Controls
-    const dressColorInput = document.getElementById('dress-color') as HTMLInputElement;
-    const dressColorValue = document.getElementById('dress-color-value') as HTMLSpanElement;
+    const [report, users] = await Promise.all([userService.usageReport(from, to), userService.listUsers()]);
+    usageRecords = report?.records ?? [];
+    usageRange = { from, to };
+    chartEl.innerHTML = '';
+    tableBody.innerHTML = '';
+    if (!report) {
+        summaryEl.textContent = 'Usage could not be loaded.';
+        return;
+    }
 
-    // Shared Controls
-    const modelPromptInput = document.getElementById('model-prompt') as HTMLTextAreaElement;
-    const backgroundPromptInput = document.getElementById('background-prompt') as HTMLTextAreaElement;
-    const surpriseMeBtn = document.getElementById('surprise-me-btn') as HTMLButtonElement;
-    const generateBtn = document.getElementById('generate-btn') as HTMLButtonElement;
-    const ratioButtons = document.querySelectorAll('.ratio-btn') as NodeListOf<HTMLButtonElement>;
-    
-    // Result Area
-    const resultContainer = document.getElementById('result-container') as HTMLDivElement;
-    const resultPlaceholder = document.getElementById('result-placeholder') as HTMLDivElement;
-    const resultGrid = document.getElementById('result-grid') as HTMLDivElement;
-    const resultImage = document.getElementById('result-image') as HTMLImageElement;
-    const loader = document.getElementById('loader') as HTMLDivElement;
-    const loaderText = loader.querySelector('p') as HTMLParagraphElement;
-    const downloadBtn = document.getElementById('download-btn') as HTMLButtonElement;
-    
-    // --- App State ---
-    let currentAppMode: 'virtual-try-on' | 'model-generation' = 'virtual-try-on';
-    let selectedAspectRatio = '16:9';
-    let currentTryOnMode: '2-piece' | '3-piece' = '3-piece';
-    const uploadedImages: { [key: string]: { base64: string; mimeType: string } | null } = {
-      kameez: null,
-      dupatta: null,
-      trouser: null,
-      model: null,
+    const total = totalUsage(usageRecords);
+    summaryEl.textContent = `${from} to ${to} (UTC): ${total.requests} calls · ${total.images} images · ${total.failures} failures · `
+        + `${formatCost(total.cost)} estimated at $${report.costPerImageUsd} per image.`;
+
+    // Calls per day; the grey top of each bar is the share that failed.
+    const byDay = usageByDay(usageRecords, from, to);
+    const busiestDay = Math.max(1, ...byDay.map(day => day.requests));
+    byDay.forEach(day => {
+        const bar = document.createElement('div');
+        bar.className = 'usage-day-bar';
+        bar.style.height = `${(day.requests / busiestDay) * 100}%`;
+        bar.title = `${day.day}: ${day.requests} calls, ${day.images} images, ${day.failures} failures, ${formatCost(day.cost)}`;
+        const failed = document.createElement('div');
+        failed.className = 'usage-day-failed';
+        failed.style.height = day.requests > 0 ? `${(day.failures / day.requests) * 100}%` : '0';
+        bar.appendChild(failed);
+        chartEl.appendChild(bar);
+    });
+
+    // Every account, costliest first; deleted accounts keep their usage but have no quota.
+    const byUser = usageByUser(usageRecords);
+    const idle = users.filter(user => !byUser.some(row => row.username === user.username)).map(user => ({ username: user.username, ...emptyCounts() }));
+    const rows = [...byUser, ...idle];
+    const highestCost = Math.max(0, ...rows.map(row => row.cost));
+    rows.forEach(usage => {
+        const row = tableBody.insertRow();
+        row.insertCell().textContent = usage.username;
+        row.insertCell().textContent = String(usage.requests);
+        row.insertCell().textContent = String(usage.images);
+        row.insertCell().textContent = String(usage.failures);
+        const costCell = row.insertCell();
+        costCell.textContent = formatCost(usage.cost);
+        const costBar = document.createElement('div');
+        costBar.className = 'usage-user-bar';
+        costBar.style.width = highestCost > 0 ? `${(usage.cost / highestCost) * 100}%` : '0';
+        costCell.appendChild(costBar);
+
+        const account = users.find(user => user.username === usage.username);
+        if (!account) {
+            row.insertCell().textContent = '—';
+            row.insertCell().textContent = '—';
+            row.insertCell();
+            return;
+        }
+        const quotaInput = (limit: number | null, label: string) => {
+            const input = document.createElement('input');
+            input.type = 'number';
+            input.min = '1';
+            input.step = '1';
+            input.placeholder = 'No limit';
+            input.className = 'usage-quota-input';
+            input.value = limit === null ? '' : String(limit);
+            input.setAttribute('aria-label', `${label} for ${account.username}`);
+            row.insertCell().appendChild(input);
+            return input;
+        };
+        const dailyInput = quotaInput(account.quota.daily, 'Daily quota');
+        const monthlyInput = quotaInput(account.quota.monthly, 'Monthly quota');
+        const saveBtn = document.createElement('button');
+        saveBtn.className = 'download-pose-btn';
+        saveBtn.textContent = 'Save';
+        saveBtn.onclick = async () => {
+            const result = await userService.setQuota(account.username, {
+                daily: parseQuotaLimit(dailyInput.value),
+                monthly: parseQuotaLimit(monthlyInput.value),
+            });
+            showAdminMessage(result.message, result.success);
+        };
+        row.insertCell().appendChild(saveBtn);
+    });
+}
+
+// --- ACTIVE SESSIONS ---
+// Everyone signed in, most recently active first. Revoking signs that browser out
+// on its next request; your own session ends through "Sign Out" instead.
+
+async function displaySessions() {
+    const countEl = document.getElementById('session-count') as HTMLSpanElement;
+    const tableBody = document.querySelector('#session-table tbody') as HTMLTableSectionElement;
+    const sessions = await userService.listSessions();
+    countEl.textContent = String(sessions.length);
+    tableBody.innerHTML = '';
+    sessions.forEach(session => {
+        const row = tableBody.insertRow();
+        row.insertCell().textContent = session.username;
+        row.insertCell().textContent = new Date(session.createdAt).toLocaleString();
+        row.insertCell().textContent = new Date(session.lastSeenAt).toLocaleString();
+        row.insertCell().textContent = new Date(session.expiresAt).toLocaleString();
+        row.insertCell().textContent = session.remember ? 'Remembered' : 'Browser session';
+        const deviceCell = row.insertCell();
+        deviceCell.className = 'session-device';
+        deviceCell.textContent = session.ip ?? '—';
+        if (session.userAgent) {
+            const agent = document.createElement('span');
+            agent.textContent = session.userAgent;
+            agent.title = session.userAgent;
+            deviceCell.appendChild(agent);
+        }
+
+        const revokeBtn = document.createElement('button');
+        revokeBtn.className = 'delete-btn';
+        revokeBtn.textContent = session.current ? 'This session' : 'Revoke';
+        revokeBtn.disabled = session.current;
+        if (session.current) revokeBtn.title = 'Sign out to end this session';
+        revokeBtn.onclick = async () => {
+            if (!confirm(`Sign ${session.username} out of this session?`)) return;
+            const result = await userService.revokeSession(session.id);
+            showAdminMessage(result.message, result.success);
+            displaySessions();
+        };
+        row.insertCell().appendChild(revokeBtn);
+    });
+}
+
+// --- AUDIT LOG ---
+// Read-only view of the server's append-only log (server/audit.ts).
+const AUDIT_ROWS_SHOWN = 500;
+let isAuditInitialized = false;
+let auditEvents: AuditEvent[] = [];
+
+function initializeAuditPage() {
+    if (isAuditInitialized) return;
+    isAuditInitialized = true;
+    const actionFilter = document.getElementById('audit-action-filter') as HTMLSelectElement;
+    (Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).forEach(action => actionFilter.add(new Option(AUDIT_ACTION_LABELS[action], action)));
+    (document.getElementById('audit-to') as HTMLInputElement).value = usageDay();
+    (document.getElementById('audit-from') as HTMLInputElement).value = usageDay(new Date(Date.now() - 6 * DAY_MS));
+
+    ['audit-action-filter', 'audit-from', 'audit-to'].forEach(id =>
+        (document.getElementById(id) as HTMLElement).addEventListener('change', () => displayAuditLog()));
+    let searchTimer: ReturnType<typeof setTimeout> | undefined;
+    (document.getElementById('audit-user-input') as HTMLInputElement).addEventListener('input', () => {
+        clearTimeout(searchTimer);
+        searchTimer = setTimeout(displayAuditLog, 300);
+    });
+    (document.getElementById('audit-export-btn') as HTMLButtonElement).addEventListener('click', () => {
+        const from = (document.getElementById('audit-from') as HTMLInputElement).value;
+        const to = (document.getElementById('audit-to') as HTMLInputElement).value;
+        const fileName = `audit-${from}-to-${to}.csv`;
+        downloadBlob(new Blob([serializeAuditCsv(auditEvents)], { type: 'text/csv' }), fileName);
+        userService.recordDownload('audit-csv', 1, fileName);
+    });
+}
+
+async function displayAuditLog() {
+    const summaryEl = document.getElementById('audit-summary') as HTMLParagraphElement;
+    const tableBody = document.querySelector('#audit-table tbody') as HTMLTableSectionElement;
+    const from = (document.getElementById('audit-from') as HTMLInputElement).value;
+    const to = (document.getElementById('audit-to') as HTMLInputElement).value;
+    const action = (document.getElementById('audit-action-filter') as HTMLSelectElement).value;
+    const user = (document.getElementById('audit-user-input') as HTMLInputElement).value.trim();
+    if (!from || !to || from > to) {
+        summaryEl.textContent = 'Choose a start date on or before the end date.';
+        return;
+    }
+    summaryEl.textContent = 'Loading…';
+    const report = await userService.auditLog({ from, to, action, user });
+    auditEvents = report?.events ?? [];
+    (document.getElementById('audit-count') as HTMLSpanElement).textContent = String(auditEvents.length);
+    tableBody.innerHTML = '';
+    if (!report) {
+        summaryEl.textContent = 'The audit log could not be loaded.';
+        return;
+    }
+    const failures = auditEvents.filter(event => event.outcome === 'failure').length;
+    summaryEl.textContent = [
+        `${auditEvents.length} event${auditEvents.length === 1 ? '' : 's'}, newest first; ${failures} failed.`,
+        report.truncated ? 'Only the newest events are listed; narrow the dates to see older ones.' : '',
+        auditEvents.length > AUDIT_ROWS_SHOWN ? `The table shows the first ${AUDIT_ROWS_SHOWN}; the CSV export has them all.` : '',
+    ].filter(Boolean).join(' ');
+
+    auditEvents.slice(0, AUDIT_ROWS_SHOWN).forEach(event => {
+        const row = tableBody.insertRow();
+        const timeCell = row.insertCell();
+        timeCell.className = 'audit-time';
+        timeCell.textContent = new Date(event.at).toLocaleString();
+        row.insertCell().textContent = event.actor || '—';
+        row.insertCell().textContent = AUDIT_ACTION_LABELS[event.action] ?? event.action;
+        const outcomeCell = row.insertCell();
+        outcomeCell.className = `audit-outcome-${event.outcome}`;
+        outcomeCell.textContent = event.outcome === 'success' ? 'Success' : 'Failed';
+        row.insertCell().textContent = event.target ?? '';
+        const details = row.insertCell();
+        details.textContent = [describeAuditDetails(event.details), event.ip ? `ip: ${event.ip}` : ''].filter(Boolean).join(', ');
+    });
+}
+
+// --- DIAGNOSTIC LOG ---
+// Failed generations recorded in this browser (services/diagnosticLog.ts).
+let diagnosticEntries: DiagnosticEntry[] = [];
+
+async function displayDiagnostics() {
+    const tableBody = document.querySelector('#diagnostic-table tbody') as HTMLTableSectionElement;
+    const countEl = document.getElementById('diagnostic-count') as HTMLSpanElement;
+    const kind = (document.getElementById('diagnostic-kind-filter') as HTMLSelectElement).value;
+
+    try {
+        diagnosticEntries = await diagnosticLog.list();
+    } catch (error) {
+        console.error('Could not read the diagnostic log:', error);
+        diagnosticEntries = [];
+    }
+    const shown = kind ? diagnosticEntries.filter(entry => entry.kind === kind) : diagnosticEntries;
+    countEl.textContent = String(diagnosticEntries.length);
+    tableBody.innerHTML = '';
+
+    if (shown.length === 0) {
+        const cell = tableBody.insertRow().insertCell();
+        cell.colSpan = 5;
+        cell.textContent = diagnosticEntries.length === 0 ? 'No failures recorded.' : 'No failures of this type.';
+        return;
+    }
+
+    shown.forEach(entry => {
+        const row = tableBody.insertRow();
+        row.insertCell().textContent = new Date(entry.createdAt).toLocaleString();
+        row.insertCell().textContent = entry.user || '—';
+
+        const jobCell = row.insertCell();
+        jobCell.textContent = entry.job.label;
+        const jobMeta = document.createElement('span');
+        jobMeta.className = 'diagnostic-meta';
+        jobMeta.textContent = `${entry.job.mode} · ${entry.job.attempts} attempt${entry.job.attempts === 1 ? '' : 's'}`;
+        jobCell.appendChild(jobMeta);
+
+        const kindEl = document.createElement('span');
+        kindEl.className = 'diagnostic-kind';
+        kindEl.textContent = ERROR_GUIDANCE[entry.kind]?.title ?? entry.kind;
+        row.insertCell().appendChild(kindEl);
+
+        const detailCell = row.insertCell();
+        detailCell.textContent = entry.message;
+        const meta = [
+            entry.status !== null ? `HTTP ${entry.status}` : '',
+            entry.finishReason ? `finish: ${entry.finishReason}` : '',
+            `${entry.request.imageCount} image${entry.request.imageCount === 1 ? '' : 's'} (${Math.round(entry.request.imageBytes / 1024)} KB)`,
+            `${entry.request.aspectRatio}`,
+        ].filter(Boolean).join(' · ');
+        const metaEl = document.createElement('span');
+        metaEl.className = 'diagnostic-meta';
+        metaEl.textContent = meta;
+        detailCell.appendChild(metaEl);
+        if (entry.modelText) {
+            const textEl = document.createElement('span');
+            textEl.className = 'diagnostic-meta';
+            textEl.textContent = `Model: ${entry.modelText}`;
+            detailCell.appendChild(textEl);
+        }
+    });
+}
+
+// --- EXPORTS ---
+// Every download goes through the export pipeline (services/exportPipeline.ts),
+// which resizes, watermarks and tags images in a Web Worker.
+const exportProcessor = createExportProcessor();
+// Logos are kept with the export settings in localStorage, so keep them small.
+const MAX_LOGO_BYTES = 512 * 1024;
+
+const reportExportFailure = (error: unknown) => {
+    console.error('Export failed:', error);
+    alert('The export could not be processed. Check the export settings and try again.');
+};
+
+async function downloadExportArchive(items: ExportItem[], exportedBy: string, label: string) {
+    try {
+        const processed = await exportProcessor.processItems(items);
+        downloadBlob(buildExportArchive(processed, exportedBy), exportArchiveName(label));
+        userService.recordDownload('archive', items.length, exportArchiveName(label));
+    } catch (error) {
+        reportExportFailure(error);
+    }
+}
+
+/** `index` numbers the file like its place in the zip export. */
+async function downloadExportImage(item: ExportItem, index: number) {
+    try {
+        const [processed] = await exportProcessor.processItems([item]);
+        const { image } = processed;
+        const fileName = exportFileName({ ...processed, mimeType: image.mimeType }, index);
+        downloadBlob(new Blob([base64ToBytes(image.base64)], { type: image.mimeType }), fileName);
+        userService.recordDownload('image', 1, fileName);
+    } catch (error) {
+        reportExportFailure(error);
+    }
+}
+
+function initializeExportSettings() {
+    const openBtn = document.getElementById('export-settings-btn') as HTMLButtonElement;
+    const dialog = document.getElementById('export-settings') as HTMLDialogElement;
+    const sizeSelect = document.getElementById('export-size') as HTMLSelectElement;
+    const formatSelect = document.getElementById('export-format') as HTMLSelectElement;
+    const qualityInput = document.getElementById('export-quality') as HTMLInputElement;
+    const qualityValue = document.getElementById('export-quality-value') as HTMLOutputElement;
+    const watermarkSelect = document.getElementById('export-watermark') as HTMLSelectElement;
+    const positionSelect = document.getElementById('export-position') as HTMLSelectElement;
+    const opacityInput = document.getElementById('export-opacity') as HTMLInputElement;
+    const opacityValue = document.getElementById('export-opacity-value') as HTMLOutputElement;
+    const textGroup = document.getElementById('export-text-group') as HTMLDivElement;
+    const textInput = document.getElementById('export-watermark-text') as HTMLInputElement;
+    const logoGroup = document.getElementById('export-logo-group') as HTMLDivElement;
+    const logoPreview = document.getElementById('export-logo-preview') as HTMLImageElement;
+    const logoUpload = document.getElementById('export-logo-upload') as HTMLInputElement;
+    const metadataCheckbox = document.getElementById('export-embed-metadata') as HTMLInputElement;
+    const errorEl = document.getElementById('export-settings-error') as HTMLParagraphElement;
+    let logo: ExportSettings['logo'] = null;
+
+    (Object.keys(EXPORT_SIZES) as ExportSizeId[]).forEach(id => {
+        const size = EXPORT_SIZES[id];
+        sizeSelect.add(new Option(size ? `${size.label} (${size.width}×${size.height})` : 'Original size', id));
+    });
+    (Object.keys(WATERMARK_POSITION_LABELS) as WatermarkPosition[]).forEach(position =>
+        positionSelect.add(new Option(WATERMARK_POSITION_LABELS[position], position)));
+
+    // Shows only the controls that apply to the chosen format and watermark.
+    const syncControls = () => {
+        const watermark = watermarkSelect.value as WatermarkMode;
+        qualityInput.disabled = formatSelect.value === 'image/png';
+        qualityValue.textContent = qualityInput.disabled ? 'lossless' : `${Math.round(Number(qualityInput.value) * 100)}%`;
+        opacityValue.textContent = `${Math.round(Number(opacityInput.value) * 100)}%`;
+        positionSelect.disabled = opacityInput.disabled = watermark === 'none';
+        textGroup.classList.toggle('hidden', watermark !== 'text');
+        logoGroup.classList.toggle('hidden', watermark !== 'logo');
+        logoPreview.classList.toggle('hidden', !logo);
+        if (logo) logoPreview.src = toDataUrl(logo);
     };
-    let generatedModelImageUrls: { url: string; title: string }[] = [];
-    
-    const modelPrompts = [
-        'Elegant Pakistani female model, confident pose, natural expression',
-        'Young South Asian model with a joyful smile, standing in a dynamic pose',
-    ];
-    
-    const backgroundPrompts = [
-        'Indoor studio with soft, professional fashion lighting',
-        'An outdoor garden with blooming flowers and lush greenery, during a sunny day',
-        'Inside a high-end fashion boutique with elegant decor',
-        'A traditional courtyard with intricate architectural details',
-    ];
-    
-    resultContainer.style.aspectRatio = selectedAspectRatio.replace(':', ' / ');
-    
-    // --- Helper Functions ---
-    const fileToGenerativePart = async (file: File): Promise<Part> => {
-      const base64EncodedData = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-        reader.readAsDataURL(file);
-      });
-      return {
-        inlineData: {
-          data: base64EncodedData,
-          mimeType: file.type,
-        },
-      };
+
+    const fill = (settings: ExportSettings) => {
+        sizeSelect.value = settings.size;
+        formatSelect.value = settings.format;
+        qualityInput.value = String(settings.quality);
+        watermarkSelect.value = settings.watermark;
+        textInput.value = settings.watermarkText;
+        positionSelect.value = settings.position;
+        opacityInput.value = String(settings.opacity);
+        metadataCheckbox.checked = settings.embedMetadata;
+        logo = settings.logo;
+        errorEl.textContent = '';
+        syncControls();
+    };
+
+    openBtn.addEventListener('click', () => {
+        fill(exportSettingsStore.load());
+        dialog.showModal();
+    });
+    [formatSelect, qualityInput, watermarkSelect, opacityInput].forEach(input => input.addEventListener('input', syncControls));
+
+    logoUpload.addEventListener('change', async () => {
+        const file = logoUpload.files?.[0];
+        logoUpload.value = '';
+        if (!file) return;
+        if (file.size > MAX_LOGO_BYTES) {
+            errorEl.textContent = `The logo must be under ${MAX_LOGO_BYTES / 1024} KB.`;
+            return;
+        }
+        logo = { base64: bytesToBase64(new Uint8Array(await file.arrayBuffer())), mimeType: file.type || 'image/png' };
+        errorEl.textContent = '';
+        syncControls();
+    });
+
+    (document.getElementById('export-settings-cancel') as HTMLButtonElement).addEventListener('click', () => dialog.close());
+    (document.getElementById('export-settings-save') as HTMLButtonElement).addEventListener('click', () => {
+        const watermark = watermarkSelect.value as WatermarkMode;
+        if (watermark === 'text' && !textInput.value.trim()) {
+            errorEl.textContent = 'Enter the watermark text, or choose no watermark.';
+            return;
+        }
+        if (watermark === 'logo' && !logo) {
+            errorEl.textContent = 'Choose a logo, or choose no watermark.';
+            return;
+        }
+        try {
+            exportSettingsStore.save({
+                size: sizeSelect.value as ExportSizeId,
+                format: formatSelect.value as ExportFormat,
+                quality: Number(qualityInput.value),
+                watermark,
+                watermarkText: textInput.value.trim(),
+                logo,
+                position: positionSelect.value as WatermarkPosition,
+                opacity: Number(opacityInput.value),
+                embedMetadata: metadataCheckbox.checked,
+            });
+            dialog.close();
+        } catch (error) {
+            console.error('Could not save export settings:', error);
+            errorEl.textContent = 'The settings could not be saved. Try a smaller logo.';
+        }
+    });
+}
+
+// --- PROJECTS ---
+// The header title and the nav drawer both switch the active project. The
+// dashboard registers `saveProjectWorkspace` and `applyProjectWorkspace` when it
+// initialises; it saves a moment after each change while a project is active.
+let activeProject: Project | null = null;
+let activeProjectLoad: { username: string; promise: Promise<Project | null> } | null = null;
+// The project whose workspace the dashboard shows; undefined before the first visit.
+let appliedWorkspaceFor: string | null | undefined;
+let saveProjectWorkspace: (() => Promise<void>) | null = null;
+let applyProjectWorkspace: ((project: Project | null) => Promise<void>) | null = null;
+let workspaceSaveTimer: number | undefined;
+const WORKSPACE_SAVE_DELAY_MS = 1000;
+
+function scheduleWorkspaceSave() {
+    if (!activeProject) return;
+    clearTimeout(workspaceSaveTimer);
+    workspaceSaveTimer = window.setTimeout(() => saveProjectWorkspace?.(), WORKSPACE_SAVE_DELAY_MS);
+}
+
+/** The signed-in user's active project, read once per user. */
+function loadActiveProject() {
+    const user = userService.getCurrentUser();
+    if (!user) {
+        activeProject = null;
+        activeProjectLoad = null;
+        return Promise.resolve(null);
+    }
+    if (activeProjectLoad?.username !== user.username) {
+        const promise = (async () => {
+            const id = projectStore.getActiveId();
+            try {
+                const stored = id ? await projectStore.get(id) : undefined;
+                activeProject = stored?.owner === user.username ? stored : null;
+            } catch (error) {
+                console.error('Could not load the active project:', error);
+                activeProject = null;
+            }
+            await renderProjectPickers();
+            return activeProject;
+        })();
+        activeProjectLoad = { username: user.username, promise };
+    }
+    return activeProjectLoad.promise;
+}
+
+const fillProjectSelect = (select: HTMLSelectElement, projects: Project[], noneLabel: string, selectedId: string) => {
+    select.innerHTML = '';
+    select.add(new Option(noneLabel, ''));
+    projects.forEach(project => select.add(new Option(project.name, project.id)));
+    select.value = projects.some(project => project.id === selectedId) ? selectedId : '';
+};
+
+async function renderProjectPickers() {
+    const user = userService.getCurrentUser();
+    let projects: Project[] = [];
+    try {
+        projects = user ? await projectStore.listByOwner(user.username) : [];
+    } catch (error) {
+        console.error('Could not list projects:', error);
+    }
+    const activeId = activeProject?.id ?? '';
+    fillProjectSelect(document.getElementById('header-project-select') as HTMLSelectElement, projects, 'Dashboard', activeId);
+    fillProjectSelect(document.getElementById('nav-project-select') as HTMLSelectElement, projects, 'No project', activeId);
+}
+
+/** Saves the dashboard into the current project, then opens `id` (null for none) on the current page. */
+async function switchProject(id: string | null) {
+    const user = userService.getCurrentUser();
+    if (!user) return;
+    await saveProjectWorkspace?.();
+    let project: Project | null = null;
+    try {
+        const stored = id ? await projectStore.get(id) : undefined;
+        project = stored?.owner === user.username ? stored : null;
+    } catch (error) {
+        console.error('Could not open the project:', error);
+    }
+    activeProject = project;
+    projectStore.setActiveId(project?.id ?? null);
+    await renderProjectPickers();
+    router.handleRouteChange();
+}
+
+function showProjectMessage(message: string, success: boolean) {
+    const messageEl = document.getElementById('project-message') as HTMLParagraphElement;
+    messageEl.textContent = message;
+    messageEl.style.color = success ? 'var(--c-success)' : 'var(--c-primary)';
+}
+
+async function exportProject(project: Project) {
+    try {
+        // Include the latest dashboard state when exporting the open project.
+        if (project.id === activeProject?.id) await saveProjectWorkspace?.();
+        const current = (await projectStore.get(project.id)) ?? project;
+        downloadBlob(await buildProjectArchive(current), projectArchiveName(current.name));
+        userService.recordDownload('project', 1, projectArchiveName(current.name));
+    } catch (error) {
+        console.error('Could not export project:', error);
+        showProjectMessage('The project could not be exported.', false);
+    }
+}
+
+async function displayProjects() {
+    const grid = document.getElementById('project-grid') as HTMLDivElement;
+    const countEl = document.getElementById('project-count') as HTMLSpanElement;
+    const user = userService.getCurrentUser();
+    if (!grid || !countEl || !user) return;
+
+    let projects: Project[] = [];
+    let entries: HistoryEntry[] = [];
+    try {
+        [projects, entries] = await Promise.all([projectStore.listByOwner(user.username), historyStore.listByOwner(user.username)]);
+    } catch (error) {
+        console.error('Could not load projects:', error);
+    }
+    countEl.textContent = projects.length.toString();
+
+    grid.innerHTML = '';
+    if (projects.length === 0) {
+        const empty = document.createElement('p');
+        empty.className = 'result-placeholder';
+        empty.textContent = 'Your projects will appear here.';
+        grid.appendChild(empty);
+        return;
+    }
+
+    projects.forEach(project => {
+        const generations = entries.filter(entry => entry.projectId === project.id);
+        const card = document.createElement('div');
+        card.className = 'result-item-container history-card';
+        card.classList.toggle('selected', project.id === activeProject?.id);
+
+        // Newest generation first (entries are newest first), else a garment in its workspace.
+        const cover = generations[0]?.images[0]?.image ?? Object.values(project.workspace?.garments ?? {}).find(image => !!image);
+        if (cover) {
+            const thumb = document.createElement('img');
+            thumb.src = toDataUrl(cover);
+            thumb.alt = project.name;
+            card.appendChild(thumb);
+        }
+
+        const info = document.createElement('div');
+        info.className = 'history-card-info';
+
+        const title = document.createElement('h3');
+        title.textContent = project.name;
+
+        const meta = document.createElement('p');
+        meta.className = 'history-card-meta';
+        meta.textContent = `${generations.length} generation${generations.length === 1 ? '' : 's'} · Updated ${new Date(project.updatedAt).toLocaleString()}`;
+
+        const actions = document.createElement('div');
+        actions.className = 'history-card-actions';
+        const addAction = (label: string, onClick: () => void, className = 'download-pose-btn') => {
+            const btn = document.createElement('button');
+            btn.className = className;
+            btn.textContent = label;
+            btn.onclick = onClick;
+            actions.appendChild(btn);
+        };
+        addAction('Open', async () => {
+            await switchProject(project.id);
+            window.location.hash = '#app';
+        });
+        addAction('Rename', async () => {
+            const name = prompt('New name for the project:', project.name);
+            if (name === null) return;
+            const problems = validateProject({ id: project.id, name }, projects);
+            if (problems.length > 0) {
+                showProjectMessage(problems[0], false);
+                return;
+            }
+            try {
+                const stored = (await projectStore.get(project.id)) ?? project;
+                const saved = await projectStore.put({ ...stored, name });
+                if (activeProject?.id === saved.id) activeProject = saved;
+                showProjectMessage(`Renamed to "${saved.name}".`, true);
+            } catch (error) {
+                console.error('Could not rename project:', error);
+                showProjectMessage('The project could not be renamed.', false);
+            }
+            await renderProjectPickers();
+            displayProjects();
+        });
+        addAction('Export', () => exportProject(project));
+        addAction('Delete', async () => {
+            const kept = generations.length > 0 ? ` Its ${generations.length} generation${generations.length === 1 ? ' stays' : 's stay'} in History.` : '';
+            if (!confirm(`Delete the project "${project.name}"?${kept}`)) return;
+            try {
+                await projectStore.remove(project.id);
+            } catch (error) {
+                console.error('Could not delete project:', error);
+            }
+            if (activeProject?.id === project.id) await switchProject(null);
+            else await renderProjectPickers();
+            displayProjects();
+        }, 'delete-btn');
+
+        info.appendChild(title);
+        info.appendChild(meta);
+        info.appendChild(actions);
+        card.appendChild(info);
+        grid.appendChild(card);
+    });
+}
+
+let isProjectsPageInitialized = false;
+
+function initializeProjectsPage() {
+    if (isProjectsPageInitialized) return;
+    isProjectsPageInitialized = true;
+
+    const form = document.getElementById('project-form') as HTMLFormElement;
+    const nameInput = document.getElementById('project-name') as HTMLInputElement;
+    const importInput = document.getElementById('project-import-input') as HTMLInputElement;
+
+    form.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const user = userService.getCurrentUser();
+        if (!user) return;
+        const project = newProject(user.username, nameInput.value);
+        try {
+            const problems = validateProject(project, await projectStore.listByOwner(user.username));
+            if (problems.length > 0) {
+                showProjectMessage(problems[0], false);
+                return;
+            }
+            const saved = await projectStore.put(project);
+            nameInput.value = '';
+            showProjectMessage('', true);
+            await switchProject(saved.id);
+            window.location.hash = '#app';
+        } catch (error) {
+            console.error('Could not create project:', error);
+            showProjectMessage('The project could not be created. The browser may be out of storage.', false);
+        }
+    });
+
+    (document.getElementById('project-import-btn') as HTMLButtonElement).addEventListener('click', () => importInput.click());
+    importInput.addEventListener('change', async () => {
+        const file = importInput.files?.[0];
+        const user = userService.getCurrentUser();
+        importInput.value = '';
+        if (!file || !user) return;
+        try {
+            const { project, generations } = await importProjectArchive(await file.arrayBuffer(), user.username);
+            showProjectMessage(`Imported "${project.name}" with ${generations} generation${generations === 1 ? '' : 's'}.`, true);
+        } catch (error) {
+            console.error('Could not import project:', error);
+            showProjectMessage(error instanceof Error ? `Import failed: ${error.message}` : 'Import failed.', false);
+        }
+        await renderProjectPickers();
+        displayProjects();
+    });
+}
+
+// --- GENERATION HISTORY GALLERY ---
+// The dashboard registers `restoreHistoryEntry` when it initialises; the history
+// page queues a restore and routes to #app, which applies it.
+let pendingHistoryRestore: { entry: HistoryEntry; rerun: boolean } | null = null;
+let restoreHistoryEntry: ((entry: HistoryEntry, rerun: boolean) => void) | null = null;
+// Registered by the dashboard too: reloads the active prompt template on each visit.
+let applyActiveTemplate: (() => Promise<void>) | null = null;
+// ...and reloads the Model Library picker, which the library page may have changed.
+let refreshLibraryModels: (() => Promise<void>) | null = null;
+
+// Ids of the cards ticked for export; survives searching, cleared on sign-out reloads.
+const historySelection = new Set<string>();
+let historyEntries: HistoryEntry[] = [];
+// Project id whose generations are shown; '' shows every project.
+let historyProjectFilter = '';
+
+function exportHistoryEntries(entries: HistoryEntry[], label: string) {
+    const user = userService.getCurrentUser();
+    const items = entries.flatMap(exportItemsFromEntry);
+    if (!user || items.length === 0) return;
+    return downloadExportArchive(items, user.username, label);
+}
+
+function updateHistoryExportButton() {
+    const exportBtn = document.getElementById('history-export-btn') as HTMLButtonElement;
+    const lookbookBtn = document.getElementById('history-lookbook-btn') as HTMLButtonElement;
+    const selected = historyEntries.filter(entry => historySelection.has(entry.id)).length;
+    exportBtn.textContent = `Export Selected (${selected})`;
+    exportBtn.disabled = lookbookBtn.disabled = selected === 0;
+}
+
+function openHistoryViewer(entry: HistoryEntry) {
+    const viewer = document.getElementById('history-viewer') as HTMLDialogElement;
+    const body = viewer.querySelector('.history-viewer-body') as HTMLDivElement;
+    body.innerHTML = '';
+    entry.images.forEach(image => {
+        const figure = document.createElement('figure');
+        const img = document.createElement('img');
+        img.src = toDataUrl(image.image);
+        img.alt = image.title;
+        const caption = document.createElement('figcaption');
+        caption.textContent = image.title;
+        figure.appendChild(img);
+        figure.appendChild(caption);
+        body.appendChild(figure);
+    });
+    viewer.showModal();
+}
+
+function openHistoryInStudio(entry: HistoryEntry, rerun: boolean) {
+    pendingHistoryRestore = { entry, rerun };
+    window.location.hash = '#app';
+}
+
+async function displayHistory(filter: string = '') {
+    const grid = document.getElementById('history-grid') as HTMLDivElement;
+    const countEl = document.getElementById('history-count') as HTMLSpanElement;
+    const user = userService.getCurrentUser();
+    if (!grid || !countEl || !user) return;
+
+    let entries: HistoryEntry[] = [];
+    let projects: Project[] = [];
+    try {
+        [entries, projects] = await Promise.all([historyStore.listByOwner(user.username), projectStore.listByOwner(user.username)]);
+    } catch (error) {
+        console.error('Could not load history:', error);
+    }
+    historyEntries = entries;
+    countEl.textContent = entries.length.toString();
+    updateHistoryExportButton();
+    const projectSelect = document.getElementById('history-project-filter') as HTMLSelectElement;
+    fillProjectSelect(projectSelect, projects, 'All projects', historyProjectFilter);
+    historyProjectFilter = projectSelect.value;
+    const projectNames = new Map(projects.map(project => [project.id, project.name]));
+    entries = entries.filter(entry => (!historyProjectFilter || entry.projectId === historyProjectFilter) && matchesHistorySearch(entry, filter));
+
+    grid.innerHTML = '';
+    if (entries.length === 0) {
+        const empty = document.createElement('p');
+        empty.className = 'result-placeholder';
+        empty.textContent = filter ? 'No generations match your search.'
+            : historyProjectFilter ? 'Generations made in this project will appear here.' : 'Your generations will appear here.';
+        grid.appendChild(empty);
+        return;
+    }
+
+    const canGenerate = hasPermission(user, 'generate');
+
+    entries.forEach(entry => {
+        const card = document.createElement('div');
+        card.className = 'result-item-container history-card';
+
+        const thumb = document.createElement('img');
+        thumb.src = toDataUrl(entry.images[0].image);
+        thumb.alt = entry.images[0].title;
+        thumb.style.aspectRatio = entry.inputs.aspectRatio.replace(':', ' / ');
+        thumb.onclick = () => openHistoryViewer(entry);
+
+        const info = document.createElement('div');
+        info.className = 'history-card-info';
+
+        const select = document.createElement('label');
+        select.className = 'history-card-select';
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = historySelection.has(entry.id);
+        checkbox.setAttribute('aria-label', 'Select for export');
+        checkbox.onchange = () => {
+            if (checkbox.checked) historySelection.add(entry.id);
+            else historySelection.delete(entry.id);
+            card.classList.toggle('selected', checkbox.checked);
+            updateHistoryExportButton();
+        };
+        select.appendChild(checkbox);
+        card.classList.toggle('selected', checkbox.checked);
+
+        const title = document.createElement('h3');
+        title.textContent = (entry.inputs.sku ? `SKU ${entry.inputs.sku} · ` : '') + (entry.inputs.appMode === 'virtual-try-on'
+            ? `Virtual Try-On (${outfitType(entry.inputs.tryOnMode).label})${entry.images.length > 1 ? ` · ${entry.images.length} variants` : ''}`
+            : `Model Generation · ${entry.images.length} pose${entry.images.length === 1 ? '' : 's'}`);
+
+        const meta = document.createElement('p');
+        meta.className = 'history-card-meta';
+        const projectName = !historyProjectFilter && entry.projectId ? projectNames.get(entry.projectId) : undefined;
+        meta.textContent = `${new Date(entry.createdAt).toLocaleString()} · ${entry.inputs.aspectRatio}${projectName ? ` · ${projectName}` : ''}`;
+
+        const prompt = document.createElement('p');
+        prompt.className = 'history-card-prompt';
+        prompt.textContent = [entry.inputs.modelPrompt, entry.inputs.backgroundPrompt].filter(Boolean).join(' · ') || 'Default prompts';
+
+        const actions = document.createElement('div');
+        actions.className = 'history-card-actions';
+        const addAction = (label: string, onClick: () => void, className = 'download-pose-btn') => {
+            const btn = document.createElement('button');
+            btn.className = className;
+            btn.textContent = label;
+            btn.onclick = onClick;
+            actions.appendChild(btn);
+        };
+        if (canGenerate) {
+            addAction('Open', () => openHistoryInStudio(entry, false));
+            addAction('Re-run', () => openHistoryInStudio(entry, true));
+            addAction('Add to Lookbook', () => addToLookbook(exportItemsFromEntry(entry)));
+        }
+        addAction('Download', () => exportHistoryEntries([entry], 'generation'));
+        addAction('Delete', async () => {
+            if (confirm('Delete this generation from your history?')) {
+                await historyStore.remove(entry.id);
+                historySelection.delete(entry.id);
+                displayHistory((document.getElementById('history-search-input') as HTMLInputElement).value);
+            }
+        }, 'delete-btn');
+
+        info.appendChild(title);
+        info.appendChild(meta);
+        info.appendChild(prompt);
+        info.appendChild(actions);
+        card.appendChild(select);
+        card.appendChild(thumb);
+        card.appendChild(info);
+        grid.appendChild(card);
+    });
+}
+
+// --- MODEL LIBRARY ---
+// The form edits a draft copy of one model. The dashboard remembers the picked
+// model under LIBRARY_MODEL_KEY, so it stays selected across sessions.
+const LIBRARY_MODEL_KEY = 'virtual-try-on-library-model';
+let libraryDraft: LibraryModel | null = null;
+let isModelLibraryInitialized = false;
+
+function showLibraryMessage(message: string, success: boolean) {
+    const messageEl = document.getElementById('library-message') as HTMLParagraphElement;
+    messageEl.textContent = message;
+    messageEl.style.color = success ? 'var(--c-success)' : 'var(--c-primary)';
+}
+
+function renderLibraryPhotos() {
+    const draft = libraryDraft!;
+    const container = document.getElementById('library-model-photos') as HTMLDivElement;
+    container.innerHTML = '';
+    draft.images.forEach((image, index) => {
+        const photo = document.createElement('div');
+        photo.className = 'library-model-photo';
+        const img = document.createElement('img');
+        img.src = toDataUrl(image);
+        img.alt = `Reference photo ${index + 1}`;
+        const removeBtn = document.createElement('button');
+        removeBtn.type = 'button';
+        removeBtn.className = 'clear-btn';
+        removeBtn.innerHTML = '&times;';
+        removeBtn.setAttribute('aria-label', `Remove reference photo ${index + 1}`);
+        removeBtn.onclick = () => {
+            draft.images.splice(index, 1);
+            renderLibraryPhotos();
+        };
+        photo.appendChild(img);
+        photo.appendChild(removeBtn);
+        container.appendChild(photo);
+    });
+    (document.querySelector('.library-upload-btn') as HTMLLabelElement).classList.toggle('hidden', draft.images.length >= MAX_MODEL_REFERENCES);
+}
+
+function fillLibraryForm(model: LibraryModel) {
+    libraryDraft = structuredClone(model);
+    (document.getElementById('library-form-title') as HTMLHeadingElement).textContent = model.name ? `Edit ${model.name}` : 'New Model';
+    (document.getElementById('library-model-name') as HTMLInputElement).value = model.name;
+    (document.getElementById('library-model-description') as HTMLTextAreaElement).value = model.description;
+    (document.getElementById('library-model-shared') as HTMLInputElement).checked = model.shared;
+    renderLibraryPhotos();
+}
+
+async function displayModelLibrary() {
+    const grid = document.getElementById('library-grid') as HTMLDivElement;
+    const countEl = document.getElementById('library-count') as HTMLSpanElement;
+    const user = userService.getCurrentUser();
+    if (!grid || !countEl || !user) return;
+
+    let models: LibraryModel[] = [];
+    try {
+        models = await modelLibrary.listFor(user.username);
+    } catch (error) {
+        console.error('Could not load the model library:', error);
+    }
+    countEl.textContent = models.length.toString();
+
+    grid.innerHTML = '';
+    if (models.length === 0) {
+        const empty = document.createElement('p');
+        empty.className = 'result-placeholder';
+        empty.textContent = 'Saved models will appear here.';
+        grid.appendChild(empty);
+        return;
+    }
+
+    const isAdmin = hasPermission(user, 'manage-users');
+    const selectedId = localStorage.getItem(LIBRARY_MODEL_KEY);
+
+    models.forEach(model => {
+        const card = document.createElement('div');
+        card.className = 'result-item-container history-card';
+        card.classList.toggle('selected', model.id === selectedId);
+
+        const thumb = document.createElement('img');
+        thumb.src = toDataUrl(model.images[0]);
+        thumb.alt = model.name;
+
+        const info = document.createElement('div');
+        info.className = 'history-card-info';
+
+        const title = document.createElement('h3');
+        title.textContent = model.name;
+
+        const meta = document.createElement('p');
+        meta.className = 'history-card-meta';
+        meta.textContent = `${model.shared ? 'Shared' : 'Private'}${model.owner === user.username ? '' : ` · by ${model.owner}`} · ${model.images.length} photo${model.images.length === 1 ? '' : 's'}`;
+
+        const description = document.createElement('p');
+        description.className = 'history-card-prompt';
+        description.textContent = model.description || 'No description';
+
+        const actions = document.createElement('div');
+        actions.className = 'history-card-actions';
+        const addAction = (label: string, onClick: () => void, className = 'download-pose-btn') => {
+            const btn = document.createElement('button');
+            btn.className = className;
+            btn.textContent = label;
+            btn.onclick = onClick;
+            actions.appendChild(btn);
+        };
+        addAction('Use on Dashboard', () => {
+            localStorage.setItem(LIBRARY_MODEL_KEY, model.id);
+            window.location.hash = '#app';
+        });
+        if (canEditLibraryModel(model, user, isAdmin)) {
+            addAction('Edit', () => {
+                fillLibraryForm(model);
+                showLibraryMessage('', true);
+                (document.getElementById('library-model-form') as HTMLFormElement).scrollIntoView({ behavior: 'smooth' });
+            });
+            addAction('Delete', async () => {
+                if (!confirm(`Delete "${model.name}" from the model library?`)) return;
+                try {
+                    await modelLibrary.remove(model.id);
+                } catch (error) {
+                    console.error('Could not delete library model:', error);
+                }
+                if (libraryDraft?.id === model.id) fillLibraryForm(newLibraryModel(user.username));
+                displayModelLibrary();
+            }, 'delete-btn');
+        }
+
+        info.appendChild(title);
+        info.appendChild(meta);
+        info.appendChild(description);
+        info.appendChild(actions);
+        card.appendChild(thumb);
+        card.appendChild(info);
+        grid.appendChild(card);
+    });
+}
+
+function initializeModelLibrary() {
+    const user = userService.getCurrentUser();
+    // Start from a blank form for whoever is signed in now.
+    if (user && (!libraryDraft || libraryDraft.owner !== user.username)) fillLibraryForm(newLibraryModel(user.username));
+    if (isModelLibraryInitialized) return;
+    isModelLibraryInitialized = true;
+
+    const form = document.getElementById('library-model-form') as HTMLFormElement;
+    const uploadInput = document.getElementById('library-model-upload') as HTMLInputElement;
+
+    uploadInput.addEventListener('change', async () => {
+        const draft = libraryDraft;
+        const files = Array.from(uploadInput.files ?? []);
+        uploadInput.value = '';
+        if (!draft) return;
+        showLibraryMessage('', true);
+        const room = MAX_MODEL_REFERENCES - draft.images.length;
+        if (files.length > room) showLibraryMessage(`Only the first ${room} photo${room === 1 ? '' : 's'} were added; a model holds ${MAX_MODEL_REFERENCES}.`, false);
+        for (const file of files.slice(0, room)) {
+            try {
+                const bitmap = await decodeImageFile(file);
+                draft.images.push(await processImage(bitmap, NO_EDIT, preprocessSettingsStore.load()));
+            } catch (error) {
+                console.error('Could not add reference photo:', error);
+                showLibraryMessage(error instanceof ImageValidationError ? error.message : `${file.name} could not be added.`, false);
+            }
+        }
+        if (libraryDraft === draft) renderLibraryPhotos();
+    });
+
+    (document.getElementById('library-new-btn') as HTMLButtonElement).addEventListener('click', () => {
+        const currentUser = userService.getCurrentUser();
+        if (!currentUser) return;
+        fillLibraryForm(newLibraryModel(currentUser.username));
+        showLibraryMessage('', true);
+    });
+
+    form.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const draft = libraryDraft;
+        if (!draft) return;
+        draft.name = (document.getElementById('library-model-name') as HTMLInputElement).value;
+        draft.description = (document.getElementById('library-model-description') as HTMLTextAreaElement).value;
+        draft.shared = (document.getElementById('library-model-shared') as HTMLInputElement).checked;
+        const problems = validateLibraryModel(draft);
+        if (problems.length > 0) {
+            showLibraryMessage(problems[0], false);
+            return;
+        }
+        try {
+            const saved = await modelLibrary.put(draft);
+            fillLibraryForm(saved);
+            showLibraryMessage(`Saved "${saved.name}".`, true);
+        } catch (error) {
+            console.error('Could not save library model:', error);
+            showLibraryMessage('The model could not be saved. The browser may be out of storage.', false);
+        }
+        displayModelLibrary();
+    });
+}
+
+// --- LOOKBOOKS ---
+// "Add to Lookbook" anywhere in the app appends to the active lookbook, remembered
+// under ACTIVE_LOOKBOOK_KEY; the Lookbooks page edits a draft copy of it. Exports
+// and published copies run every image through the export pipeline first.
+const ACTIVE_LOOKBOOK_KEY = 'virtual-try-on-active-lookbook';
+let lookbookDraft: Lookbook | null = null;
+let isLookbookEditorInitialized = false;
+
+const lookbookLink = (id: string) => `${location.origin}${location.pathname}#lookbook/${id}`;
+
+function showLookbookMessage(message: string, success: boolean) {
+    const messageEl = document.getElementById('lookbook-message') as HTMLParagraphElement;
+    messageEl.textContent = message;
+    messageEl.style.color = success ? 'var(--c-success)' : 'var(--c-primary)';
+}
+
+/** Appends results to the active lookbook, starting one if there is none yet. */
+async function addToLookbook(items: ExportItem[]) {
+    const user = userService.getCurrentUser();
+    if (!user || items.length === 0) return;
+    try {
+        const activeId = localStorage.getItem(ACTIVE_LOOKBOOK_KEY);
+        const stored = activeId ? await lookbookStore.get(activeId) : undefined;
+        // An unsaved draft keeps its id, so the Lookbooks page picks these images up.
+        const lookbook = stored?.owner === user.username ? stored
+            : { ...newLookbook(user.username), ...(activeId && !stored && lookbookDraft?.id === activeId ? { id: activeId } : {}) };
+        const room = MAX_LOOKBOOK_ITEMS - lookbook.items.length;
+        if (room <= 0) {
+            alert(`"${lookbook.title}" already holds ${MAX_LOOKBOOK_ITEMS} images. Start a new lookbook on the Lookbooks page.`);
+            return;
+        }
+        lookbook.items.push(...items.slice(0, room).map(newLookbookItem));
+        const saved = await lookbookStore.put(lookbook);
+        localStorage.setItem(ACTIVE_LOOKBOOK_KEY, saved.id);
+        const added = Math.min(room, items.length);
+        alert(`Added ${added} image${added === 1 ? '' : 's'} to "${saved.title}"${items.length > room ? `; it is now full, so ${items.length - room} were left out` : ''}.`);
+    } catch (error) {
+        console.error('Could not add to the lookbook:', error);
+        alert('The images could not be added. The browser may be out of storage.');
+    }
+}
+
+function renderLookbookItems() {
+    const draft = lookbookDraft!;
+    const list = document.getElementById('lookbook-items') as HTMLOListElement;
+    list.innerHTML = '';
+    if (draft.items.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'result-placeholder';
+        empty.textContent = 'No images yet.';
+        list.appendChild(empty);
+        return;
+    }
+    draft.items.forEach((item, index) => {
+        const row = document.createElement('li');
+        row.className = 'lookbook-item';
+
+        const img = document.createElement('img');
+        img.src = toDataUrl(item.image);
+        img.alt = item.title;
+
+        const fields = document.createElement('div');
+        fields.className = 'lookbook-item-fields';
+        const addField = (key: 'title' | 'sku' | 'price' | 'notes', placeholder: string, maxLength: number) => {
+            const input = key === 'notes' ? document.createElement('textarea') : document.createElement('input');
+            input.value = item[key];
+            input.placeholder = placeholder;
+            input.maxLength = maxLength;
+            input.setAttribute('aria-label', `${placeholder} for image ${index + 1}`);
+            if (input instanceof HTMLTextAreaElement) input.rows = 2;
+            input.addEventListener('input', () => { item[key] = input.value; });
+            fields.appendChild(input);
+        };
+        addField('title', 'Title', 200);
+        addField('sku', 'SKU', 100);
+        addField('price', 'Price', 100);
+        addField('notes', 'Notes', 2000);
+
+        const actions = document.createElement('div');
+        actions.className = 'lookbook-item-actions';
+        const addAction = (label: string, ariaLabel: string, onClick: () => void, disabled = false, className = 'download-pose-btn') => {
+            const btn = document.createElement('button');
+            btn.type = 'button';
+            btn.className = className;
+            btn.textContent = label;
+            btn.disabled = disabled;
+            btn.setAttribute('aria-label', ariaLabel);
+            btn.onclick = onClick;
+            actions.appendChild(btn);
+        };
+        const move = (offset: number) => {
+            draft.items.splice(index + offset, 0, ...draft.items.splice(index, 1));
+            renderLookbookItems();
+        };
+        addAction('↑', `Move image ${index + 1} up`, () => move(-1), index === 0);
+        addAction('↓', `Move image ${index + 1} down`, () => move(1), index === draft.items.length - 1);
+        addAction('Remove', `Remove image ${index + 1}`, () => {
+            draft.items.splice(index, 1);
+            renderLookbookItems();
+        }, false, 'delete-btn');
+
+        row.appendChild(img);
+        row.appendChild(fields);
+        row.appendChild(actions);
+        list.appendChild(row);
+    });
+}
+
+function updateLookbookSharing() {
+    const draft = lookbookDraft!;
+    const link = document.getElementById('lookbook-share-link') as HTMLAnchorElement;
+    link.href = link.textContent = lookbookLink(draft.id);
+    (document.getElementById('lookbook-share') as HTMLParagraphElement).classList.toggle('hidden', !draft.publishedAt);
+    (document.getElementById('lookbook-unpublish-btn') as HTMLButtonElement).classList.toggle('hidden', !draft.publishedAt);
+    (document.getElementById('lookbook-publish-btn') as HTMLButtonElement).textContent = draft.publishedAt ? 'Update Shared Copy' : 'Publish Link';
+}
+
+function fillLookbookForm(lookbook: Lookbook) {
+    lookbookDraft = structuredClone(lookbook);
+    localStorage.setItem(ACTIVE_LOOKBOOK_KEY, lookbook.id);
+    (document.getElementById('lookbook-form-title') as HTMLHeadingElement).textContent = lookbook.items.length > 0 ? `Edit ${lookbook.title}` : 'New Lookbook';
+    (document.getElementById('lookbook-title') as HTMLInputElement).value = lookbook.title;
+    (document.getElementById('lookbook-client') as HTMLInputElement).value = lookbook.client;
+    (document.getElementById('lookbook-intro') as HTMLTextAreaElement).value = lookbook.intro;
+    renderLookbookItems();
+    updateLookbookSharing();
+}
+
+/** Reads the form into the draft and saves it; null (with a message shown) when it is not ready. */
+async function saveLookbookDraft(): Promise<Lookbook | null> {
+    const draft = lookbookDraft;
+    if (!draft) return null;
+    draft.title = (document.getElementById('lookbook-title') as HTMLInputElement).value;
+    draft.client = (document.getElementById('lookbook-client') as HTMLInputElement).value;
+    draft.intro = (document.getElementById('lookbook-intro') as HTMLTextAreaElement).value;
+    const problems = validateLookbook(draft);
+    if (problems.length > 0) {
+        showLookbookMessage(problems[0], false);
+        return null;
+    }
+    try {
+        const saved = await lookbookStore.put(draft);
+        if (lookbookDraft === draft) {
+            lookbookDraft.updatedAt = saved.updatedAt;
+            (document.getElementById('lookbook-form-title') as HTMLHeadingElement).textContent = `Edit ${saved.title}`;
+        }
+        displayLookbooks();
+        return saved;
+    } catch (error) {
+        console.error('Could not save lookbook:', error);
+        showLookbookMessage('The lookbook could not be saved. The browser may be out of storage.', false);
+        return null;
+    }
+}
+
+async function buildLookbookDocument(lookbook: Lookbook): Promise<LookbookDocument> {
+    const processed = await exportProcessor.processItems(lookbook.items.map(item => ({
+        ...item.source,
+        image: item.image,
+        title: item.title || item.source.title,
+        sku: item.sku || item.source.sku,
+    })));
+    return {
+        id: lookbook.id,
+        title: lookbook.title,
+        client: lookbook.client,
+        intro: lookbook.intro,
+        items: lookbook.items.map(({ title, sku, price, notes }, index) => ({ image: processed[index].image, title, sku, price, notes })),
+        publishedAt: new Date().toISOString(),
+    };
+}
+
+// Prints from a hidden frame, so the browser's "Save as PDF" gets just the lookbook.
+function printLookbookHtml(html: string) {
+    const frame = document.createElement('iframe');
+    frame.className = 'lookbook-print-frame';
+    frame.setAttribute('aria-hidden', 'true');
+    frame.onload = () => {
+        const view = frame.contentWindow;
+        if (!view) return;
+        view.addEventListener('afterprint', () => frame.remove());
+        view.print();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+}
+
+async function exportLookbook(output: 'html' | 'pdf') {
+    const user = userService.getCurrentUser();
+    const lookbook = await saveLookbookDraft();
+    if (!user || !lookbook) return;
+    showLookbookMessage('Preparing images…', true);
+    try {
+        const html = renderLookbookHtml(await buildLookbookDocument(lookbook));
+        if (output === 'html') downloadBlob(new Blob([html], { type: 'text/html' }), lookbookFileName(lookbook.title));
+        else printLookbookHtml(html);
+        userService.recordDownload('lookbook', lookbook.items.length, output === 'html' ? lookbookFileName(lookbook.title) : `${lookbook.title} (print)`);
+        showLookbookMessage('', true);
+    } catch (error) {
+        showLookbookMessage('', true);
+        reportExportFailure(error);
+    }
+}
+
+async function publishLookbook() {
+    const user = userService.getCurrentUser();
+    const lookbook = await saveLookbookDraft();
+    if (!user || !lookbook) return;
+    showLookbookMessage('Publishing…', true);
+    let shared: LookbookDocument;
+    try {
+        shared = await buildLookbookDocument(lookbook);
+    } catch (error) {
+        showLookbookMessage('', true);
+        reportExportFailure(error);
+        return;
+    }
+    const response = await apiRequest<{ publishedAt: string }>(`/lookbooks/${lookbook.id}`, { method: 'PUT', body: shared });
+    if (!response.ok) {
+        showLookbookMessage(response.data.error ?? 'The lookbook could not be published.', false);
+        return;
+    }
+    const saved = await lookbookStore.put({ ...lookbook, publishedAt: response.data.publishedAt });
+    if (lookbookDraft?.id === saved.id) {
+        lookbookDraft.publishedAt = saved.publishedAt;
+        lookbookDraft.updatedAt = saved.updatedAt;
+        updateLookbookSharing();
+    }
+    displayLookbooks();
+    const copied = await navigator.clipboard?.writeText(lookbookLink(saved.id)).then(() => true, () => false);
+    showLookbookMessage(copied ? 'Published. The link is copied to your clipboard.' : 'Published. Share the link below.', true);
+}
+
+/** Withdraws the shared copy; the lookbook itself stays in this browser. */
+async function unpublishLookbook(lookbook: Lookbook) {
+    const response = await apiRequest(`/lookbooks/${lookbook.id}`, { method: 'DELETE' });
+    // Already gone from the server is as good as withdrawn.
+    if (!response.ok && response.status !== 404) return response.data.error ?? 'The lookbook could not be withdrawn.';
+    const stored = await lookbookStore.get(lookbook.id);
+    if (stored) await lookbookStore.put({ ...stored, publishedAt: null });
+    return null;
+}
+
+async function displayLookbooks() {
+    const grid = document.getElementById('lookbook-grid') as HTMLDivElement;
+    const countEl = document.getElementById('lookbook-count') as HTMLSpanElement;
+    const user = userService.getCurrentUser();
+    if (!grid || !countEl || !user) return;
+
+    let lookbooks: Lookbook[] = [];
+    try {
+        lookbooks = await lookbookStore.listByOwner(user.username);
+    } catch (error) {
+        console.error('Could not load lookbooks:', error);
+    }
+    countEl.textContent = lookbooks.length.toString();
+
+    grid.innerHTML = '';
+    if (lookbooks.length === 0) {
+        const empty = document.createElement('p');
+        empty.className = 'result-placeholder';
+        empty.textContent = 'Saved lookbooks will appear here.';
+        grid.appendChild(empty);
+        return;
+    }
+
+    lookbooks.forEach(lookbook => {
+        const card = document.createElement('div');
+        card.className = 'result-item-container history-card';
+        card.classList.toggle('selected', lookbook.id === lookbookDraft?.id);
+
+        if (lookbook.items.length > 0) {
+            const thumb = document.createElement('img');
+            thumb.src = toDataUrl(lookbook.items[0].image);
+            thumb.alt = lookbook.title;
+            card.appendChild(thumb);
+        }
+
+        const info = document.createElement('div');
+        info.className = 'history-card-info';
+
+        const title = document.createElement('h3');
+        title.textContent = lookbook.title;
+
+        const meta = document.createElement('p');
+        meta.className = 'history-card-meta';
+        meta.textContent = [
+            lookbook.client,
+            `${lookbook.items.length} image${lookbook.items.length === 1 ? '' : 's'}`,
+            lookbook.publishedAt ? `Shared ${new Date(lookbook.publishedAt).toLocaleDateString()}` : 'Not shared',
+        ].filter(Boolean).join(' · ');
+
+        const actions = document.createElement('div');
+        actions.className = 'history-card-actions';
+        const addAction = (label: string, onClick: () => void, className = 'download-pose-btn') => {
+            const btn = document.createElement('button');
+            btn.className = className;
+            btn.textContent = label;
+            btn.onclick = onClick;
+            actions.appendChild(btn);
+        };
+        addAction('Edit', () => {
+            fillLookbookForm(lookbook);
+            showLookbookMessage('', true);
+            displayLookbooks();
+            (document.getElementById('lookbook-form') as HTMLFormElement).scrollIntoView({ behavior: 'smooth' });
+        });
+        addAction('Delete', async () => {
+            if (!confirm(`Delete "${lookbook.title}"?${lookbook.publishedAt ? ' Its shared link will stop working.' : ''}`)) return;
+            if (lookbook.publishedAt) {
+                const problem = await unpublishLookbook(lookbook);
+                if (problem) {
+                    alert(problem);
+                    return;
+                }
+            }
+            try {
+                await lookbookStore.remove(lookbook.id);
+            } catch (error) {
+                console.error('Could not delete lookbook:', error);
+            }
+            if (lookbookDraft?.id === lookbook.id) fillLookbookForm(newLookbook(user.username));
+            displayLookbooks();
+        }, 'delete-btn');
+
+        info.appendChild(title);
+        info.appendChild(meta);
+        info.appendChild(actions);
+        card.appendChild(info);
+        grid.appendChild(card);
+    });
+}
+
+async function initializeLookbooks() {
+    const user = userService.getCurrentUser();
+    if (!user) return;
+    const activeId = localStorage.getItem(ACTIVE_LOOKBOOK_KEY);
+    let stored: Lookbook | undefined;
+    try {
+        stored = activeId ? await lookbookStore.get(activeId) : undefined;
+    } catch (error) {
+        console.error('Could not load the active lookbook:', error);
+    }
+    if (!lookbookDraft || lookbookDraft.owner !== user.username || lookbookDraft.id !== activeId) {
+        fillLookbookForm(stored?.owner === user.username ? stored : newLookbook(user.username));
+    } else if (stored && stored.updatedAt !== lookbookDraft.updatedAt) {
+        // Keep unsaved edits, and pick up images added from other pages since.
+        const known = new Set(lookbookDraft.items.map(item => item.id));
+        lookbookDraft.items.push(...stored.items.filter(item => !known.has(item.id)));
+        lookbookDraft.updatedAt = stored.updatedAt;
+        lookbookDraft.publishedAt = stored.publishedAt;
+        renderLookbookItems();
+        updateLookbookSharing();
+    }
+    if (isLookbookEditorInitialized) return;
+    isLookbookEditorInitialized = true;
+
+    (document.getElementById('lookbook-form') as HTMLFormElement).addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const saved = await saveLookbookDraft();
+        if (saved) showLookbookMessage(`Saved "${saved.title}".${saved.publishedAt ? ' Publish again to update the shared copy.' : ''}`, true);
+    });
+    (document.getElementById('lookbook-new-btn') as HTMLButtonElement).addEventListener('click', () => {
+        const currentUser = userService.getCurrentUser();
+        if (!currentUser) return;
+        fillLookbookForm(newLookbook(currentUser.username));
+        showLookbookMessage('', true);
+        displayLookbooks();
+    });
+    (document.getElementById('lookbook-html-btn') as HTMLButtonElement).addEventListener('click', () => exportLookbook('html'));
+    (document.getElementById('lookbook-pdf-btn') as HTMLButtonElement).addEventListener('click', () => exportLookbook('pdf'));
+    (document.getElementById('lookbook-publish-btn') as HTMLButtonElement).addEventListener('click', publishLookbook);
+    (document.getElementById('lookbook-unpublish-btn') as HTMLButtonElement).addEventListener('click', async () => {
+        const draft = lookbookDraft;
+        if (!draft || !confirm('Stop sharing this lookbook? Its link will stop working.')) return;
+        const problem = await unpublishLookbook(draft);
+        if (problem) {
+            showLookbookMessage(problem, false);
+            return;
+        }
+        draft.publishedAt = null;
+        updateLookbookSharing();
+        showLookbookMessage('The lookbook is no longer shared.', true);
+        displayLookbooks();
+    });
+}
+
+/** The read-only page behind a share link; needs no sign-in. */
+async function displayPublicLookbook(id: string) {
+    const frame = document.getElementById('lookbook-public-frame') as HTMLIFrameElement;
+    const messageEl = document.getElementById('lookbook-public-message') as HTMLParagraphElement;
+    frame.classList.add('hidden');
+    messageEl.textContent = 'Loading…';
+    const response = await apiRequest<{ lookbook: LookbookDocument }>(`/lookbooks/${encodeURIComponent(id)}`);
+    if (!response.ok) {
+        messageEl.textContent = response.data.error ?? 'This lookbook could not be loaded.';
+        return;
+    }
+    messageEl.textContent = '';
+    // Sandboxed without scripts; the page is rendered from escaped text and data URLs.
+    frame.srcdoc = renderLookbookHtml(response.data.lookbook);
+    frame.classList.remove('hidden');
+}
+
+// --- PROMPT TEMPLATE EDITOR ---
+// Edits a draft copy of one template; "Save New Version" validates it and stores
+// it with a bumped version. The dashboard picks up changes the next time it opens.
+let templateDraft: PromptTemplate | null = null;
+let isTemplateEditorInitialized = false;
+
+const templateInput = (id: string) => document.getElementById(id) as HTMLInputElement | HTMLTextAreaElement;
+
+const TEMPLATE_FIELDS: [string, (t: PromptTemplate) => string, (t: PromptTemplate, value: string) => void][] = [
+    ['template-name', t => t.name, (t, v) => { t.name = v.trim(); }],
+    ['template-tryon-prompt', t => t.tryOn.prompt, (t, v) => { t.tryOn.prompt = v; }],
+    ['template-tryon-outfit', t => t.tryOn.outfit, (t, v) => { t.tryOn.outfit = v; }],
+    ['template-tryon-accessories', t => t.tryOn.accessories, (t, v) => { t.tryOn.accessories = v; }],
+    ['template-tryon-refine', t => t.tryOn.refine, (t, v) => { t.tryOn.refine = v; }],
+    ['template-tryon-inpaint', t => t.tryOn.inpaint, (t, v) => { t.tryOn.inpaint = v; }],
+    ['template-tryon-model', t => t.tryOn.defaultModel, (t, v) => { t.tryOn.defaultModel = v.trim(); }],
+    ['template-tryon-background', t => t.tryOn.defaultBackground, (t, v) => { t.tryOn.defaultBackground = v.trim(); }],
+    ['template-pose-base', t => t.poses.base, (t, v) => { t.poses.base = v; }],
+    ['template-pose-outfit-plain', t => t.poses.outfitPlain, (t, v) => { t.poses.outfitPlain = v; }],
+    ['template-pose-outfit-garments', t => t.poses.outfitGarments, (t, v) => { t.poses.outfitGarments = v; }],
+    ['template-pose-model', t => t.poses.defaultModel, (t, v) => { t.poses.defaultModel = v.trim(); }],
+    ['template-pose-background', t => t.poses.defaultBackground, (t, v) => { t.poses.defaultBackground = v.trim(); }],
+    ['template-surprise-models', t => t.surprise.models.join('\n'), (t, v) => { t.surprise.models = v.split('\n').map(l => l.trim()).filter(Boolean); }],
+    ['template-surprise-backgrounds', t => t.surprise.backgrounds.join('\n'), (t, v) => { t.surprise.backgrounds = v.split('\n').map(l => l.trim()).filter(Boolean); }],
+];
+
+function showTemplateMessage(message: string, success: boolean) {
+    const messageEl = document.getElementById('template-message') as HTMLParagraphElement;
+    messageEl.textContent = message;
+    messageEl.style.color = success ? 'var(--c-success)' : 'var(--c-primary)';
+}
+
+// Copies the form fields into the draft (pose rows write to it as they are edited).
+function readTemplateForm() {
+    const draft = templateDraft!;
+    TEMPLATE_FIELDS.forEach(([id, , write]) => write(draft, templateInput(id).value));
+    draft.poses.count = Number((document.getElementById('template-pose-count') as HTMLSelectElement).value) || draft.poses.presets.length;
+    return draft;
+}
+
+function renderPoseCountOptions() {
+    const draft = templateDraft!;
+    const select = document.getElementById('template-pose-count') as HTMLSelectElement;
+    const count = poseCountFor(draft);
+    select.innerHTML = '';
+    draft.poses.presets.forEach((_, index) => select.add(new Option(String(index + 1), String(index + 1), false, index + 1 === count)));
+    document.querySelectorAll('.template-pose-row').forEach((row, index) => row.classList.toggle('excluded', index >= count));
+}
+
+function renderPoseList() {
+    const draft = templateDraft!;
+    const list = document.getElementById('template-pose-list') as HTMLDivElement;
+    list.innerHTML = '';
+    draft.poses.presets.forEach((preset, index) => {
+        const row = document.createElement('div');
+        row.className = 'template-pose-row';
+
+        const title = document.createElement('input');
+        title.type = 'text';
+        title.value = preset.title;
+        title.setAttribute('aria-label', `Pose ${index + 1} title`);
+        title.oninput = () => { preset.title = title.value; };
+
+        const prompt = document.createElement('textarea');
+        prompt.rows = 2;
+        prompt.value = preset.prompt;
+        prompt.setAttribute('aria-label', `Pose ${index + 1} prompt`);
+        prompt.oninput = () => { preset.prompt = prompt.value; };
+
+        const actions = document.createElement('div');
+        actions.className = 'template-pose-row-actions';
+        const addAction = (label: string, ariaLabel: string, onClick: () => void, disabled = false, className = 'download-pose-btn') => {
+            const btn = document.createElement('button');
+            btn.type = 'button';
+            btn.className = className;
+            btn.textContent = label;
+            btn.disabled = disabled;
+            btn.setAttribute('aria-label', ariaLabel);
+            btn.onclick = onClick;
+            actions.appendChild(btn);
+        };
+        const move = (offset: number) => {
+            draft.poses.count = Number((document.getElementById('template-pose-count') as HTMLSelectElement).value);
+            const [moved] = draft.poses.presets.splice(index, 1);
+            draft.poses.presets.splice(index + offset, 0, moved);
+            renderPoseList();
+        };
+        addAction('↑', 'Move up', () => move(-1), index === 0);
+        addAction('↓', 'Move down', () => move(1), index === draft.poses.presets.length - 1);
+        addAction('×', 'Remove pose', () => {
+            draft.poses.count = Number((document.getElementById('template-pose-count') as HTMLSelectElement).value);
+            draft.poses.presets.splice(index, 1);
+            renderPoseList();
+        }, draft.poses.presets.length === 1, 'delete-btn');
+
+        row.appendChild(title);
+        row.appendChild(actions);
+        row.appendChild(prompt);
+        list.appendChild(row);
+    });
+    renderPoseCountOptions();
+}
+
+function fillTemplateForm(template: PromptTemplate) {
+    templateDraft = structuredClone(template);
+    TEMPLATE_FIELDS.forEach(([id, read]) => { templateInput(id).value = read(template); });
+    const isActive = template.id === templateStore.getActiveId();
+    (document.getElementById('template-meta') as HTMLParagraphElement).textContent =
+        `Version ${template.version}${template.version > 1 ? ` · saved ${new Date(template.updatedAt).toLocaleString()}` : ''}${isActive ? ' · in use on the dashboard' : ''}`;
+    (document.getElementById('template-use-btn') as HTMLButtonElement).disabled = isActive;
+    renderPoseList();
+}
+
+async function displayTemplates(selectId?: string) {
+    const picker = document.getElementById('template-picker') as HTMLSelectElement;
+    let templates: PromptTemplate[] = [DEFAULT_TEMPLATE];
+    try {
+        templates = await templateStore.list();
+    } catch (error) {
+        console.error('Could not load templates:', error);
+    }
+    const activeId = templateStore.getActiveId();
+    const selected = templates.find(t => t.id === (selectId ?? templateDraft?.id ?? activeId)) ?? templates[0];
+
+    picker.innerHTML = '';
+    templates.forEach(t => picker.add(new Option(`${t.name} (v${t.version})${t.id === activeId ? ' ★' : ''}`, t.id, false, t.id === selected.id)));
+    showTemplateMessage('', true);
+    fillTemplateForm(selected);
+}
+
+function initializeTemplateEditor() {
+    if (isTemplateEditorInitialized) return;
+    isTemplateEditorInitialized = true;
+
+    const picker = document.getElementById('template-picker') as HTMLSelectElement;
+    const importInput = document.getElementById('template-import-input') as HTMLInputElement;
+    const variableList = document.getElementById('template-variable-list') as HTMLUListElement;
+
+    Object.entries(TEMPLATE_VARIABLES).forEach(([name, description]) => {
+        const li = document.createElement('li');
+        const code = document.createElement('code');
+        code.textContent = `{{${name}}}`;
+        li.appendChild(code);
+        li.append(` — ${description}`);
+        variableList.appendChild(li);
+    });
+
+    picker.addEventListener('change', () => displayTemplates(picker.value));
+
+    (document.getElementById('template-pose-count') as HTMLSelectElement).addEventListener('change', () => {
+        readTemplateForm();
+        renderPoseCountOptions();
+    });
+
+    (document.getElementById('template-add-pose-btn') as HTMLButtonElement).addEventListener('click', () => {
+        readTemplateForm();
+        templateDraft!.poses.presets.push(newPosePreset());
+        renderPoseList();
+    });
+
+    (document.getElementById('template-form') as HTMLFormElement).addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const draft = readTemplateForm();
+        const problems = validateTemplate(draft);
+        if (problems.length > 0) {
+            showTemplateMessage(problems.join(' '), false);
+            return;
+        }
+        try {
+            const saved = await templateStore.save(draft);
+            await displayTemplates(saved.id);
+            showTemplateMessage(`Saved ${saved.name} as version ${saved.version}.`, true);
+        } catch (error) {
+            console.error('Could not save template:', error);
+            showTemplateMessage('Could not save the template.', false);
+        }
+    });
+
+    (document.getElementById('template-use-btn') as HTMLButtonElement).addEventListener('click', async () => {
+        templateStore.setActiveId(templateDraft!.id);
+        await displayTemplates(templateDraft!.id);
+        showTemplateMessage(`The dashboard now uses ${templateDraft!.name}.`, true);
+    });
+
+    (document.getElementById('template-duplicate-btn') as HTMLButtonElement).addEventListener('click', async () => {
+        try {
+            const copy = await templateStore.save(cloneTemplate(readTemplateForm()));
+            await displayTemplates(copy.id);
+            showTemplateMessage(`Created ${copy.name}.`, true);
+        } catch (error) {
+            console.error('Could not duplicate template:', error);
+            showTemplateMessage('Could not duplicate the template.', false);
+        }
+    });
+
+    (document.getElementById('template-delete-btn') as HTMLButtonElement).addEventListener('click', async () => {
+        const draft = templateDraft!;
+        const isDefault = draft.id === DEFAULT_TEMPLATE.id;
+        if (!confirm(isDefault ? 'Reset the House Default template to its original wording?' : `Delete the template ${draft.name}?`)) return;
+        await templateStore.remove(draft.id);
+        if (!isDefault && templateStore.getActiveId() === draft.id) templateStore.setActiveId(DEFAULT_TEMPLATE.id);
+        await displayTemplates(isDefault ? DEFAULT_TEMPLATE.id : undefined);
+        showTemplateMessage(isDefault ? 'House Default restored.' : `Deleted ${draft.name}.`, true);
+    });
+
+    (document.getElementById('template-export-btn') as HTMLButtonElement).addEventListener('click', () => {
+        const draft = readTemplateForm();
+        const fileName = `${draft.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'template'}-v${draft.version}.json`;
+        downloadBlob(new Blob([serializeTemplates([draft])], { type: 'application/json' }), fileName);
+    });
+
+    (document.getElementById('template-import-btn') as HTMLButtonElement).addEventListener('click', () => importInput.click());
+    importInput.addEventListener('change', async () => {
+        const file = importInput.files?.[0];
+        importInput.value = '';
+        if (!file) return;
+        try {
+            const imported = parseTemplateImport(await file.text());
+            for (const template of imported) await templateStore.put(template);
+            await displayTemplates(imported[0].id);
+            showTemplateMessage(`Imported ${imported.map(t => t.name).join(', ')}.`, true);
+        } catch (error) {
+            showTemplateMessage(error instanceof Error ? `Import failed: ${error.message}` : 'Import failed.', false);
+        }
+    });
+}
+
+// --- BATCH CATALOG PROCESSING ---
+// Manifest parsing and zip handling live in services/batch.ts. Every row is sent
+// through the same prompt builders as a single try-on from the dashboard.
+let isBatchInitialized = false;
+
+function initializeBatch() {
+    if (isBatchInitialized) return;
+    isBatchInitialized = true;
+
+    const dropZone = document.getElementById('batch-drop-zone') as HTMLLabelElement;
+    const fileInput = document.getElementById('batch-files') as HTMLInputElement;
+    const messageEl = document.getElementById('batch-message') as HTMLParagraphElement;
+    const problemsEl = document.getElementById('batch-problems') as HTMLUListElement;
+    const aspectRatioSelect = document.getElementById('batch-aspect-ratio') as HTMLSelectElement;
+    const concurrencySelect = document.getElementById('batch-concurrency') as HTMLSelectElement;
+    const startBtn = document.getElementById('batch-start-btn') as HTMLButtonElement;
+    const retryBtn = document.getElementById('batch-retry-btn') as HTMLButtonElement;
+    const exportBtn = document.getElementById('batch-export-btn') as HTMLButtonElement;
+    const lookbookBtn = document.getElementById('batch-lookbook-btn') as HTMLButtonElement;
+    const progressEl = document.getElementById('batch-progress') as HTMLProgressElement;
+    const progressText = document.getElementById('batch-progress-text') as HTMLSpanElement;
+    const countEl = document.getElementById('batch-count') as HTMLSpanElement;
+    const tableBody = document.querySelector('#batch-table tbody') as HTMLTableSectionElement;
+
+    let rows: BatchRow[] = [];
+    let isRunning = false;
+    // Fixed for the length of a run, so every SKU in it is worded the same way.
+    let runTemplate: PromptTemplate = DEFAULT_TEMPLATE;
+
+    const showMessage = (message: string, success: boolean) => {
+        messageEl.textContent = message;
+        messageEl.style.color = success ? 'var(--c-success)' : 'var(--c-primary)';
+    };
+
+    const BATCH_TITLE = 'Virtual Try-On';
+    const rowExportItem = (row: BatchRow & { result: NonNullable<BatchRow['result']> }): ExportItem => ({
+        image: row.result.image,
+        appMode: 'virtual-try-on',
+        title: BATCH_TITLE,
+        prompt: row.result.prompt,
+        model: describeModel(row.modelPrompt, false),
+        aspectRatio: row.result.aspectRatio,
+        dressColor: '',
+        user: userService.getCurrentUser()?.username ?? '',
+        createdAt: row.result.createdAt,
+        sku: row.sku,
+    });
+
+    const updateControls = () => {
+        const failed = rows.filter(row => row.status === 'failed').length;
+        const done = rows.filter(row => row.status === 'done').length;
+        const finished = done + failed;
+
+        startBtn.disabled = isRunning || !rows.some(row => row.status === 'pending');
+        startBtn.textContent = isRunning ? 'Running...' : 'Start Batch';
+        retryBtn.classList.toggle('hidden', isRunning || failed === 0);
+        retryBtn.textContent = `Retry ${failed} Failed`;
+        exportBtn.classList.toggle('hidden', isRunning || done === 0);
+        exportBtn.textContent = `Export All ${done} (.zip)`;
+        lookbookBtn.classList.toggle('hidden', isRunning || done === 0);
+
+        countEl.textContent = rows.length.toString();
+        progressEl.max = Math.max(1, rows.length);
+        progressEl.value = finished;
+        progressText.textContent = rows.length > 0 ? `${done} done · ${failed} failed · ${rows.length - finished} remaining` : '';
+    };
+
+    const renderTable = () => {
+        tableBody.innerHTML = '';
+        rows.forEach(row => {
+            const tr = tableBody.insertRow();
+            tr.insertCell(0).textContent = row.sku;
+
+            const outfit = outfitType(row.tryOnMode);
+            const pieces = outfit.slots.filter(slot => row.garments[slot.id]).map(slot => slot.label.toLowerCase());
+            tr.insertCell(1).textContent = `${outfit.label} (${pieces.join(', ')})`;
+
+            const status = document.createElement('span');
+            status.className = `batch-status ${row.status}`;
+            status.textContent = row.status;
+            if (row.error) {
+                const error = document.createElement('span');
+                error.className = 'batch-error';
+                error.textContent = row.error;
+                status.appendChild(error);
+            }
+            tr.insertCell(2).appendChild(status);
+
+            const result = row.result;
+            const resultCell = tr.insertCell(3);
+            if (result) {
+                const img = document.createElement('img');
+                img.src = toDataUrl(result.image);
+                img.alt = `Try-on for ${row.sku}`;
+                img.onclick = () => downloadExportImage(rowExportItem({ ...row, result }), 0);
+                resultCell.appendChild(img);
+            }
+
+            const actionsCell = tr.insertCell(4);
+            if (row.status === 'failed') {
+                const retry = document.createElement('button');
+                retry.className = 'download-pose-btn';
+                retry.textContent = 'Retry';
+                retry.disabled = isRunning;
+                retry.onclick = () => runRows([row]);
+                actionsCell.appendChild(retry);
+            } else if (result) {
+                const download = document.createElement('button');
+                download.className = 'download-pose-btn';
+                download.textContent = 'Download';
+                download.onclick = () => downloadExportImage(rowExportItem({ ...row, result }), 0);
+                actionsCell.appendChild(download);
+            }
+        });
+        updateControls();
+    };
+
+    const processRow = async (row: BatchRow) => {
+        const aspectRatio = aspectRatioSelect.value;
+        const prompts = buildSharedTryOnPrompts({
+            template: runTemplate,
+            tryOnMode: row.tryOnMode,
+            garments: row.garments,
+            hasModelImage: false,
+            modelDescription: row.modelPrompt,
+            backgroundDescription: row.backgroundPrompt,
+            aspectRatio,
+        });
+
+        row.status = 'running';
+        row.error = undefined;
+        renderTable();
+
+        try {
+            const result = await jobQueue.submit(row.sku, {
+                mode: 'try-on',
+                prompts,
+                garments: buildSharedTryOnGarments(row.tryOnMode, row.garments),
+                aspectRatio,
+            });
+            const image = result.images[0];
+            if (!image) throw new Error('No image was returned for this SKU.');
+
+            row.status = 'done';
+            row.result = { image, prompt: prompts.join('\n'), aspectRatio, createdAt: new Date().toISOString() };
+
+            const user = userService.getCurrentUser();
+            if (user) {
+                const inputs: GenerationInputs = {
+                    appMode: 'virtual-try-on',
+                    tryOnMode: row.tryOnMode,
+                    garments: { ...row.garments },
+                    modelImage: null,
+                    modelPrompt: row.modelPrompt,
+                    backgroundPrompt: row.backgroundPrompt,
+                    aspectRatio,
+                    dressColor: '',
+                    sku: row.sku,
+                };
+                await historyStore.add(user.username, inputs, [{ title: BATCH_TITLE, prompt: row.result.prompt, image }], activeProject?.id)
+                    .catch(error => console.error('Could not save batch result to history:', error));
+            }
+        } catch (error) {
+            console.error(`Batch row ${row.sku} failed:`, error);
+            row.status = 'failed';
+            const failure = classifyGenerationError(error);
+            row.error = `${failure.guidance.title}: ${failure.message}`;
+        }
+        renderTable();
+    };
+
+    const runRows = async (toRun: BatchRow[]) => {
+        if (isRunning || toRun.length === 0) return;
+        isRunning = true;
+        runTemplate = await templateStore.getActive();
+        toRun.forEach(row => { row.status = 'pending'; });
+        showMessage(`Processing ${toRun.length} SKU${toRun.length === 1 ? '' : 's'}...`, true);
+        renderTable();
+
+        await runWithConcurrency(toRun, Number(concurrencySelect.value) || 1, processRow);
+
+        isRunning = false;
+        const failed = rows.filter(row => row.status === 'failed').length;
+        showMessage(failed > 0 ? `Batch finished with ${failed} failed SKU${failed === 1 ? '' : 's'}.` : 'Batch finished.', failed === 0);
+        renderTable();
+    };
+
+    const loadFiles = async (files: File[]) => {
+        if (isRunning || files.length === 0) return;
+        problemsEl.innerHTML = '';
+        showMessage('Reading files...', true);
+
+        try {
+            const sources = await loadBatchSources(files);
+            if (sources.manifests.length === 0) {
+                showMessage('No CSV manifest found. Add one mapping each SKU to its garment files.', false);
+                return;
+            }
+            const manifest = sources.manifests[0];
+            const { rows: named, problems } = parseBatchManifest(manifest.text, sources.images);
+            if (sources.manifests.length > 1) problems.unshift(`Several CSV files were found; using ${manifest.name}.`);
+            // Resized, re-encoded and stripped of EXIF like a single upload.
+            showMessage('Preparing photos...', true);
+            const settings = preprocessSettingsStore.load();
+            const { rows: parsed, problems: unreadable } = await preprocessBatchRows(named, async image => {
+                const bitmap = await decodeInlineImage(image);
+                try {
+                    return await processImage(bitmap, NO_EDIT, settings);
+                } finally {
+                    bitmap.close();
+                }
+            });
+            problems.push(...unreadable);
+
+            problems.forEach(problem => {
+                const li = document.createElement('li');
+                li.textContent = problem;
+                problemsEl.appendChild(li);
+            });
+
+            rows = parsed;
+            showMessage(rows.length > 0 ? `${rows.length} SKU${rows.length === 1 ? '' : 's'} ready from ${manifest.name}.` : 'The manifest has no usable rows.', rows.length > 0);
+        } catch (error) {
+            console.error('Could not read batch files:', error);
+            showMessage(error instanceof Error ? `Could not read files: ${error.message}` : 'Could not read files.', false);
+        }
+        renderTable();
+    };
+
+    const resultItems = () => rows.flatMap(row => row.result ? [rowExportItem({ ...row, result: row.result })] : []);
+
+    const exportResults = () => {
+        const items = resultItems();
+        if (items.length === 0) return;
+        return downloadExportArchive(items, userService.getCurrentUser()?.username ?? '', 'batch-catalog');
+    };
+
+    fileInput.addEventListener('change', () => {
+        loadFiles(Array.from(fileInput.files ?? []));
+        fileInput.value = '';
+    });
+    dropZone.addEventListener('dragover', (e) => {
+        e.preventDefault();
+        dropZone.classList.add('drag-over');
+    });
+    dropZone.addEventListener('dragleave', () => dropZone.classList.remove('drag-over'));
+    dropZone.addEventListener('drop', (e) => {
+        e.preventDefault();
+        dropZone.classList.remove('drag-over');
+        loadFiles(Array.from(e.dataTransfer?.files ?? []));
+    });
+
+    startBtn.addEventListener('click', () => runRows(rows.filter(row => row.status === 'pending')));
+    retryBtn.addEventListener('click', () => runRows(rows.filter(row => row.status === 'failed')));
+    exportBtn.addEventListener('click', exportResults);
+    lookbookBtn.addEventListener('click', () => addToLookbook(resultItems()));
+
+    renderTable();
+}
+
+// --- VIRTUAL TRY-ON APPLICATION LOGIC (Encapsulated) ---
+let isAppInitialized = false;
+
+function initializeApp() {
+    if (isAppInitialized) return;
+    isAppInitialized = true;
+
+    // --- DOM Elements ---
+    // App Mode
+    const virtualTryOnModeBtn = document.getElementById('virtual-try-on-mode-btn') as HTMLButtonElement;
+    const modelGenModeBtn = document.getElementById('model-gen-mode-btn') as HTMLButtonElement;
+    const virtualTryOnControls = document.getElementById('virtual-try-on-controls') as HTMLDivElement;
+    const modelUploaderContainer = document.getElementById('model-uploader-container') as HTMLDivElement;
+    const poseGarmentsHint = document.getElementById('pose-garments-hint') as HTMLParagraphElement;
+    const modelGenControls = document.getElementById('model-generation-controls') as HTMLDivElement;
+
+    // Virtual Try-On Controls
+    const outfitTypeSelect = document.getElementById('outfit-type-select') as HTMLSelectElement;
+    const uploadGrid = document.getElementById('upload-grid') as HTMLDivElement;
+    const accessoryGrid = document.getElementById('accessory-grid') as HTMLDivElement;
+    const modelUpload = document.getElementById('model-upload') as HTMLInputElement;
+    const modelClearBtn = document.getElementById('model-clear-btn') as HTMLButtonElement;
+    const modelEditBtn = document.getElementById('model-edit-btn') as HTMLButtonElement;
+    const uploadErrorEl = document.getElementById('upload-error') as HTMLParagraphElement;
+    const uploadMaxDimensionSelect = document.getElementById('upload-max-dimension') as HTMLSelectElement;
+    const uploadFormatSelect = document.getElementById('upload-format') as HTMLSelectElement;
+    const uploadBackgroundSelect = document.getElementById('upload-background') as HTMLSelectElement;
+    const imageEditor = document.getElementById('image-editor') as HTMLDialogElement;
+    const imageEditorCanvas = document.getElementById('image-editor-canvas') as HTMLCanvasElement;
+    
+    // Model Generation Controls
+    const pieceColoursContainer = document.getElementById('piece-colours') as HTMLDivElement;
+    const fabricSelect = document.getElementById('fabric-select') as HTMLSelectElement;
+
+    // Shared Controls
+    const modelPromptInput = document.getElementById('model-prompt') as HTMLTextAreaElement;
+    const backgroundPromptInput = document.getElementById('background-prompt') as HTMLTextAreaElement;
+    const surpriseMeBtn = document.getElementById('surprise-me-btn') as HTMLButtonElement;
+    const generateBtn = document.getElementById('generate-btn') as HTMLButtonElement;
+    const ratioButtons = document.querySelectorAll('.ratio-btn') as NodeListOf<HTMLButtonElement>;
+    const variantCountButtons = document.querySelectorAll('.variant-count-btn') as NodeListOf<HTMLButtonElement>;
+    const variantStrategyButtons = document.querySelectorAll('.variant-strategy-btn') as NodeListOf<HTMLButtonElement>;
+    const templateSelect = document.getElementById('template-select') as HTMLSelectElement;
+    const librarySelect = document.getElementById('library-model-select') as HTMLSelectElement;
+    const poseCountSelector = document.getElementById('pose-count-selector') as HTMLDivElement;
+    
+    // Result Area
+    const resultContainer = document.getElementById('result-container') as HTMLDivElement;
+    const resultPlaceholder = document.getElementById('result-placeholder') as HTMLDivElement;
+    const resultGrid = document.getElementById('result-grid') as HTMLDivElement;
+    const resultImage = document.getElementById('result-image') as HTMLImageElement;
+    const loader = document.getElementById('loader') as HTMLDivElement;
+    const loaderText = loader.querySelector('p') as HTMLParagraphElement;
+    const downloadBtn = document.getElementById('download-btn') as HTMLButtonElement;
+    const lookbookAddBtn = document.getElementById('lookbook-add-btn') as HTMLButtonElement;
+    const cancelGenerationBtn = document.getElementById('cancel-generation-btn') as HTMLButtonElement;
+    const compareView = document.getElementById('compare-view') as HTMLDivElement;
+    const compareCloseBtn = document.getElementById('compare-close-btn') as HTMLButtonElement;
+    const refineSection = document.getElementById('refine-section') as HTMLElement;
+    const refineForm = document.getElementById('refine-form') as HTMLFormElement;
+    const refineInput = document.getElementById('refine-input') as HTMLTextAreaElement;
+    const refineSubmitBtn = document.getElementById('refine-submit-btn') as HTMLButtonElement;
+    const refineUndoBtn = document.getElementById('refine-undo-btn') as HTMLButtonElement;
+    const refineRedoBtn = document.getElementById('refine-redo-btn') as HTMLButtonElement;
+    const refineCompareBtn = document.getElementById('refine-compare-btn') as HTMLButtonElement;
+    const refineVersionLabel = document.getElementById('refine-version-label') as HTMLSpanElement;
+    const refineInstructionLabel = document.getElementById('refine-instruction-label') as HTMLParagraphElement;
+    const refineErrorEl = document.getElementById('refine-error') as HTMLDivElement;
+    const beforeAfter = document.getElementById('before-after') as HTMLDivElement;
+    const beforeAfterBefore = document.getElementById('before-after-before') as HTMLImageElement;
+    const beforeAfterAfter = document.getElementById('before-after-after') as HTMLImageElement;
+    const beforeAfterRange = document.getElementById('before-after-range') as HTMLInputElement;
+    const beforeAfterDivider = document.getElementById('before-after-divider') as HTMLDivElement;
+    const editRegionBtn = document.getElementById('edit-region-btn') as HTMLButtonElement;
+    const maskEditor = document.getElementById('mask-editor') as HTMLDialogElement;
+    const maskEditorCanvas = document.getElementById('mask-editor-canvas') as HTMLCanvasElement;
+    const maskEditorBrush = document.getElementById('mask-editor-brush') as HTMLInputElement;
+    const maskEditorEraseBtn = document.getElementById('mask-editor-erase') as HTMLButtonElement;
+    const maskEditorForm = document.getElementById('mask-editor-form') as HTMLFormElement;
+    const maskEditorInstruction = document.getElementById('mask-editor-instruction') as HTMLTextAreaElement;
+    const maskEditorApplyBtn = document.getElementById('mask-editor-apply') as HTMLButtonElement;
+    const maskEditorErrorEl = document.getElementById('mask-editor-error') as HTMLDivElement;
+    
+    // --- App State ---
+    type UploadSlot = string; // a garment or accessory slot id (services/garmentSchema.ts), or 'model'
+    const UPLOAD_SLOTS: UploadSlot[] = [...GARMENT_SLOT_IDS, ...ACCESSORY_SLOTS.map(slot => slot.id), 'model'];
+    let currentAppMode: AppMode = 'virtual-try-on';
+    let selectedAspectRatio = '16:9';
+    let currentTryOnMode: TryOnMode = DEFAULT_OUTFIT_TYPE.id;
+    // Uploads are kept per slot id, so switching outfit type keeps shared pieces.
+    const uploadedImages: { [key: string]: InlineImage | null } = Object.fromEntries(UPLOAD_SLOTS.map(slot => [slot, null]));
+    // The decoded original behind each upload and the crop/rotation applied to it,
+    // so re-editing always starts from the full-quality photo.
+    const slotSources: { [key: string]: { bitmap: ImageBitmap; edit: ImageEdit } | null } = Object.fromEntries(UPLOAD_SLOTS.map(slot => [slot, null]));
+    // Accessories with a photo that go into the next try-on; unticking one keeps its photo.
+    const enabledAccessories = new Set<string>();
+    // Plain colours picked for pose sets, by slot id; unpicked slots use their default.
+    const chosenPieceColours: PieceColours = {};
+    let uploadSettings = preprocessSettingsStore.load();
+    let generatedModelImageUrls: { url: string; title: string }[] = [];
+    let variantCount = 1;
+    let variantStrategy: VariantStrategy = 'seed';
+    let compareSelection: { title: string; url: string }[] = [];
+    // The most recent saved (or reopened) generation, so favourites can be persisted.
+    let lastHistoryEntry: HistoryEntry | null = null;
+    // Revisions of the single try-on result, and the request they all build on.
+    const versionStack = createVersionStack();
+    let refinement: { base: RefinementBase; inputs: GenerationInputs } | null = null;
+    // Aborted by the loader's Cancel button to cancel every job of the current generation.
+    let generationController: AbortController | null = null;
+    
+    // Wording, pose presets and suggestions; reloaded whenever the dashboard opens.
+    let activeTemplate: PromptTemplate = DEFAULT_TEMPLATE;
+    let poseCount = poseCountFor(activeTemplate);
+    // Model Library identities the user can pick; the chosen one's photos go with every request.
+    let libraryModels: LibraryModel[] = [];
+    
+    resultContainer.style.aspectRatio = selectedAspectRatio.replace(':', ' / ');
+    
+    // --- Helper Functions ---
+    const currentOutfit = () => outfitType(currentTryOnMode);
+    const dashboardGarments = (): TryOnGarmentImages =>
+        Object.fromEntries(currentOutfit().slots.map(slot => [slot.id, uploadedImages[slot.id]]));
+    const dashboardAccessories = (): TryOnGarmentImages => Object.fromEntries(ACCESSORY_SLOTS
+        .filter(slot => enabledAccessories.has(slot.id) && uploadedImages[slot.id])
+        .map(slot => [slot.id, uploadedImages[slot.id]]));
+    const pieceColours = (): PieceColours =>
+        Object.fromEntries(currentOutfit().slots.map(slot => [slot.id, pieceColour(slot.id, currentTryOnMode, chosenPieceColours)]));
+    const setPieceColour = (piece: string, colour: string) => {
+        chosenPieceColours[piece] = colour;
+        const row = pieceColoursContainer.querySelector(`[data-piece="${piece}"]`);
+        if (!row) return;
+        const input = row.querySelector('input') as HTMLInputElement;
+        input.value = colour;
+        (row.querySelector('.color-value') as HTMLSpanElement).textContent = input.value;
+    };
+    // Pieces with an uploaded photo keep its colours; the picker only applies to plain pieces.
+    const syncPieceColours = () => {
+        pieceColoursContainer.querySelectorAll<HTMLDivElement>('.color-picker-wrapper').forEach(row => {
+            const uploaded = !!uploadedImages[row.dataset.piece!];
+            row.classList.toggle('from-photo', uploaded);
+            row.querySelector('.piece-colour-photo')!.classList.toggle('hidden', !uploaded);
+        });
+    };
+    const setAccessoryEnabled = (id: string, enabled: boolean) => {
+        if (enabled) enabledAccessories.add(id);
+        else enabledAccessories.delete(id);
+        const toggle = document.getElementById(`${id}-enabled`) as HTMLInputElement;
+        toggle.checked = enabled;
+    };
+    // An accessory can only be switched on once it has a photo.
+    const syncAccessoryToggles = () => {
+        ACCESSORY_SLOTS.forEach(slot => {
+            const toggle = document.getElementById(`${slot.id}-enabled`) as HTMLInputElement;
+            toggle.disabled = !uploadedImages[slot.id];
+            toggle.checked = !!uploadedImages[slot.id] && enabledAccessories.has(slot.id);
+        });
+    };
+    const selectedLibraryModel = () => libraryModels.find(model => model.id === librarySelect.value) ?? null;
+    const libraryReferences = () => selectedLibraryModel()?.images ?? [];
+
+    // Snapshot of the dashboard inputs, stored alongside each history entry.
+    const captureInputs = (): GenerationInputs => {
+        const libraryModel = selectedLibraryModel();
+        return {
+            appMode: currentAppMode,
+            tryOnMode: currentTryOnMode,
+            garments: dashboardGarments(),
+            ...(currentAppMode === 'virtual-try-on' ? { accessories: dashboardAccessories() } : {}),
+            modelImage: uploadedImages.model,
+            modelPrompt: modelPromptInput.value,
+            backgroundPrompt: backgroundPromptInput.value,
+            aspectRatio: selectedAspectRatio,
+            dressColor: mainPieceColour(currentTryOnMode, chosenPieceColours),
+            pieceColours: pieceColours(),
+            fabric: fabricSelect.value as Fabric,
+            variantCount,
+            variantStrategy,
+            poseCount,
+            ...(libraryModel ? { libraryModel: { id: libraryModel.id, name: libraryModel.name } } : {}),
+        };
+    };
+
+    // The entry is returned even if IndexedDB refuses it, so the result can still
+    // be exported with its metadata.
+    const saveToHistory = async (inputs: GenerationInputs, images: HistoryImage[]) => {
+        const user = userService.getCurrentUser();
+        if (!user || images.length === 0) return null;
+        const entry = newHistoryEntry(user.username, inputs, images, activeProject?.id);
+        try {
+            await historyStore.put(entry);
+        } catch (error) {
+            console.error('Could not save generation to history:', error);
+        }
+        return entry;
+    };
+
+    // Shows a rendered uploader's current image, or its placeholder when empty.
+    const renderSlotPreview = (type: UploadSlot) => {
+        const image = uploadedImages[type];
+        const previewEl = document.getElementById(`${type}-preview`) as HTMLImageElement;
+        const placeholderEl = previewEl.nextElementSibling as HTMLDivElement;
+        previewEl.src = image ? toDataUrl(image) : '#';
+        previewEl.style.display = image ? 'block' : 'none';
+        if (placeholderEl) placeholderEl.style.display = image ? 'none' : 'flex';
+        (document.getElementById(`${type}-edit-btn`) as HTMLButtonElement).classList.toggle('hidden', !image);
+    };
+
+    // Shows (or clears, when `image` is null) an uploader slot and its preview.
+    const setSlotImage = (type: UploadSlot, image: InlineImage | null) => {
+        uploadedImages[type] = image;
+        slotSources[type] = null;
+        renderSlotPreview(type);
+        (document.getElementById(`${type}-upload`) as HTMLInputElement).value = '';
+        if (type === 'model') {
+            modelPromptInput.disabled = !!image;
+            modelClearBtn.classList.toggle('hidden', !image);
+        }
+        // Uploads land after their change event, once decoded.
+        scheduleWorkspaceSave();
+    };
+
+    const updateGenerateButtonState = () => {
+        syncPieceColours();
+        syncAccessoryToggles();
+        if (currentAppMode === 'virtual-try-on') {
+            generateBtn.innerHTML = '<svg class="sparkle-icon" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path fill-rule="evenodd" d="M9 4.5a.75.75 0 01.75.75V9a.75.75 0 01-1.5 0V5.25A.75.75 0 019 4.5zm6.375 0a.75.75 0 01.75.75V9a.75.75 0 01-1.5 0V5.25a.75.75 0 01.75-.75zM9 15a.75.75 0 01.75.75v3.75a.75.75 0 01-1.5 0V15.75A.75.75 0 019 15zm6.375 0a.75.75 0 01.75.75v3.75a.75.75 0 01-1.5 0V15.75a.75.75 0 01.75-.75zM4.125 9a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5H4.875a.75.75 0 01-.75-.75zm15 0a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5h-3.75a.75.75 0 01-.75-.75zM4.125 15a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5H4.875a.75.75 0 01-.75-.75zm15 0a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5h-3.75a.75.75 0 01-.75-.75z" clip-rule="evenodd" /></svg> Generate Model';
+            const missing = missingRequiredSlots(currentOutfit(), uploadedImages);
+            generateBtn.disabled = missing.length > 0;
+            generateBtn.title = missing.length > 0 ? `Upload the ${missing.map(slot => slot.label.toLowerCase()).join(' and ')} first.` : '';
+        } else { // model-generation
+            generateBtn.innerHTML = `<svg class="sparkle-icon" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path fill-rule="evenodd" d="M9 4.5a.75.75 0 01.75.75V9a.75.75 0 01-1.5 0V5.25A.75.75 0 019 4.5zm6.375 0a.75.75 0 01.75.75V9a.75.75 0 01-1.5 0V5.25a.75.75 0 01.75-.75zM9 15a.75.75 0 01.75.75v3.75a.75.75 0 01-1.5 0V15.75A.75.75 0 019 15zm6.375 0a.75.75 0 01.75.75v3.75a.75.75 0 01-1.5 0V15.75a.75.75 0 01.75-.75zM4.125 9a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5H4.875a.75.75 0 01-.75-.75zm15 0a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5h-3.75a.75.75 0 01-.75-.75zM4.125 15a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5H4.875a.75.75 0 01-.75-.75zm15 0a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5h-3.75a.75.75 0 01-.75-.75z" clip-rule="evenodd" /></svg> Generate ${poseCount} Pose${poseCount === 1 ? '' : 's'}`;
+            generateBtn.disabled = false;
+            generateBtn.title = '';
+        }
+    };
+    
+    // --- Event Handlers ---
+    // Every upload goes through the preprocessing pipeline (services/imagePreprocess.ts)
+    // before it is stored; rejected files leave the slot as it was.
+    const handleFileUpload = async (event: Event, type: UploadSlot) => {
+      const input = event.target as HTMLInputElement;
+      const file = input.files?.[0];
+      if (!file) return;
+      uploadErrorEl.textContent = '';
+      try {
+        const bitmap = await decodeImageFile(file);
+        setSlotImage(type, await processImage(bitmap, NO_EDIT, uploadSettings));
+        slotSources[type] = { bitmap, edit: NO_EDIT };
+        if (ACCESSORY_SLOTS.some(slot => slot.id === type)) enabledAccessories.add(type);
+      } catch (error) {
+        input.value = '';
+        if (!(error instanceof ImageValidationError)) console.error('Could not process upload:', error);
+        uploadErrorEl.textContent = error instanceof ImageValidationError ? error.message : `${file.name} could not be processed.`;
+        return;
+      }
+      downloadBtn.classList.add('hidden');
+      updateGenerateButtonState();
+    };
+
+    // --- Crop & rotate editor ---
+    let editorSlot: UploadSlot | null = null;
+    let editorBitmap: ImageBitmap | null = null;
+    let editorEdit: ImageEdit = NO_EDIT;
+    let editorRotated: HTMLCanvasElement | null = null;
+    let cropStart: { x: number; y: number } | null = null;
+
+    const drawImageEditor = () => {
+        if (!editorRotated) return;
+        const ctx = imageEditorCanvas.getContext('2d')!;
+        const { width, height } = imageEditorCanvas;
+        ctx.clearRect(0, 0, width, height);
+        ctx.drawImage(editorRotated, 0, 0, width, height);
+        const crop = editorEdit.crop;
+        if (!crop) return;
+        const [x, y, w, h] = [crop.x * width, crop.y * height, crop.width * width, crop.height * height];
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+        ctx.fillRect(0, 0, width, y);
+        ctx.fillRect(0, y + h, width, height - y - h);
+        ctx.fillRect(0, y, x, h);
+        ctx.fillRect(x + w, y, width - x - w, h);
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(x, y, w, h);
+    };
+
+    // Re-renders the rotated original at a size that fits the dialog.
+    const layoutImageEditor = () => {
+        if (!editorBitmap) return;
+        editorRotated = rotateToCanvas(editorBitmap, editorEdit.rotation);
+        const scale = Math.min(1, 720 / editorRotated.width, (window.innerHeight * 0.6) / editorRotated.height);
+        imageEditorCanvas.width = Math.round(editorRotated.width * scale);
+        imageEditorCanvas.height = Math.round(editorRotated.height * scale);
+        drawImageEditor();
+    };
+
+    const openImageEditor = async (type: UploadSlot) => {
+        uploadErrorEl.textContent = '';
+        const image = uploadedImages[type];
+        if (!image) return;
+        try {
+            // Slots restored from history have no original; edit the stored image instead.
+            slotSources[type] ??= { bitmap: await decodeInlineImage(image), edit: NO_EDIT };
+        } catch (error) {
+            console.error('Could not open image for editing:', error);
+            uploadErrorEl.textContent = 'This image cannot be edited.';
+            return;
+        }
+        editorSlot = type;
+        editorBitmap = slotSources[type]!.bitmap;
+        editorEdit = slotSources[type]!.edit;
+        layoutImageEditor();
+        imageEditor.showModal();
+    };
+
+    const editorPoint = (event: PointerEvent) => {
+        const rect = imageEditorCanvas.getBoundingClientRect();
+        return {
+            x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+            y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+        };
+    };
+
+    imageEditorCanvas.addEventListener('pointerdown', (event) => {
+        cropStart = editorPoint(event);
+        imageEditorCanvas.setPointerCapture(event.pointerId);
+    });
+    imageEditorCanvas.addEventListener('pointermove', (event) => {
+        if (!cropStart) return;
+        const point = editorPoint(event);
+        editorEdit = {
+            ...editorEdit,
+            crop: {
+                x: Math.min(cropStart.x, point.x),
+                y: Math.min(cropStart.y, point.y),
+                width: Math.abs(point.x - cropStart.x),
+                height: Math.abs(point.y - cropStart.y),
+            },
+        };
+        drawImageEditor();
+    });
+    imageEditorCanvas.addEventListener('pointerup', () => {
+        cropStart = null;
+        // A click without a real drag clears the crop rather than making a sliver.
+        const crop = editorEdit.crop;
+        if (crop && (crop.width < 0.02 || crop.height < 0.02)) {
+            editorEdit = { ...editorEdit, crop: null };
+            drawImageEditor();
+        }
+    });
+
+    const rotateEditor = (quarterTurns: number) => {
+        editorEdit = { rotation: ((editorEdit.rotation + quarterTurns * 90 + 360) % 360) as ImageEdit['rotation'], crop: null };
+        layoutImageEditor();
+    };
+    (document.getElementById('image-editor-rotate-left') as HTMLButtonElement).addEventListener('click', () => rotateEditor(-1));
+    (document.getElementById('image-editor-rotate-right') as HTMLButtonElement).addEventListener('click', () => rotateEditor(1));
+    (document.getElementById('image-editor-reset') as HTMLButtonElement).addEventListener('click', () => {
+        editorEdit = NO_EDIT;
+        layoutImageEditor();
+    });
+    (document.getElementById('image-editor-cancel') as HTMLButtonElement).addEventListener('click', () => imageEditor.close());
+    (document.getElementById('image-editor-apply') as HTMLButtonElement).addEventListener('click', async () => {
+        if (!editorSlot || !editorBitmap) return;
+        const [type, bitmap, edit] = [editorSlot, editorBitmap, editorEdit];
+        imageEditor.close();
+        try {
+            setSlotImage(type, await processImage(bitmap, edit, uploadSettings));
+            slotSources[type] = { bitmap, edit };
+        } catch (error) {
+            console.error('Could not apply image edit:', error);
+            uploadErrorEl.textContent = 'The edit could not be applied.';
+        }
+        updateGenerateButtonState();
+    });
+
+    const wireEditButton = (button: HTMLButtonElement, type: UploadSlot) => {
+        button.addEventListener('click', (e) => {
+            // The button sits inside the uploader's label; don't open the file picker.
+            e.preventDefault();
+            e.stopPropagation();
+            openImageEditor(type);
+        });
+    };
+    wireEditButton(modelEditBtn, 'model');
+
+    // --- Outfit type ---
+    // Uploaders, colour rows and validation all come from the outfit type's slots
+    // (services/garmentSchema.ts); nothing here is specific to one outfit.
+    const UPLOAD_ICON = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M11.47 1.72a.75.75 0 011.06 0l3 3a.75.75 0 01-1.06 1.06l-1.72-1.72V10.5a.75.75 0 01-1.5 0V4.06L9.53 5.78a.75.75 0 01-1.06-1.06l3-3zM11.25 13.5V21.75a.75.75 0 001.5 0V13.5a.75.75 0 00-1.5 0z" /><path d="M3.75 12a.75.75 0 000 1.5h16.5a.75.75 0 000-1.5H3.75z" /></svg>';
+
+    // An uploader like the static model one, for any garment or accessory slot.
+    const renderUploader = (id: UploadSlot, label: string, optional: boolean) => {
+        const uploader = document.createElement('div');
+        uploader.className = 'file-uploader';
+        uploader.innerHTML = `
+            <label for="${id}-upload" class="image-preview-container">
+                <img id="${id}-preview" src="#" class="image-preview">
+                <div class="preview-placeholder">${UPLOAD_ICON}<span></span></div>
+                <button type="button" id="${id}-edit-btn" class="edit-image-btn hidden" title="Crop / rotate">&#9998;</button>
+            </label>
+            <input type="file" id="${id}-upload" accept="image/*,.heic,.heif">`;
+        const caption = uploader.querySelector('.preview-placeholder span') as HTMLSpanElement;
+        caption.textContent = label;
+        if (optional) {
+            const small = document.createElement('small');
+            small.textContent = '(Optional)';
+            caption.append(' ', small);
+        }
+        (uploader.querySelector('img') as HTMLImageElement).alt = `${label} preview`;
+        const editBtn = uploader.querySelector('.edit-image-btn') as HTMLButtonElement;
+        editBtn.setAttribute('aria-label', `Crop or rotate ${label.toLowerCase()}`);
+        wireEditButton(editBtn, id);
+        const input = uploader.querySelector('input') as HTMLInputElement;
+        input.setAttribute('aria-label', `Upload ${label}${optional ? ' (Optional)' : ''}`);
+        input.addEventListener('change', (e) => handleFileUpload(e, id));
+        return uploader;
+    };
+
+    const renderGarmentUploader = (slot: GarmentSlot) => renderUploader(slot.id, slot.label, !slot.required);
+
+    // Accessory uploaders add the placement and an on/off switch; a new photo switches it on.
+    const renderAccessoryUploader = (slot: AccessorySlot) => {
+        const uploader = renderUploader(slot.id, slot.label, false);
+        const toggle = document.createElement('label');
+        toggle.className = 'accessory-toggle';
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.id = `${slot.id}-enabled`;
+        checkbox.disabled = true;
+        checkbox.addEventListener('change', () => setAccessoryEnabled(slot.id, checkbox.checked));
+        const placement = document.createElement('span');
+        placement.textContent = `Use · ${PLACEMENT_LABELS[slot.placement]}`;
+        toggle.append(checkbox, placement);
+        uploader.appendChild(toggle);
+        return uploader;
+    };
+
+    const renderPieceColourRow = (slot: GarmentSlot) => {
+        const row = document.createElement('div');
+        row.className = 'color-picker-wrapper';
+        row.dataset.piece = slot.id;
+        const input = document.createElement('input');
+        input.type = 'color';
+        input.value = pieceColour(slot.id, currentTryOnMode, chosenPieceColours);
+        input.setAttribute('aria-label', `${slot.label} colour`);
+        input.addEventListener('input', () => setPieceColour(slot.id, input.value));
+        const value = document.createElement('span');
+        value.className = 'color-value';
+        value.textContent = input.value;
+        const name = document.createElement('span');
+        name.className = 'piece-colour-name';
+        name.textContent = slot.label;
+        const fromPhoto = document.createElement('span');
+        fromPhoto.className = 'piece-colour-photo hidden';
+        fromPhoto.textContent = 'From photo';
+        row.append(input, value, name, fromPhoto);
+        return row;
+    };
+
+    // Rebuilds the garment uploaders (ahead of the model photo) and colour rows.
+    const renderGarmentControls = () => {
+        const slots = currentOutfit().slots;
+        uploadGrid.replaceChildren(...slots.map(renderGarmentUploader), modelUploaderContainer);
+        slots.forEach(slot => renderSlotPreview(slot.id));
+        pieceColoursContainer.replaceChildren(...slots.map(renderPieceColourRow));
+    };
+
+    const setOutfitType = (id: TryOnMode) => {
+        currentTryOnMode = outfitType(id).id;
+        outfitTypeSelect.value = currentTryOnMode;
+        uploadErrorEl.textContent = '';
+        renderGarmentControls();
+        updateGenerateButtonState();
+    };
+
+    accessoryGrid.replaceChildren(...ACCESSORY_SLOTS.map(renderAccessoryUploader));
+    ACCESSORY_SLOTS.forEach(slot => renderSlotPreview(slot.id));
+
+    OUTFIT_TYPES.forEach(outfit => outfitTypeSelect.add(new Option(outfit.label, outfit.id)));
+    outfitTypeSelect.addEventListener('change', () => setOutfitType(outfitTypeSelect.value));
+    setOutfitType(currentTryOnMode);
+
+    // --- Upload settings ---
+    uploadMaxDimensionSelect.value = String(uploadSettings.maxDimension);
+    uploadFormatSelect.value = uploadSettings.format;
+    uploadBackgroundSelect.value = uploadSettings.background;
+    [uploadMaxDimensionSelect, uploadFormatSelect, uploadBackgroundSelect].forEach(select => {
+        select.addEventListener('change', () => {
+            uploadSettings = {
+                ...uploadSettings,
+                maxDimension: Number(uploadMaxDimensionSelect.value),
+                format: uploadFormatSelect.value as OutputFormat,
+                background: uploadBackgroundSelect.value as BackgroundMode,
+            };
+            preprocessSettingsStore.save(uploadSettings);
+        });
+    });
+    
+    // --- Event Listeners ---
+    modelUpload.addEventListener('change', (e) => handleFileUpload(e, 'model'));
+    
+    modelClearBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        setSlotImage('model', null);
+    });
+    
+    ratioButtons.forEach(button => {
+      button.addEventListener('click', () => {
+        selectedAspectRatio = button.dataset.ratio!;
+        ratioButtons.forEach(btn => {
+          btn.classList.remove('active');
+          btn.setAttribute('aria-pressed', 'false');
+        });
+        button.classList.add('active');
+        button.setAttribute('aria-pressed', 'true');
+        if (currentAppMode === 'virtual-try-on' && resultGrid.classList.contains('hidden')) {
+            resultContainer.style.aspectRatio = selectedAspectRatio.replace(':', ' / ');
+        }
+      });
+    });
+
+    // Marks the button whose data attribute matches `value` as the active choice.
+    const selectChoice = (buttons: NodeListOf<HTMLButtonElement>, key: string, value: string) => {
+        buttons.forEach(btn => {
+            const active = btn.dataset[key] === value;
+            btn.classList.toggle('active', active);
+            btn.setAttribute('aria-pressed', String(active));
+        });
+    };
+
+    const setVariantCount = (count: number) => {
+        variantCount = count;
+        selectChoice(variantCountButtons, 'count', String(count));
+    };
+
+    const setVariantStrategy = (strategy: VariantStrategy) => {
+        variantStrategy = strategy;
+        selectChoice(variantStrategyButtons, 'strategy', strategy);
+    };
+
+    const renderPoseCountButtons = () => {
+        poseCountSelector.innerHTML = '';
+        activeTemplate.poses.presets.forEach((preset, index) => {
+            const btn = document.createElement('button');
+            btn.type = 'button';
+            btn.className = 'choice-btn pose-count-btn';
+            btn.dataset.count = String(index + 1);
+            btn.textContent = String(index + 1);
+            btn.title = activeTemplate.poses.presets.slice(0, index + 1).map(p => p.title).join(', ');
+            btn.addEventListener('click', () => setPoseCount(index + 1));
+            poseCountSelector.appendChild(btn);
+        });
+        selectChoice(poseCountSelector.querySelectorAll<HTMLButtonElement>('.pose-count-btn'), 'count', String(poseCount));
+    };
+
+    const setPoseCount = (count: number) => {
+        poseCount = poseCountFor(activeTemplate, count);
+        selectChoice(poseCountSelector.querySelectorAll<HTMLButtonElement>('.pose-count-btn'), 'count', String(poseCount));
+        updateGenerateButtonState();
+    };
+
+    applyActiveTemplate = async () => {
+        const previousId = activeTemplate.id;
+        activeTemplate = await templateStore.getActive();
+        if (activeTemplate.id !== previousId || poseCount > activeTemplate.poses.presets.length) {
+            poseCount = poseCountFor(activeTemplate);
+        }
+        try {
+            const templates = await templateStore.list();
+            templateSelect.innerHTML = '';
+            templates.forEach(t => templateSelect.add(new Option(`${t.name} (v${t.version})`, t.id, false, t.id === activeTemplate.id)));
+        } catch (error) {
+            console.error('Could not list templates:', error);
+        }
+        renderPoseCountButtons();
+        updateGenerateButtonState();
+    };
+
+    templateSelect.addEventListener('change', () => {
+        templateStore.setActiveId(templateSelect.value);
+        applyActiveTemplate?.();
+    });
+
+    refreshLibraryModels = async () => {
+        const user = userService.getCurrentUser();
+        try {
+            libraryModels = user ? await modelLibrary.listFor(user.username) : [];
+        } catch (error) {
+            console.error('Could not load the model library:', error);
+            libraryModels = [];
+        }
+        const selectedId = localStorage.getItem(LIBRARY_MODEL_KEY);
+        librarySelect.innerHTML = '';
+        librarySelect.add(new Option('None (describe the model in the prompt)', ''));
+        libraryModels.forEach(model => librarySelect.add(new Option(model.shared && model.owner !== user?.username ? `${model.name} (shared)` : model.name, model.id, false, model.id === selectedId)));
+    };
+
+    librarySelect.addEventListener('change', () => {
+        if (librarySelect.value) localStorage.setItem(LIBRARY_MODEL_KEY, librarySelect.value);
+        else localStorage.removeItem(LIBRARY_MODEL_KEY);
+    });
+
+    variantCountButtons.forEach(button => {
+        button.addEventListener('click', () => setVariantCount(Number(button.dataset.count)));
+    });
+    variantStrategyButtons.forEach(button => {
+        button.addEventListener('click', () => setVariantStrategy(button.dataset.strategy as VariantStrategy));
+    });
+
+    surpriseMeBtn.addEventListener('click', () => {
+        const { models, backgrounds } = activeTemplate.surprise;
+        if (models.length > 0 && !modelPromptInput.disabled) modelPromptInput.value = models[Math.floor(Math.random() * models.length)];
+        if (backgrounds.length > 0) backgroundPromptInput.value = backgrounds[Math.floor(Math.random() * backgrounds.length)];
+    });
+
+    virtualTryOnModeBtn.addEventListener('click', () => {
+        currentAppMode = 'virtual-try-on';
+        endRefinement();
+        virtualTryOnModeBtn.classList.add('active');
+        modelGenModeBtn.classList.remove('active');
+        virtualTryOnControls.classList.remove('hidden');
+        modelGenControls.classList.add('hidden');
+        modelUploaderContainer.classList.remove('hidden');
+        poseGarmentsHint.classList.add('hidden');
+        showTryOnGrid(false);
+        resultGrid.innerHTML = '';
+        downloadBtn.textContent = 'Download Image';
+        updateGenerateButtonState();
+    });
+
+    modelGenModeBtn.addEventListener('click', () => {
+        currentAppMode = 'model-generation';
+        endRefinement();
+        modelGenModeBtn.classList.add('active');
+        virtualTryOnModeBtn.classList.remove('active');
+        modelGenControls.classList.remove('hidden');
+        virtualTryOnControls.classList.add('hidden');
+        // Pose sets keep the face consistent through the Model Library, not a one-off photo.
+        modelUploaderContainer.classList.add('hidden');
+        poseGarmentsHint.classList.remove('hidden');
+        showTryOnGrid(true);
+        resultGrid.innerHTML = '';
+        resultImage.src = '#';
+        downloadBtn.classList.add('hidden');
+        updateGenerateButtonState();
+    });
+    
+
+    // An image as currently shown (region edits and refinements included), described
+    // by the saved generation it belongs to. `index` is its place among the
+    // generation's successful images, which is also how the zip numbers it.
+    const shownExportItem = (url: string, title: string, index: number): ExportItem | null => {
+        const image = fromDataUrl(url);
+        if (!image) return null;
+        const saved = lastHistoryEntry ? exportItemsFromEntry(lastHistoryEntry)[index] : undefined;
+        return saved ? { ...saved, image } : {
+            image,
+            appMode: currentAppMode,
+            title,
+            prompt: '',
+            model: '',
+            aspectRatio: '',
+            dressColor: '',
+            user: userService.getCurrentUser()?.username ?? '',
+            createdAt: new Date().toISOString(),
+        };
+    };
+
+    const downloadShownImage = (url: string, title: string, index: number) => {
+        const item = shownExportItem(url, title, index);
+        if (item) downloadExportImage(item, index);
+    };
+
+    // Appends one result tile to the grid; a null URL renders a failed tile.
+    // Variant tiles also get favourite and compare actions.
+    const renderResultTile = (title: string, imageUrl: string | null, options: { variantIndex?: number; favourite?: boolean; failure?: unknown } = {}) => {
+        const itemContainer = document.createElement('div');
+        itemContainer.className = 'result-item-container';
+        if (imageUrl) {
+            // Region edits swap the tile's image in place, so actions read it from here.
+            const tileImage = { url: imageUrl, title };
+            const imageIndex = generatedModelImageUrls.length;
+            generatedModelImageUrls.push(tileImage);
+
+            const img = document.createElement('img');
+            img.src = imageUrl;
+            img.alt = `Generated image for ${title}`;
+            img.style.aspectRatio = selectedAspectRatio.replace(':', ' / ');
+
+            const infoDiv = document.createElement('div');
+            infoDiv.className = 'result-item-info';
+
+            const titleEl = document.createElement('h3');
+            titleEl.textContent = title;
+
+            const actionsDiv = document.createElement('div');
+            actionsDiv.className = 'result-item-actions';
+
+            if (options.variantIndex !== undefined) {
+                const variantIndex = options.variantIndex;
+                const favouriteBtn = document.createElement('button');
+                favouriteBtn.className = 'download-pose-btn favourite-btn';
+                favouriteBtn.textContent = '★ Favourite';
+                favouriteBtn.setAttribute('aria-pressed', String(!!options.favourite));
+                itemContainer.classList.toggle('favourite', !!options.favourite);
+                favouriteBtn.onclick = () => markFavouriteVariant(variantIndex, itemContainer);
+
+                const compareBtn = document.createElement('button');
+                compareBtn.className = 'download-pose-btn compare-btn';
+                compareBtn.textContent = 'Compare';
+                compareBtn.onclick = () => toggleCompareSelection(tileImage, itemContainer);
+
+                actionsDiv.appendChild(favouriteBtn);
+                actionsDiv.appendChild(compareBtn);
+            }
+
+            const editRegionTileBtn = document.createElement('button');
+            editRegionTileBtn.className = 'download-pose-btn';
+            editRegionTileBtn.textContent = 'Edit Region';
+            editRegionTileBtn.onclick = () => {
+                const image = fromDataUrl(tileImage.url);
+                if (!image) return;
+                openMaskEditor({
+                    image,
+                    garments: tileGarments(),
+                    onApply: async (patched) => {
+                        tileImage.url = toDataUrl(patched);
+                        img.src = tileImage.url;
+                        const stored = lastHistoryEntry?.images[imageIndex];
+                        if (!lastHistoryEntry || !stored) return;
+                        stored.image = patched;
+                        try {
+                            await historyStore.put(lastHistoryEntry);
+                        } catch (error) {
+                            console.error('Could not save region edit:', error);
+                        }
+                    },
+                });
+            };
+            actionsDiv.appendChild(editRegionTileBtn);
+
+            const downloadPoseBtn = document.createElement('button');
+            downloadPoseBtn.className = 'download-pose-btn';
+            downloadPoseBtn.textContent = 'Download';
+            downloadPoseBtn.onclick = () => downloadShownImage(tileImage.url, title, imageIndex);
+            actionsDiv.appendChild(downloadPoseBtn);
+
+            const lookbookTileBtn = document.createElement('button');
+            lookbookTileBtn.className = 'download-pose-btn';
+            lookbookTileBtn.textContent = 'Add to Lookbook';
+            lookbookTileBtn.onclick = () => {
+                const item = shownExportItem(tileImage.url, title, imageIndex);
+                if (item) addToLookbook([item]);
+            };
+            actionsDiv.appendChild(lookbookTileBtn);
+
+            infoDiv.appendChild(titleEl);
+            infoDiv.appendChild(actionsDiv);
+            itemContainer.appendChild(img);
+            itemContainer.appendChild(infoDiv);
+        } else {
+            const infoDiv = document.createElement('div');
+            infoDiv.className = 'result-item-info';
+            const titleEl = document.createElement('h3');
+            titleEl.textContent = title;
+            infoDiv.appendChild(titleEl);
+            if (options.failure !== undefined) {
+                infoDiv.appendChild(renderGenerationFailure(options.failure));
+            } else {
+                const failedEl = document.createElement('p');
+                failedEl.className = 'error-message';
+                failedEl.textContent = 'Failed';
+                infoDiv.appendChild(failedEl);
+            }
+            itemContainer.appendChild(infoDiv);
+        }
+        resultGrid.appendChild(itemContainer);
+    };
+
+    // --- Refinement ---
+    const setBeforeAfter = (on: boolean) => {
+        const previous = versionStack.previous();
+        const current = versionStack.current();
+        const show = on && !!previous && !!current;
+        refineCompareBtn.setAttribute('aria-pressed', String(show));
+        beforeAfter.classList.toggle('hidden', !show);
+        if (show) {
+            beforeAfterBefore.src = toDataUrl(previous!.image);
+            beforeAfterAfter.src = toDataUrl(current!.image);
+            updateBeforeAfterSplit();
+        }
+    };
+
+    const updateBeforeAfterSplit = () => {
+        const split = Number(beforeAfterRange.value);
+        beforeAfterBefore.style.clipPath = `inset(0 ${100 - split}% 0 0)`;
+        beforeAfterDivider.style.left = `${split}%`;
+    };
+
+    // Shows the current version and syncs the refine controls with the stack.
+    const renderRefinement = () => {
+        const current = versionStack.current();
+        refineSection.classList.toggle('hidden', !current || !refinement);
+        if (!current) return;
+        resultImage.src = toDataUrl(current.image);
+        const { index, count } = versionStack.position();
+        refineVersionLabel.textContent = `Version ${index + 1} of ${count}`;
+        refineInstructionLabel.textContent = current.instruction ? `“${current.instruction}”` : 'Original generation';
+        refineUndoBtn.disabled = !versionStack.canUndo();
+        refineRedoBtn.disabled = !versionStack.canRedo();
+        refineCompareBtn.disabled = !versionStack.previous();
+        setBeforeAfter(refineCompareBtn.getAttribute('aria-pressed') === 'true');
+    };
+
+    const startRefinement = (image: InlineImage, base: RefinementBase, inputs: GenerationInputs) => {
+        refinement = { base, inputs };
+        versionStack.reset(image);
+        refineInput.value = '';
+        refineErrorEl.replaceChildren();
+        renderRefinement();
+    };
+
+    const endRefinement = () => {
+        refinement = null;
+        versionStack.clear();
+        setBeforeAfter(false);
+        refineErrorEl.replaceChildren();
+        refineSection.classList.add('hidden');
+    };
+
+    refineForm.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const instruction = refineInput.value.trim();
+        const current = versionStack.current();
+        if (!instruction || !current || !refinement || generationController) return;
+        const { base, inputs } = refinement;
+
+        loaderText.innerHTML = 'Refining your image...<br>This can take a moment.';
+        loader.style.display = 'flex';
+        refineSubmitBtn.disabled = true;
+        generateBtn.disabled = true;
+        refineErrorEl.replaceChildren();
+        generationController = new AbortController();
+
+        try {
+            const request = buildRefineRequest(activeTemplate, base, current.image, instruction);
+            const result = await jobQueue.submit('Refinement', request, generationController.signal);
+            versionStack.push(result.images[0], instruction);
+            refineInput.value = '';
+            renderRefinement();
+            lastHistoryEntry = await saveToHistory(inputs, [{
+                title: 'Refined Try-On',
+                prompt: [...base.prompts, ...request.prompts].join('\n'),
+                image: result.images[0],
+            }]);
+        } catch (error) {
+            console.error('Error refining image:', error);
+            refineErrorEl.replaceChildren(renderGenerationFailure(error));
+        } finally {
+            generationController = null;
+            loader.style.display = 'none';
+            refineSubmitBtn.disabled = false;
+            updateGenerateButtonState();
+        }
+    });
+
+    refineInput.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            refineForm.requestSubmit();
+        }
+    });
+    refineUndoBtn.addEventListener('click', () => {
+        versionStack.undo();
+        renderRefinement();
+    });
+    refineRedoBtn.addEventListener('click', () => {
+        versionStack.redo();
+        renderRefinement();
+    });
+    refineCompareBtn.addEventListener('click', () => setBeforeAfter(refineCompareBtn.getAttribute('aria-pressed') !== 'true'));
+    beforeAfterRange.addEventListener('input', updateBeforeAfterSplit);
+
+    // --- Region editing ---
+    // The mask is painted at the image's full resolution on an offscreen canvas;
+    // the dialog shows a scaled copy of the image with the mask tinted over it.
+    interface RegionEditTarget {
+        image: InlineImage;
+        garments: LabelledImage[];
+        onApply: (image: InlineImage, instruction: string, request: ImageGenerationRequest) => Promise<void>;
+    }
+    const MASK_COLOUR = '#a855f7';
+    let regionTarget: RegionEditTarget | null = null;
+    let regionBitmap: ImageBitmap | null = null;
+    let regionMask: HTMLCanvasElement | null = null;
+    let lastBrushPoint: { x: number; y: number } | null = null;
+
+    const drawMaskEditor = () => {
+        if (!regionBitmap || !regionMask) return;
+        const ctx = maskEditorCanvas.getContext('2d')!;
+        const { width, height } = maskEditorCanvas;
+        ctx.clearRect(0, 0, width, height);
+        ctx.drawImage(regionBitmap, 0, 0, width, height);
+        ctx.globalAlpha = 0.55;
+        ctx.drawImage(regionMask, 0, 0, width, height);
+        ctx.globalAlpha = 1;
+    };
+
+    const openMaskEditor = async (target: RegionEditTarget) => {
+        try {
+            regionBitmap = await decodeInlineImage(target.image);
+        } catch (error) {
+            console.error('Could not open image for region editing:', error);
+            return;
+        }
+        regionTarget = target;
+        regionMask = document.createElement('canvas');
+        regionMask.width = regionBitmap.width;
+        regionMask.height = regionBitmap.height;
+        const scale = Math.min(1, 720 / regionBitmap.width, (window.innerHeight * 0.55) / regionBitmap.height);
+        maskEditorCanvas.width = Math.round(regionBitmap.width * scale);
+        maskEditorCanvas.height = Math.round(regionBitmap.height * scale);
+        maskEditorEraseBtn.setAttribute('aria-pressed', 'false');
+        maskEditorInstruction.value = '';
+        maskEditorErrorEl.replaceChildren();
+        drawMaskEditor();
+        maskEditor.showModal();
+    };
+
+    // Pointer position in full-resolution image pixels.
+    const maskPoint = (event: PointerEvent) => {
+        const rect = maskEditorCanvas.getBoundingClientRect();
+        return {
+            x: ((event.clientX - rect.left) / rect.width) * regionMask!.width,
+            y: ((event.clientY - rect.top) / rect.height) * regionMask!.height,
+        };
+    };
+
+    const paintMask = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+        const ctx = regionMask!.getContext('2d')!;
+        // The brush size is in screen pixels, so it feels the same at any image size.
+        const rect = maskEditorCanvas.getBoundingClientRect();
+        ctx.lineWidth = Number(maskEditorBrush.value) * (regionMask!.width / rect.width);
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.strokeStyle = MASK_COLOUR;
+        ctx.globalCompositeOperation = maskEditorEraseBtn.getAttribute('aria-pressed') === 'true' ? 'destination-out' : 'source-over';
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+        drawMaskEditor();
+    };
+
+    maskEditorCanvas.addEventListener('pointerdown', (event) => {
+        if (!regionMask) return;
+        lastBrushPoint = maskPoint(event);
+        paintMask(lastBrushPoint, lastBrushPoint);
+        maskEditorCanvas.setPointerCapture(event.pointerId);
+    });
+    maskEditorCanvas.addEventListener('pointermove', (event) => {
+        if (!lastBrushPoint) return;
+        const point = maskPoint(event);
+        paintMask(lastBrushPoint, point);
+        lastBrushPoint = point;
+    });
+    maskEditorCanvas.addEventListener('pointerup', () => { lastBrushPoint = null; });
+
+    maskEditorEraseBtn.addEventListener('click', () => {
+        maskEditorEraseBtn.setAttribute('aria-pressed', String(maskEditorEraseBtn.getAttribute('aria-pressed') !== 'true'));
+    });
+    (document.getElementById('mask-editor-clear') as HTMLButtonElement).addEventListener('click', () => {
+        regionMask?.getContext('2d')!.clearRect(0, 0, regionMask.width, regionMask.height);
+        drawMaskEditor();
+    });
+    (document.getElementById('mask-editor-cancel') as HTMLButtonElement).addEventListener('click', () => maskEditor.close());
+
+    maskEditorForm.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const instruction = maskEditorInstruction.value.trim();
+        if (!regionTarget || !regionBitmap || !regionMask || generationController) return;
+        const [target, bitmap, mask] = [regionTarget, regionBitmap, regionMask];
+        maskEditorErrorEl.replaceChildren();
+        if (!instruction) {
+            maskEditorErrorEl.textContent = 'Describe what should change in the painted area.';
+            return;
+        }
+        const crop = await cropForInpaint(bitmap, mask);
+        if (!crop) {
+            maskEditorErrorEl.textContent = 'Paint over the area you want to change first.';
+            return;
+        }
+
+        maskEditorApplyBtn.disabled = true;
+        maskEditorApplyBtn.textContent = 'Editing...';
+        generateBtn.disabled = true;
+        generationController = new AbortController();
+        try {
+            const request = buildInpaintRequest(activeTemplate, crop, target.garments, instruction);
+            const result = await jobQueue.submit('Region Edit', request, generationController.signal);
+            const patch = await decodeInlineImage(result.images[0]);
+            await target.onApply(await compositeInpaint(bitmap, mask, crop.rect, patch), instruction, request);
+            generationController = null; // finished; closing must not cancel anything
+            maskEditor.close();
+        } catch (error) {
+            console.error('Error editing region:', error);
+            maskEditorErrorEl.replaceChildren(renderGenerationFailure(error));
+        } finally {
+            generationController = null;
+            maskEditorApplyBtn.disabled = false;
+            maskEditorApplyBtn.textContent = 'Apply';
+            updateGenerateButtonState();
+        }
+    });
+    maskEditorInstruction.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            maskEditorForm.requestSubmit();
+        }
+    });
+    maskEditor.addEventListener('close', () => {
+        // Closing while a region edit runs (Cancel or Escape) cancels its job too.
+        if (maskEditorApplyBtn.disabled) generationController?.abort();
+        regionTarget = null;
+        regionBitmap = null;
+        regionMask = null;
+        lastBrushPoint = null;
+    });
+
+    // A region edit on the single try-on result becomes a new refinement version.
+    editRegionBtn.addEventListener('click', () => {
+        const current = versionStack.current();
+        if (!current || !refinement) return;
+        openMaskEditor({
+            image: current.image,
+            garments: refinement.base.garments,
+            onApply: async (image, instruction, request) => {
+                if (!refinement) return;
+                const { base, inputs } = refinement;
+                versionStack.push(image, `Region: ${instruction}`);
+                renderRefinement();
+                lastHistoryEntry = await saveToHistory(inputs, [{
+                    title: 'Refined Try-On',
+                    prompt: [...base.prompts, ...request.prompts].join('\n'),
+                    image,
+                }]);
+            },
+        });
+    });
+
+    // Garment references for region edits on grid tiles: the uploads behind the
+    // shown entry. Pose sets keep theirs too, so edits stay true to the garment photos.
+    const tileGarments = (): LabelledImage[] => {
+        const inputs = lastHistoryEntry?.inputs;
+        return inputs ? buildSharedTryOnGarments(inputs.tryOnMode, inputs.garments, inputs.accessories) : [];
     };
 
-    const updateGenerateButtonState = () => {
-        if (currentAppMode === 'virtual-try-on') {
-            generateBtn.innerHTML = '<svg class="sparkle-icon" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path fill-rule="evenodd" d="M9 4.5a.75.75 0 01.75.75V9a.75.75 0 01-1.5 0V5.25A.75.75 0 019 4.5zm6.375 0a.75.75 0 01.75.75V9a.75.75 0 01-1.5 0V5.25a.75.75 0 01.75-.75zM9 15a.75.75 0 01.75.75v3.75a.75.75 0 01-1.5 0V15.75A.75.75 0 019 15zm6.375 0a.75.75 0 01.75.75v3.75a.75.75 0 01-1.5 0V15.75a.75.75 0 01.75-.75zM4.125 9a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5H4.875a.75.75 0 01-.75-.75zm15 0a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5h-3.75a.75.75 0 01-.75-.75zM4.125 15a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5H4.875a.75.75 0 01-.75-.75zm15 0a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5h-3.75a.75.75 0 01-.75-.75z" clip-rule="evenodd" /></svg> Generate Model';
-            if (currentTryOnMode === '3-piece') {
-                generateBtn.disabled = !(uploadedImages.kameez && uploadedImages.dupatta);
-            } else {
-                generateBtn.disabled = !uploadedImages.kameez;
-            }
-        } else { // model-generation
-            generateBtn.innerHTML = '<svg class="sparkle-icon" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path fill-rule="evenodd" d="M9 4.5a.75.75 0 01.75.75V9a.75.75 0 01-1.5 0V5.25A.75.75 0 019 4.5zm6.375 0a.75.75 0 01.75.75V9a.75.75 0 01-1.5 0V5.25a.75.75 0 01.75-.75zM9 15a.75.75 0 01.75.75v3.75a.75.75 0 01-1.5 0V15.75A.75.75 0 019 15zm6.375 0a.75.75 0 01.75.75v3.75a.75.75 0 01-1.5 0V15.75a.75.75 0 01.75-.75zM4.125 9a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5H4.875a.75.75 0 01-.75-.75zm15 0a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5h-3.75a.75.75 0 01-.75-.75zM4.125 15a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5H4.875a.75.75 0 01-.75-.75zm15 0a.75.75 0 01.75-.75h3.75a.75.75 0 010 1.5h-3.75a.75.75 0 01-.75-.75z" clip-rule="evenodd" /></svg> Generate 5 Poses';
-            generateBtn.disabled = false;
+    // --- Variant Favourite & Compare ---
+    const markFavouriteVariant = async (variantIndex: number, tile: HTMLDivElement) => {
+        resultGrid.querySelectorAll('.result-item-container').forEach(el => {
+            el.classList.toggle('favourite', el === tile);
+            el.querySelector('.favourite-btn')?.setAttribute('aria-pressed', String(el === tile));
+        });
+        if (!lastHistoryEntry) return;
+        lastHistoryEntry.images.forEach((image, index) => {
+            image.favourite = index === variantIndex;
+        });
+        try {
+            await historyStore.put(lastHistoryEntry);
+        } catch (error) {
+            console.error('Could not save favourite variant:', error);
         }
     };
-    
-    // --- Event Handlers ---
-    const handleFileUpload = async (event: Event, type: 'kameez' | 'dupatta' | 'trouser' | 'model') => {
-      const input = event.target as HTMLInputElement;
-      if (input.files && input.files[0]) {
-        const file = input.files[0];
-        const previewEl = document.getElementById(`${type}-preview`) as HTMLImageElement;
-        const placeholderEl = previewEl.nextElementSibling as HTMLDivElement;
-    
-        previewEl.src = URL.createObjectURL(file);
-        previewEl.style.display = 'block';
-        if (placeholderEl) placeholderEl.style.display = 'none';
-    
-        const part = await fileToGenerativePart(file);
-        uploadedImages[type] = {
-            base64: part.inlineData!.data,
-            mimeType: part.inlineData!.mimeType
-        };
-    
-        if (type === 'model') {
-            modelPromptInput.disabled = true;
-            modelClearBtn.classList.remove('hidden');
+
+    const showCompareView = () => {
+        const panes = compareView.querySelectorAll('.compare-pane');
+        compareSelection.forEach((item, index) => {
+            (panes[index].querySelector('img') as HTMLImageElement).src = item.url;
+            (panes[index].querySelector('p') as HTMLParagraphElement).textContent = item.title;
+        });
+        compareView.classList.remove('hidden');
+    };
+
+    const clearCompareSelection = () => {
+        compareSelection = [];
+        resultGrid.querySelectorAll('.compare-selected').forEach(el => el.classList.remove('compare-selected'));
+        compareView.classList.add('hidden');
+    };
+
+    // Selecting a second tile opens the side-by-side view; a third replaces the oldest.
+    const toggleCompareSelection = (item: { title: string; url: string }, tile: HTMLDivElement) => {
+        if (tile.classList.contains('compare-selected')) {
+            tile.classList.remove('compare-selected');
+            compareSelection = compareSelection.filter(selected => selected.url !== item.url);
+            return;
         }
-    
-        downloadBtn.classList.add('hidden');
-        updateGenerateButtonState();
-      }
+        if (compareSelection.length === 2) {
+            const dropped = compareSelection.shift()!;
+            resultGrid.querySelectorAll('.result-item-container img').forEach(img => {
+                if ((img as HTMLImageElement).src === dropped.url) img.parentElement?.classList.remove('compare-selected');
+            });
+        }
+        tile.classList.add('compare-selected');
+        compareSelection.push(item);
+        if (compareSelection.length === 2) showCompareView();
     };
-    
-    // --- Event Listeners ---
-    kameezUpload.addEventListener('change', (e) => handleFileUpload(e, 'kameez'));
-    dupattaUpload.addEventListener('change', (e) => handleFileUpload(e, 'dupatta'));
-    trouserUpload.addEventListener('change', (e) => handleFileUpload(e, 'trouser'));
-    modelUpload.addEventListener('change', (e) => handleFileUpload(e, 'model'));
-    
-    modelClearBtn.addEventListener('click', (e) => {
-        e.stopPropagation();
-        uploadedImages.model = null;
-        modelPreview.src = '#';
-        modelPreview.style.display = 'none';
-        const placeholder = document.querySelector('#model-uploader-container .preview-placeholder');
-        if (placeholder) (placeholder as HTMLElement).style.display = 'flex';
-        modelUpload.value = '';
-        modelPromptInput.disabled = false;
-        modelClearBtn.classList.add('hidden');
-    });
-    
-    ratioButtons.forEach(button => {
-      button.addEventListener('click', () => {
-        selectedAspectRatio = button.dataset.ratio!;
+
+    compareCloseBtn.addEventListener('click', () => clearCompareSelection());
+
+    // Switches the try-on result area between the single image and the variant grid.
+    const showTryOnGrid = (showGrid: boolean) => {
+        clearCompareSelection();
+        resultImage.classList.toggle('hidden', showGrid);
+        resultGrid.classList.toggle('hidden', !showGrid);
+        resultContainer.style.aspectRatio = showGrid ? 'auto' : selectedAspectRatio.replace(':', ' / ');
+    };
+
+    // Puts the dashboard back into the state recorded with a history entry.
+    const restoreInputs = (inputs: GenerationInputs) => {
+        (inputs.appMode === 'virtual-try-on' ? virtualTryOnModeBtn : modelGenModeBtn).click();
+        setOutfitType(inputs.tryOnMode);
+        currentOutfit().slots.forEach(slot => setSlotImage(slot.id, inputs.garments[slot.id] ?? null));
+        ACCESSORY_SLOTS.forEach(slot => {
+            setSlotImage(slot.id, inputs.accessories?.[slot.id] ?? null);
+            setAccessoryEnabled(slot.id, !!inputs.accessories?.[slot.id]);
+        });
+        setSlotImage('model', inputs.modelImage);
+        // A library model deleted since then falls back to none.
+        librarySelect.value = libraryModels.some(model => model.id === inputs.libraryModel?.id) ? inputs.libraryModel!.id : '';
+        librarySelect.dispatchEvent(new Event('change'));
+        modelPromptInput.value = inputs.modelPrompt;
+        backgroundPromptInput.value = inputs.backgroundPrompt;
+        if (inputs.dressColor) setPieceColour(currentOutfit().slots[0].id, inputs.dressColor);
+        Object.entries(inputs.pieceColours ?? {}).forEach(([piece, colour]) => setPieceColour(piece, colour));
+        fabricSelect.value = isFabric(inputs.fabric) ? inputs.fabric : 'lawn';
         ratioButtons.forEach(btn => {
-          btn.classList.remove('active');
-          btn.setAttribute('aria-pressed', 'false');
+            if (btn.dataset.ratio === inputs.aspectRatio) btn.click();
         });
-        button.classList.add('active');
-        button.setAttribute('aria-pressed', 'true');
-        if (currentAppMode === 'virtual-try-on') {
-            resultContainer.style.aspectRatio = selectedAspectRatio.replace(':', ' / ');
+        setVariantCount(inputs.variantCount ?? 1);
+        setVariantStrategy(inputs.variantStrategy ?? 'seed');
+        if (inputs.poseCount) setPoseCount(inputs.poseCount);
+        updateGenerateButtonState();
+    };
+
+    // Projects keep the dashboard as it was last left inside them.
+    saveProjectWorkspace = async () => {
+        clearTimeout(workspaceSaveTimer);
+        const project = activeProject;
+        if (!project || appliedWorkspaceFor !== project.id) return;
+        try {
+            const stored = await projectStore.get(project.id);
+            if (!stored) return;
+            const saved = await projectStore.put({ ...stored, workspace: captureInputs(), templateId: templateStore.getActiveId() });
+            if (activeProject?.id === saved.id) activeProject = saved;
+        } catch (error) {
+            console.error('Could not save the project workspace:', error);
         }
-      });
-    });
+    };
 
-    threePieceBtn.addEventListener('click', () => {
-        currentTryOnMode = '3-piece';
-        threePieceBtn.classList.add('active');
-        twoPieceBtn.classList.remove('active');
-        threePieceBtn.setAttribute('aria-pressed', 'true');
-        twoPieceBtn.setAttribute('aria-pressed', 'false');
-        dupattaUploader.style.display = 'block';
-        updateGenerateButtonState();
-    });
+    applyProjectWorkspace = async (project) => {
+        if (project?.templateId && project.templateId !== templateStore.getActiveId() && await templateStore.get(project.templateId)) {
+            templateStore.setActiveId(project.templateId);
+            await applyActiveTemplate?.();
+        }
+        // Leaving a project for none keeps its inputs; opening an unused project starts afresh.
+        const workspace = project ? project.workspace ?? blankWorkspace(currentAppMode) : null;
+        if (workspace) restoreInputs(workspace);
+    };
 
-    twoPieceBtn.addEventListener('click', () => {
-        currentTryOnMode = '2-piece';
-        twoPieceBtn.classList.add('active');
-        threePieceBtn.classList.remove('active');
-        twoPieceBtn.setAttribute('aria-pressed', 'true');
-        threePieceBtn.setAttribute('aria-pressed', 'false');
-        dupattaUploader.style.display = 'none';
-        updateGenerateButtonState();
-    });
+    ['input', 'change', 'click'].forEach(type => pages.app.addEventListener(type, scheduleWorkspaceSave));
 
-    surpriseMeBtn.addEventListener('click', () => {
-        modelPromptInput.value = modelPrompts[Math.floor(Math.random() * modelPrompts.length)];
-        backgroundPromptInput.value = backgroundPrompts[Math.floor(Math.random() * backgroundPrompts.length)];
-    });
+    restoreHistoryEntry = (entry, rerun) => {
+        restoreInputs(entry.inputs);
+        if (rerun) {
+            generateBtn.click();
+            return;
+        }
+
+        lastHistoryEntry = entry;
+        resultPlaceholder.style.display = 'none';
+        generatedModelImageUrls = [];
+        resultGrid.innerHTML = '';
+        if (entry.inputs.appMode === 'virtual-try-on' && entry.images.length === 1) {
+            showTryOnGrid(false);
+            resultImage.src = toDataUrl(entry.images[0].image);
+            resultImage.style.display = 'block';
+            downloadBtn.textContent = 'Download Image';
+            // Reopened results can be refined further, replaying their stored prompt.
+            startRefinement(entry.images[0].image, {
+                prompts: entry.images[0].prompt.split('\n'),
+                garments: buildSharedTryOnGarments(entry.inputs.tryOnMode, entry.inputs.garments, entry.inputs.accessories),
+                modelImage: entry.inputs.modelImage,
+                modelReferences: libraryReferences(),
+                aspectRatio: entry.inputs.aspectRatio,
+            }, entry.inputs);
+        } else if (entry.inputs.appMode === 'virtual-try-on') {
+            showTryOnGrid(true);
+            entry.images.forEach((image, index) => renderResultTile(image.title, toDataUrl(image.image), {
+                variantIndex: index,
+                favourite: image.favourite,
+            }));
+            downloadBtn.textContent = `Download ${generatedModelImageUrls.length} Variants (.zip)`;
+        } else {
+            entry.images.forEach(image => renderResultTile(image.title, toDataUrl(image.image)));
+            downloadBtn.textContent = `Download ${generatedModelImageUrls.length} Poses (.zip)`;
+        }
+        downloadBtn.classList.remove('hidden');
+    };
 
-    dressColorInput.addEventListener('input', () => {
-        dressColorValue.textContent = dressColorInput.value;
+    // --- Core Generation Logic ---
+    // Text parts for a try-on request; empty descriptions fall back to the defaults.
+    // A library model's description stands in for an empty model prompt.
+    const buildTryOnPrompts = (modelDescription: string, backgroundDescription: string) => buildSharedTryOnPrompts({
+        template: activeTemplate,
+        tryOnMode: currentTryOnMode,
+        garments: dashboardGarments(),
+        accessories: dashboardAccessories(),
+        hasModelImage: !!uploadedImages.model || !!selectedLibraryModel(),
+        modelDescription: modelDescription || selectedLibraryModel()?.description || '',
+        backgroundDescription,
+        aspectRatio: selectedAspectRatio,
     });
 
-    virtualTryOnModeBtn.addEventListener('click', () => {
-        currentAppMode = 'virtual-try-on';
-        virtualTryOnModeBtn.classList.add('active');
-        modelGenModeBtn.classList.remove('active');
-        virtualTryOnControls.classList.remove('hidden');
-        modelGenControls.classList.add('hidden');
-        resultImage.classList.remove('hidden');
-        resultGrid.classList.add('hidden');
+    const buildTryOnGarments = () => buildSharedTryOnGarments(currentTryOnMode, dashboardGarments(), dashboardAccessories());
+
+    // One request per variant: either the same prompts with consecutive seeds, or a
+    // different model/background preset per variant (the model stays fixed when a
+    // model photo, library model or model prompt was given).
+    const buildVariantRequests = (garments: LabelledImage[]) => {
+        const baseSeed = Math.floor(Math.random() * 1_000_000);
+        const modelDescription = modelPromptInput.value.trim();
+        const backgroundDescription = backgroundPromptInput.value.trim();
+        const { models, backgrounds } = activeTemplate.surprise;
+
+        return Array.from({ length: variantCount }, (_, index) => {
+            const preset = variantStrategy === 'preset';
+            const variantModel = preset && !modelDescription && !uploadedImages.model && !selectedLibraryModel() && models.length > 0
+                ? models[index % models.length]
+                : modelDescription;
+            const variantBackground = preset && backgrounds.length > 0 ? backgrounds[index % backgrounds.length] : backgroundDescription;
+            const request: ImageGenerationRequest = {
+                mode: 'try-on',
+                prompts: buildTryOnPrompts(variantModel, variantBackground),
+                garments,
+                modelImage: uploadedImages.model,
+                modelReferences: libraryReferences(),
+                aspectRatio: selectedAspectRatio,
+                ...(preset ? {} : { seed: baseSeed + index }),
+            };
+            return { title: preset ? `Variant ${index + 1} · ${(variantBackground || activeTemplate.tryOn.defaultBackground).split(/[,.]/)[0]}` : `Variant ${index + 1} · seed ${baseSeed + index}`, request };
+        });
+    };
+
+    const generateTryOnVariants = async (inputs: GenerationInputs) => {
+        const variants = buildVariantRequests(buildTryOnGarments());
+        const signal = generationController?.signal;
+        const results = await Promise.allSettled(variants.map(variant => jobQueue.submit(variant.title, variant.request, signal)));
+
+        generatedModelImageUrls = [];
         resultGrid.innerHTML = '';
-        resultContainer.style.aspectRatio = selectedAspectRatio.replace(':', ' / ');
-        downloadBtn.textContent = 'Download Image';
-        updateGenerateButtonState();
-    });
+        const savedImages: HistoryImage[] = [];
 
-    modelGenModeBtn.addEventListener('click', () => {
-        currentAppMode = 'model-generation';
-        modelGenModeBtn.classList.add('active');
-        virtualTryOnModeBtn.classList.remove('active');
-        modelGenControls.classList.remove('hidden');
-        virtualTryOnControls.classList.add('hidden');
-        resultGrid.classList.remove('hidden');
-        resultImage.classList.add('hidden');
-        resultImage.src = '#';
-        downloadBtn.classList.add('hidden');
-        resultContainer.style.aspectRatio = 'auto';
-        updateGenerateButtonState();
-    });
-    
+        results.forEach((result, index) => {
+            const variant = variants[index];
+            const generated = result.status === 'fulfilled' ? result.value.images[0] : undefined;
+
+            if (generated) {
+                savedImages.push({ title: variant.title, prompt: variant.request.prompts.join('\n'), image: generated });
+            } else if (result.status === 'fulfilled') {
+                console.error(`No image returned for ${variant.title}`);
+            } else {
+                console.error(`Failed to generate ${variant.title}:`, result.reason);
+            }
+            renderResultTile(variant.title, generated ? toDataUrl(generated) : null, {
+                variantIndex: generated ? savedImages.length - 1 : undefined,
+                failure: result.status === 'rejected' ? result.reason : undefined,
+            });
+        });
+
+        lastHistoryEntry = await saveToHistory(inputs, savedImages);
+
+        if (generatedModelImageUrls.length > 0) {
+            downloadBtn.textContent = `Download ${generatedModelImageUrls.length} Variants (.zip)`;
+            downloadBtn.classList.remove('hidden');
+        }
+    };
 
-    // --- Core Generation Logic ---
     const generateVirtualTryOnImage = async () => {
         if (generateBtn.disabled) return;
     
-        loaderText.innerHTML = 'Styling your outfit...<br>This can take a moment.';
+        const inputs = captureInputs();
+        const multiVariant = variantCount > 1;
+        loaderText.innerHTML = multiVariant
+            ? `Styling ${variantCount} variants...<br>This may take a few minutes.`
+            : 'Styling your outfit...<br>This can take a moment.';
         loader.style.display = 'flex';
         resultImage.style.display = 'none';
         resultPlaceholder.style.display = 'none';
         downloadBtn.classList.add('hidden');
         generateBtn.disabled = true;
+        generationController = new AbortController();
+        endRefinement();
+        showTryOnGrid(multiVariant);
+        if (multiVariant) resultGrid.innerHTML = '';
     
         try {
-            const textParts = [];
-            
-            let mainPrompt = `Generate a photorealistic image of a model wearing a ${currentTryOnMode} Pakistani traditional outfit.`;
-            if (modelPromptInput.value.trim()) {
-                mainPrompt += ` Model description: ${modelPromptInput.value.trim()}.`;
-            } else if (!uploadedImages.model) {
-                 mainPrompt += ` Model description: Elegant Pakistani female model, confident pose, natural expression.`;
+            if (multiVariant) {
+                await generateTryOnVariants(inputs);
+                return;
             }
 
-            if (backgroundPromptInput.value.trim()) {
-                 mainPrompt += ` Background: ${backgroundPromptInput.value.trim()}.`;
-            } else {
-                 mainPrompt += ` Background: Indoor studio with soft, professional fashion lighting.`;
-            }
-             mainPrompt += ` The image aspect ratio must be ${selectedAspectRatio}.`;
-            textParts.push({ text: mainPrompt });
-
-            let dressDescription = 'The outfit consists of:';
-            if (uploadedImages.kameez) dressDescription += ' the provided Kameez (shirt)';
-            if (currentTryOnMode === '3-piece' && uploadedImages.dupatta) dressDescription += ', the provided Dupatta (scarf)';
-            if (uploadedImages.trouser) dressDescription += ', and the provided Trouser (pants).';
-            else dressDescription += ' and a matching Trouser (pants).';
-            textParts.push({ text: dressDescription });
-            
-            const imageParts: Part[] = [];
-
-            if (uploadedImages.kameez) {
-                imageParts.push({ text: "This is the Kameez:" });
-                imageParts.push({ inlineData: { data: uploadedImages.kameez.base64, mimeType: uploadedImages.kameez.mimeType } });
-            }
-            if (currentTryOnMode === '3-piece' && uploadedImages.dupatta) {
-                imageParts.push({ text: "This is the Dupatta:" });
-                imageParts.push({ inlineData: { data: uploadedImages.dupatta.base64, mimeType: uploadedImages.dupatta.mimeType } });
-            }
-            if (uploadedImages.trouser) {
-                imageParts.push({ text: "This is the Trouser:" });
-                imageParts.push({ inlineData: { data: uploadedImages.trouser.base64, mimeType: uploadedImages.trouser.mimeType } });
-            }
-            if (uploadedImages.model) {
-                imageParts.push({ text: "Use this person as the model:" });
-                imageParts.push({ inlineData: { data: uploadedImages.model.base64, mimeType: uploadedImages.model.mimeType } });
-            }
+            const textParts = buildTryOnPrompts(modelPromptInput.value.trim(), backgroundPromptInput.value.trim());
 
-            const allParts: Part[] = [...textParts, ...imageParts];
+            const request: ImageGenerationRequest = {
+                mode: 'try-on',
+                prompts: textParts,
+                garments: buildTryOnGarments(),
+                modelImage: uploadedImages.model,
+                modelReferences: libraryReferences(),
+                aspectRatio: selectedAspectRatio,
+            };
 
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts: allParts },
-                config: {
-                    responseModalities: [Modality.IMAGE],
-                },
-            });
+            const result = await jobQueue.submit('Virtual Try-On', request, generationController.signal);
 
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData) {
-                    const base64ImageBytes: string = part.inlineData.data;
-                    const imageUrl = `data:image/png;base64,${base64ImageBytes}`;
-                    resultImage.src = imageUrl;
-                    resultImage.style.display = 'block';
-                    downloadBtn.classList.remove('hidden');
-                    break; 
-                }
+            if (result.images.length > 0) {
+                resultImage.src = toDataUrl(result.images[0]);
+                resultImage.style.display = 'block';
+                downloadBtn.textContent = 'Download Image';
+                downloadBtn.classList.remove('hidden');
+                lastHistoryEntry = await saveToHistory(inputs, [{ title: 'Virtual Try-On', prompt: textParts.join('\n'), image: result.images[0] }]);
+                startRefinement(result.images[0], {
+                    prompts: textParts,
+                    garments: request.garments,
+                    modelImage: request.modelImage ?? null,
+                    modelReferences: request.modelReferences ?? [],
+                    aspectRatio: request.aspectRatio,
+                }, inputs);
             }
 
         } catch (error) {
             console.error('Error generating image:', error);
-            resultPlaceholder.textContent = 'Sorry, an error occurred while generating the image. Please try again.';
+            resultPlaceholder.replaceChildren(renderGenerationFailure(error));
             resultPlaceholder.style.display = 'block';
+            if (multiVariant) resultGrid.classList.add('hidden');
         } finally {
+            generationController = null;
             loader.style.display = 'none';
             updateGenerateButtonState(); 
         }
@@ -610,127 +3957,98 @@ function initializeApp() {
         if (generateBtn.disabled) return;
 
         downloadBtn.classList.add('hidden');
-        loaderText.innerHTML = 'Generating 5 poses...<br>This may take a few minutes.';
+        loaderText.innerHTML = `Generating ${poseCount} pose${poseCount === 1 ? '' : 's'}...<br>This may take a few minutes.`;
         loader.style.display = 'flex';
         resultGrid.innerHTML = '';
         resultGrid.classList.remove('hidden');
         resultPlaceholder.style.display = 'none';
         generateBtn.disabled = true;
+        generationController = new AbortController();
+        const signal = generationController.signal;
+        const inputs = captureInputs();
 
         try {
-            const modelDescription = modelPromptInput.value.trim() || 'a beautiful Pakistani female model in her mid-20s, with long dark brown hair, warm brown eyes, and an elegant, serene expression';
-            const backgroundDescription = backgroundPromptInput.value.trim() || 'a modern, minimalist studio setting with soft, diffused professional lighting';
-            const color = dressColorInput.value;
-
-            const basePrompt = `
-**Objective:** Create a set of 5 photorealistic images for a fashion catalog. Absolute consistency is critical.
-**Model Identity (Consistent across all images):** ${modelDescription}. The model's face, hair, and all features must be identical in every single image.
-**Background (Consistent across all images):** ${backgroundDescription}. The background, lighting, and camera style must be identical in every single image.
-**Outfit (Consistent across all images):** A traditional Pakistani suit. The color is exactly ${color}. The dress must be completely plain, with absolutely NO embroidery, NO prints, and NO patterns on the fabric. The fabric has a soft, natural texture.
-**Image Quality:** 4K high-resolution, ultra-realistic, photorealistic.
-**Aspect Ratio:** ${selectedAspectRatio}.
-`;
-
-            const poses = [
-                { title: 'Front Pose', prompt: `**Pose:** Full front view of the model standing naturally, wearing the complete 3-piece suit (kameez, trouser, and dupatta).` },
-                { title: 'Back Pose', prompt: `**Pose:** Full back view of the model standing, wearing the complete 3-piece suit (kameez, trouser, and dupatta).` },
-                { title: 'Close-up Pose', prompt: `**Pose:** Waist-up portrait of the model. Focus on the clear fabric texture and the model's expression. The model is wearing the suit.` },
-                { title: '2-piece Pose', prompt: `**Pose:** Full view of the model standing, wearing only the kameez and trouser (NO dupatta).` },
-                { title: 'Sitting Pose', prompt: `**Pose:** The model is sitting gracefully on a minimal object or plain background, wearing the complete 3-piece suit (kameez, trouser, and dupatta).` },
-            ];
-
-            const promises = poses.map(pose => 
-                ai.models.generateContent({
-                    model: 'gemini-2.5-flash-image',
-                    contents: { parts: [{ text: `${basePrompt} ${pose.prompt}` }] },
-                    config: {
-                        responseModalities: [Modality.IMAGE],
-                    },
-                })
+            const garments = dashboardGarments();
+            const outfit = buildPoseOutfit({
+                template: activeTemplate,
+                tryOnMode: currentTryOnMode,
+                garments,
+                colours: pieceColours(),
+                fabric: fabricSelect.value as Fabric,
+            });
+            const variables = {
+                model: modelPromptInput.value.trim() || selectedLibraryModel()?.description || activeTemplate.poses.defaultModel || outfitType(currentTryOnMode).defaultModel,
+                background: backgroundPromptInput.value.trim() || activeTemplate.poses.defaultBackground,
+                colour: mainPieceColour(currentTryOnMode, chosenPieceColours),
+                tryOnMode: outfitType(currentTryOnMode).promptName,
+                outfit,
+                aspectRatio: selectedAspectRatio,
+                poseCount,
+            };
+            let basePrompt = renderTemplate(activeTemplate.poses.base, variables);
+            // Briefs written before {{outfit}} existed still learn about the garment photos.
+            if (hasGarmentPhotos(currentTryOnMode, garments) && !/\{\{\s*outfit\s*\}\}/.test(activeTemplate.poses.base)) {
+                basePrompt += `\n${outfit}`;
+            }
+            const poses = activeTemplate.poses.presets.slice(0, poseCount).map(preset => ({
+                title: preset.title,
+                prompt: renderTemplate(preset.prompt, variables),
+            }));
+
+            const promises = poses.map(pose =>
+                jobQueue.submit(pose.title, {
+                    mode: 'pose',
+                    prompts: [`${basePrompt} ${pose.prompt}`],
+                    garments: buildSharedTryOnGarments(currentTryOnMode, garments),
+                    modelReferences: libraryReferences(),
+                    aspectRatio: selectedAspectRatio,
+                }, signal)
             );
 
             const results = await Promise.allSettled(promises);
 
             generatedModelImageUrls = [];
+            resultGrid.innerHTML = '';
+
+            const savedImages: HistoryImage[] = [];
 
             results.forEach((result, index) => {
                 const pose = poses[index];
-                const itemContainer = document.createElement('div');
-                itemContainer.className = 'result-item-container';
-
-                if (result.status === 'fulfilled') {
-                    const response = result.value;
-                    let imageUrl = '';
-                    let mimeType = 'image/png';
-                    let foundImage = false;
-
-                    if (response.candidates?.[0]?.content?.parts) {
-                        for (const part of response.candidates[0].content.parts) {
-                            if (part.inlineData) {
-                                const base64ImageBytes: string = part.inlineData.data;
-                                mimeType = part.inlineData.mimeType;
-                                imageUrl = `data:${mimeType};base64,${base64ImageBytes}`;
-                                foundImage = true;
-                                break;
-                            }
-                        }
-                    }
-
-                    if (foundImage) {
-                        generatedModelImageUrls.push({ url: imageUrl, title: pose.title });
-                        
-                        const img = document.createElement('img');
-                        img.src = imageUrl;
-                        img.alt = `Generated image for ${pose.title}`;
-                        img.style.aspectRatio = selectedAspectRatio.replace(':', ' / ');
-                        
-                        const infoDiv = document.createElement('div');
-                        infoDiv.className = 'result-item-info';
-                        
-                        const titleEl = document.createElement('h3');
-                        titleEl.textContent = pose.title;
-                        
-                        const downloadPoseBtn = document.createElement('button');
-                        downloadPoseBtn.className = 'download-pose-btn';
-                        downloadPoseBtn.textContent = 'Download';
-                        downloadPoseBtn.onclick = () => {
-                            const link = document.createElement('a');
-                            link.href = imageUrl;
-                            link.download = `model-pose-${pose.title.toLowerCase().replace(/\s/g, '-')}.png`;
-                            link.click();
-                        };
-                        
-                        infoDiv.appendChild(titleEl);
-                        infoDiv.appendChild(downloadPoseBtn);
-                        itemContainer.appendChild(img);
-                        itemContainer.appendChild(infoDiv);
-                    } else {
-                         console.error(`No image returned for ${pose.title}`);
-                         itemContainer.innerHTML = `<div class="result-item-info"><h3>${pose.title}</h3> <p class="error-message">Failed</p></div>`;
-                    }
+                const generated = result.status === 'fulfilled' ? result.value.images[0] : undefined;
+
+                if (generated) {
+                    savedImages.push({ title: pose.title, prompt: `${basePrompt} ${pose.prompt}`, image: generated });
+                } else if (result.status === 'fulfilled') {
+                    console.error(`No image returned for ${pose.title}`);
                 } else {
                     console.error(`Failed to generate image for ${pose.title}:`, result.reason);
-                    itemContainer.innerHTML = `<div class="result-item-info"><h3>${pose.title}</h3> <p class="error-message">Failed</p></div>`;
                 }
-                resultGrid.appendChild(itemContainer);
+                renderResultTile(pose.title, generated ? toDataUrl(generated) : null, {
+                    failure: result.status === 'rejected' ? result.reason : undefined,
+                });
             });
 
+            lastHistoryEntry = await saveToHistory(inputs, savedImages);
+
             if (generatedModelImageUrls.length > 0) {
-                downloadBtn.textContent = `Download All ${generatedModelImageUrls.length} Poses`;
+                downloadBtn.textContent = `Download ${generatedModelImageUrls.length} Poses (.zip)`;
                 downloadBtn.classList.remove('hidden');
             }
 
         } catch (error) {
             console.error('Error generating model poses:', error);
-            resultPlaceholder.textContent = 'Sorry, an error occurred while generating the poses. Please try again.';
+            resultPlaceholder.replaceChildren(renderGenerationFailure(error));
             resultPlaceholder.style.display = 'block';
             resultGrid.classList.add('hidden');
         } finally {
+            generationController = null;
             loader.style.display = 'none';
             updateGenerateButtonState();
         }
     };
     
+    cancelGenerationBtn.addEventListener('click', () => generationController?.abort());
+
     generateBtn.addEventListener('click', async () => {
         if (currentAppMode === 'virtual-try-on') {
             await generateVirtualTryOnImage();
@@ -740,38 +4058,232 @@ function initializeApp() {
     });
 
     downloadBtn.addEventListener('click', () => {
-        if (currentAppMode === 'virtual-try-on') {
-            if (resultImage.src && !resultImage.src.endsWith('#')) {
-                const link = document.createElement('a');
-                link.href = resultImage.src;
-                link.download = `virtual-try-on-${Date.now()}.png`;
-                document.body.appendChild(link);
-                link.click();
-                document.body.removeChild(link);
-            }
-        } else if (currentAppMode === 'model-generation') {
-            if (generatedModelImageUrls.length > 0) {
-                generatedModelImageUrls.forEach((image, index) => {
-                    // Stagger downloads to avoid browser blocking
-                    setTimeout(() => {
-                        const link = document.createElement('a');
-                        link.href = image.url;
-                        link.download = `model-pose-${image.title.toLowerCase().replace(/\s/g, '-')}.png`;
-                        document.body.appendChild(link);
-                        link.click();
-                        document.body.removeChild(link);
-                    }, index * 300);
-                });
-            }
+        const showingGrid = !resultGrid.classList.contains('hidden');
+        if (currentAppMode === 'virtual-try-on' && !showingGrid) {
+            if (resultImage.src && !resultImage.src.endsWith('#')) downloadShownImage(resultImage.src, 'Virtual Try-On', 0);
+        } else if (lastHistoryEntry) {
+            const label = currentAppMode === 'virtual-try-on' ? 'virtual-try-on-variants' : 'model-poses';
+            downloadExportArchive(exportItemsFromEntry(lastHistoryEntry), userService.getCurrentUser()?.username ?? '', label);
+        }
+    });
+
+    lookbookAddBtn.addEventListener('click', () => {
+        const showingGrid = !resultGrid.classList.contains('hidden');
+        if (currentAppMode === 'virtual-try-on' && !showingGrid) {
+            const item = resultImage.src && !resultImage.src.endsWith('#') ? shownExportItem(resultImage.src, 'Virtual Try-On', 0) : null;
+            if (item) addToLookbook([item]);
+        } else if (lastHistoryEntry) {
+            addToLookbook(exportItemsFromEntry(lastHistoryEntry));
         }
     });
 
     updateGenerateButtonState(); // Initial setup
 }
 
+// --- GENERATION QUEUE PANEL ---
+const JOB_STATUS_LABELS: { [status in GenerationJob['status']]: string } = {
+    queued: 'Queued',
+    running: 'Running',
+    waiting: 'Retrying',
+    succeeded: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+function initializeJobQueuePanel() {
+    const toggleBtn = document.getElementById('job-queue-btn') as HTMLButtonElement;
+    const countEl = document.getElementById('job-queue-count') as HTMLSpanElement;
+    const panel = document.getElementById('job-queue-panel') as HTMLElement;
+    const listEl = document.getElementById('job-queue-list') as HTMLUListElement;
+    const emptyEl = document.getElementById('job-queue-empty') as HTMLParagraphElement;
+    const concurrencySelect = document.getElementById('job-queue-concurrency') as HTMLSelectElement;
+    const cancelAllBtn = document.getElementById('job-queue-cancel-all') as HTMLButtonElement;
+    const clearBtn = document.getElementById('job-queue-clear') as HTMLButtonElement;
+    let countdown: ReturnType<typeof setInterval> | null = null;
+
+    const describeJob = (job: GenerationJob) => {
+        if (job.status === 'waiting' && job.retryAt) {
+            const seconds = Math.max(0, Math.ceil((job.retryAt - Date.now()) / 1000));
+            return `Retrying in ${seconds}s (attempt ${job.attempts + 1})`;
+        }
+        if (job.status === 'failed') return job.error ?? JOB_STATUS_LABELS.failed;
+        return job.attempts > 1 && job.status === 'running' ? `Running (attempt ${job.attempts})` : JOB_STATUS_LABELS[job.status];
+    };
+
+    const render = (jobs: GenerationJob[]) => {
+        const active = jobs.filter(job => !isFinished(job)).length;
+        countEl.textContent = String(active);
+        countEl.classList.toggle('hidden', active === 0);
+        emptyEl.classList.toggle('hidden', jobs.length > 0);
+        cancelAllBtn.disabled = active === 0;
+        clearBtn.disabled = active === jobs.length;
+
+        listEl.innerHTML = '';
+        [...jobs].reverse().forEach(job => {
+            const li = document.createElement('li');
+            li.className = `job-queue-item job-${job.status}`;
+            const info = document.createElement('div');
+            const label = document.createElement('strong');
+            label.textContent = `${job.label} · ${job.mode === 'pose' ? 'Pose' : 'Try-on'}`;
+            const status = document.createElement('span');
+            status.className = 'job-queue-status';
+            status.textContent = describeJob(job);
+            info.append(label, status);
+            li.appendChild(info);
+            if (!isFinished(job)) {
+                const cancel = document.createElement('button');
+                cancel.type = 'button';
+                cancel.className = 'delete-btn';
+                cancel.textContent = 'Cancel';
+                cancel.onclick = () => jobQueue.cancel(job.id);
+                li.appendChild(cancel);
+            }
+            listEl.appendChild(li);
+        });
+
+        // Keep the retry countdowns moving while any job is waiting.
+        const waiting = jobs.some(job => job.status === 'waiting');
+        if (waiting && !countdown) countdown = setInterval(() => render(jobQueue.jobs()), 1000);
+        if (!waiting && countdown) {
+            clearInterval(countdown);
+            countdown = null;
+        }
+    };
+
+    toggleBtn.addEventListener('click', () => {
+        const open = !panel.classList.toggle('hidden');
+        toggleBtn.setAttribute('aria-expanded', String(open));
+    });
+    concurrencySelect.value = String(jobQueue.getConcurrency());
+    concurrencySelect.addEventListener('change', () => {
+        jobQueue.setConcurrency(Number(concurrencySelect.value));
+        localStorage.setItem(QUEUE_CONCURRENCY_KEY, concurrencySelect.value);
+    });
+    cancelAllBtn.addEventListener('click', () => jobQueue.cancelAll());
+    clearBtn.addEventListener('click', () => jobQueue.clearFinished());
+    jobQueue.subscribe(render);
+}
+
+// --- SESSION TIMEOUTS ---
+// Mirrors the server's limits (server/sessions.ts): a session ends after
+// SESSION_IDLE_MS without activity and, in any case, at its absolute expiry. The
+// user is warned before either, and sent back to sign in when one passes. Activity
+// is reported with a keep-alive whose time is shared through localStorage, so an
+// idle tab does not sign out one in use. "Remember me" sessions never go idle.
+const SESSION_WARNING_MS = 2 * 60 * 1000;
+const KEEP_ALIVE_INTERVAL_MS = 60 * 1000;
+const KEEP_ALIVE_STORAGE_KEY = 'virtual-try-on-keepalive';
+let activeSession: SessionInfo | null = null;
+let sessionTimer: ReturnType<typeof setInterval> | null = null;
+let isKeepAliveInFlight = false;
+let isExpiryWarningDismissed = false;
+
+const lastKeepAlive = () => Number(localStorage.getItem(KEEP_ALIVE_STORAGE_KEY)) || 0;
+
+const formatCountdown = (ms: number) => {
+    const seconds = Math.max(0, Math.ceil(ms / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+function startSessionTimeouts(session: SessionInfo) {
+    activeSession = session;
+    isExpiryWarningDismissed = false;
+    localStorage.setItem(KEEP_ALIVE_STORAGE_KEY, String(Date.now()));
+    if (!sessionTimer) sessionTimer = setInterval(checkSessionTimeouts, 1000);
+}
+
+function stopSessionTimeouts() {
+    activeSession = null;
+    if (sessionTimer) {
+        clearInterval(sessionTimer);
+        sessionTimer = null;
+    }
+    const dialog = document.getElementById('session-warning') as HTMLDialogElement;
+    if (dialog.open) dialog.close();
+}
+
+// Asking for the profile counts as activity on the server.
+async function keepSessionAlive() {
+    if (!activeSession || isKeepAliveInFlight) return;
+    isKeepAliveInFlight = true;
+    const response = await apiRequest<{ user: AppUser; session: SessionInfo | null }>('/auth/me');
+    isKeepAliveInFlight = false;
+    if (!activeSession) return; // signed out meanwhile
+    if (response.ok && response.data.session) {
+        userService.login(response.data.user);
+        activeSession = response.data.session;
+        localStorage.setItem(KEEP_ALIVE_STORAGE_KEY, String(Date.now()));
+    } else if (response.status === 401) {
+        endSession('Your session has ended. Please sign in again.');
+    }
+}
+
+async function endSession(message: string) {
+    jobQueue.cancelAll();
+    await userService.logout();
+    window.location.hash = '#login';
+    router.handleRouteChange();
+    (document.getElementById('login-error') as HTMLParagraphElement).textContent = message;
+}
+
+function checkSessionTimeouts() {
+    if (!activeSession) return;
+    const dialog = document.getElementById('session-warning') as HTMLDialogElement;
+    const now = Date.now();
+    const idleAt = activeSession.idleTimeoutMs === null ? Infinity : lastKeepAlive() + activeSession.idleTimeoutMs;
+    const endsAt = Math.min(idleAt, activeSession.expiresAt);
+    if (endsAt <= now) {
+        endSession(idleAt <= now
+            ? 'You were signed out after a period of inactivity.'
+            : 'Your session has expired. Please sign in again.');
+        return;
+    }
+
+    const isIdleWarning = idleAt - now <= SESSION_WARNING_MS && idleAt <= activeSession.expiresAt;
+    const isExpiryWarning = !isIdleWarning && activeSession.expiresAt - now <= SESSION_WARNING_MS && !isExpiryWarningDismissed;
+    if (!isIdleWarning && !isExpiryWarning) {
+        // e.g. another tab kept the session alive
+        if (dialog.open) dialog.close();
+        return;
+    }
+    dialog.dataset.kind = isIdleWarning ? 'idle' : 'expiry';
+    (document.getElementById('session-warning-message') as HTMLParagraphElement).textContent = isIdleWarning
+        ? `You have been inactive for a while. You will be signed out in ${formatCountdown(idleAt - now)}.`
+        : `Your session ends in ${formatCountdown(activeSession.expiresAt - now)}. Save your work, then sign in again to continue.`;
+    (document.getElementById('session-warning-stay') as HTMLButtonElement).textContent = isIdleWarning ? 'Stay Signed In' : 'Continue';
+    if (!dialog.open) dialog.showModal();
+}
+
+function initializeSessionWarning() {
+    const dialog = document.getElementById('session-warning') as HTMLDialogElement;
+    const stay = () => {
+        if (dialog.dataset.kind === 'expiry') isExpiryWarningDismissed = true;
+        else keepSessionAlive();
+        dialog.close();
+    };
+    (document.getElementById('session-warning-stay') as HTMLButtonElement).addEventListener('click', stay);
+    (document.getElementById('session-warning-signout') as HTMLButtonElement).addEventListener('click', () => {
+        endSession('You have signed out.');
+    });
+    dialog.addEventListener('cancel', (e) => {
+        e.preventDefault();
+        stay();
+    });
+
+    // Clicks and typing count as activity, reported at most once a minute.
+    const onActivity = () => {
+        if (activeSession && !dialog.open && Date.now() - lastKeepAlive() >= KEEP_ALIVE_INTERVAL_MS) keepSessionAlive();
+    };
+    document.addEventListener('pointerdown', onActivity);
+    document.addEventListener('keydown', onActivity);
+}
+
 // --- EVENT LISTENERS & APP START ---
-document.addEventListener('DOMContentLoaded', () => {
-    userService.init();
+document.addEventListener('DOMContentLoaded', async () => {
+    initializeSessionWarning();
+    await userService.init();
+    initializeJobQueuePanel();
+    initializeExportSettings();
 
     // --- Sidebar Navigation Logic ---
     const menuIcon = document.querySelector('.menu-icon') as HTMLElement;
@@ -807,49 +4319,51 @@ document.addEventListener('DOMContentLoaded', () => {
             link.addEventListener('click', closeDrawer);
         });
 
-        logoutBtn.addEventListener('click', () => {
+        logoutBtn.addEventListener('click', async () => {
             closeDrawer();
-            userService.logout();
+            jobQueue.cancelAll();
+            await userService.logout();
             window.location.hash = '#login';
             router.handleRouteChange();
         });
     }
 
-    (document.getElementById('login-form') as HTMLFormElement).addEventListener('submit', (e) => {
+    (document.getElementById('login-form') as HTMLFormElement).addEventListener('submit', async (e) => {
         e.preventDefault();
         const username = (document.getElementById('username') as HTMLInputElement).value;
         const password = (document.getElementById('password') as HTMLInputElement).value;
         const isAdminLogin = (document.getElementById('admin-login-checkbox') as HTMLInputElement).checked;
+        const remember = (document.getElementById('remember-me') as HTMLInputElement).checked;
         const errorEl = document.getElementById('login-error') as HTMLParagraphElement;
         
         errorEl.textContent = '';
 
-        if (isAdminLogin) {
-            // Admin login flow
-            if (username.toLowerCase() === 'xhkusman4@gmail.com' && password === 'Usman456321@') {
-                userService.login(username);
-                window.location.hash = '#admin';
-                router.handleRouteChange();
-            } else {
-                errorEl.textContent = 'Access Denied.';
-            }
-        } else {
-            // Normal user login flow
-            const authResult = userService.authenticate(username, password);
-            if (authResult.success) {
-                userService.login(username);
-                window.location.hash = '#app';
-                router.handleRouteChange();
-            } else {
-                errorEl.textContent = 'Invalid username or password.';
-            }
+        const authResult = await userService.authenticate(username, password, remember);
+        if (!authResult.success || !authResult.user || !authResult.session) {
+            // Admin sign-in stays vague about bad credentials, but a lockout says how long to wait.
+            errorEl.textContent = isAdminLogin && !authResult.isLockedOut ? 'Access Denied.' : authResult.message ?? '';
+            return;
+        }
+
+        if (isAdminLogin && !hasPermission(authResult.user, 'manage-users')) {
+            // Admin login flow: a valid non-admin account still gets no session here
+            await userService.logout();
+            errorEl.textContent = 'Access Denied.';
+            return;
         }
+
+        userService.login(authResult.user, remember);
+        startSessionTimeouts(authResult.session);
+        window.location.hash = isAdminLogin ? '#admin' : hasPermission(authResult.user, 'generate') ? '#app' : defaultRouteFor(authResult.user);
+        router.handleRouteChange();
     });
     
     // --- Admin Panel Logic ---
     const createUserForm = document.getElementById('create-user-form') as HTMLFormElement;
     const newUserEmailInput = document.getElementById('new-user-email') as HTMLInputElement;
     const newUserPasswordInput = document.getElementById('new-user-password') as HTMLInputElement;
+    const newUserRoleSelect = document.getElementById('new-user-role') as HTMLSelectElement;
+    const newUserExpiresInput = document.getElementById('new-user-expires') as HTMLInputElement;
     const createUserBtn = document.getElementById('create-user-btn') as HTMLButtonElement;
     const adminMessageEl = document.getElementById('admin-message') as HTMLParagraphElement;
     const userSearchInput = document.getElementById('user-search-input') as HTMLInputElement;
@@ -863,12 +4377,14 @@ document.addEventListener('DOMContentLoaded', () => {
     newUserEmailInput.addEventListener('input', validateCreateUserForm);
     newUserPasswordInput.addEventListener('input', validateCreateUserForm);
 
-    createUserForm.addEventListener('submit', (e) => {
+    createUserForm.addEventListener('submit', async (e) => {
         e.preventDefault();
         const email = newUserEmailInput.value;
         const password = newUserPasswordInput.value;
 
-        const result = userService.createUser(email, password);
+        const role = isRole(newUserRoleSelect.value) ? newUserRoleSelect.value : DEFAULT_ROLE;
+
+        const result = await userService.createUser(email, password, role, newUserExpiresInput.value || null);
 
         if (result.success) {
             adminMessageEl.textContent = result.message;
@@ -883,9 +4399,156 @@ document.addEventListener('DOMContentLoaded', () => {
     });
     
     userSearchInput.addEventListener('input', () => {
+        userTable.page = 0;
+        displayUserList(userSearchInput.value);
+    });
+    (document.getElementById('user-status-filter') as HTMLSelectElement).addEventListener('change', () => {
+        userTable.page = 0;
+        displayUserList(userSearchInput.value);
+    });
+    document.querySelectorAll<HTMLButtonElement>('#user-list-table .sort-btn').forEach(button => {
+        button.addEventListener('click', () => {
+            const key = button.dataset.sort as UserSortKey;
+            userTable.descending = userTable.sort === key && !userTable.descending;
+            userTable.sort = key;
+            userTable.page = 0;
+            displayUserList(userSearchInput.value);
+        });
+    });
+    (document.getElementById('user-page-prev') as HTMLButtonElement).addEventListener('click', () => {
+        userTable.page = Math.max(0, userTable.page - 1);
+        displayUserList(userSearchInput.value);
+    });
+    (document.getElementById('user-page-next') as HTMLButtonElement).addEventListener('click', () => {
+        userTable.page++;
+        displayUserList(userSearchInput.value);
+    });
+
+    (document.getElementById('user-export-btn') as HTMLButtonElement).addEventListener('click', () => {
+        const blob = new Blob([serializeUsersCsv(listedUsers)], { type: 'text/csv' });
+        downloadBlob(blob, `users-${usageDay()}.csv`);
+        userService.recordDownload('users-csv', 1, `users-${usageDay()}.csv`);
+    });
+    const userImportInput = document.getElementById('user-import-input') as HTMLInputElement;
+    userImportInput.addEventListener('change', async () => {
+        const file = userImportInput.files?.[0];
+        userImportInput.value = '';
+        if (!file) return;
+        const { rows, problems } = parseUserImport(await file.text());
+        if (problems.length > 0) {
+            alert(`Nothing was imported. Fix these lines and try again:\n\n${problems.slice(0, 10).join('\n')}${problems.length > 10 ? `\n…and ${problems.length - 10} more.` : ''}`);
+            return;
+        }
+        if (rows.length === 0) {
+            showAdminMessage('The CSV has no users.', false);
+            return;
+        }
+        if (!confirm(`Create ${rows.length} user${rows.length === 1 ? '' : 's'} from ${file.name}? Existing usernames are skipped.`)) return;
+        const result = await userService.importUsers(rows);
+        showAdminMessage(result.message, result.success);
+        const issued = result.results.flatMap(r => r.password ? [{ username: r.username, password: r.password }] : []);
+        if (issued.length > 0) {
+            // Each temporary password must be changed at first sign-in.
+            downloadBlob(new Blob([serializeIssuedPasswordsCsv(issued)], { type: 'text/csv' }), `user-import-passwords-${usageDay()}.csv`);
+        }
+        const failed = result.results.filter(r => r.status === 'failed');
+        if (failed.length > 0) alert(`Not created:\n\n${failed.map(r => `${r.username || '(no username)'}: ${r.message}`).join('\n')}`);
+        displayUserList(userSearchInput.value);
+    });
+
+    const userEditor = document.getElementById('user-editor') as HTMLDialogElement;
+    (document.getElementById('user-editor-cancel') as HTMLButtonElement).addEventListener('click', () => userEditor.close());
+    (document.getElementById('user-editor-save') as HTMLButtonElement).addEventListener('click', async () => {
+        const username = userEditor.dataset.username ?? '';
+        const disabledBox = document.getElementById('user-editor-disabled') as HTMLInputElement;
+        const result = await userService.updateUser(username, {
+            displayName: (document.getElementById('user-editor-name') as HTMLInputElement).value,
+            note: (document.getElementById('user-editor-note') as HTMLTextAreaElement).value,
+            expiresOn: (document.getElementById('user-editor-expires') as HTMLInputElement).value || null,
+            ...(disabledBox.disabled ? {} : { disabled: disabledBox.checked }),
+        });
+        if (!result.success) {
+            (document.getElementById('user-editor-error') as HTMLParagraphElement).textContent = result.message;
+            return;
+        }
+        userEditor.close();
+        showAdminMessage(result.message, true);
         displayUserList(userSearchInput.value);
     });
 
+    // --- Account: change password ---
+    const changePasswordForm = document.getElementById('change-password-form') as HTMLFormElement;
+    changePasswordForm.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const messageEl = document.getElementById('change-password-message') as HTMLParagraphElement;
+        const newPassword = (document.getElementById('new-password') as HTMLInputElement).value;
+        if (newPassword !== (document.getElementById('confirm-password') as HTMLInputElement).value) {
+            messageEl.textContent = 'The new passwords do not match.';
+            messageEl.style.color = 'var(--c-primary)';
+            return;
+        }
+        const wasForced = !!userService.getCurrentUser()?.mustChangePassword;
+        const result = await userService.changePassword((document.getElementById('current-password') as HTMLInputElement).value, newPassword);
+        messageEl.textContent = result.message;
+        messageEl.style.color = result.success ? 'var(--c-success)' : 'var(--c-primary)';
+        if (!result.success) return;
+        changePasswordForm.reset();
+        if (wasForced) {
+            window.location.hash = defaultRouteFor(userService.getCurrentUser());
+        }
+        displayAccountDetails();
+    });
+
+    (document.getElementById('usage-range') as HTMLSelectElement).addEventListener('change', () => displayUsage());
+    (document.getElementById('session-refresh-btn') as HTMLButtonElement).addEventListener('click', () => displaySessions());
+    (document.getElementById('usage-export-btn') as HTMLButtonElement).addEventListener('click', () => {
+        const blob = new Blob([serializeUsageCsv(usageRecords)], { type: 'text/csv' });
+        downloadBlob(blob, `usage-${usageRange.from}-to-${usageRange.to}.csv`);
+        userService.recordDownload('usage-csv', 1, `usage-${usageRange.from}-to-${usageRange.to}.csv`);
+    });
+    (document.getElementById('diagnostic-kind-filter') as HTMLSelectElement).addEventListener('change', () => displayDiagnostics());
+    (document.getElementById('diagnostic-export-btn') as HTMLButtonElement).addEventListener('click', () => {
+        const blob = new Blob([serializeDiagnostics(diagnosticEntries)], { type: 'application/json' });
+        downloadBlob(blob, `diagnostics-${new Date().toISOString().slice(0, 10)}.json`);
+    });
+    (document.getElementById('diagnostic-clear-btn') as HTMLButtonElement).addEventListener('click', async () => {
+        if (!confirm('Clear the diagnostic log in this browser?')) return;
+        try {
+            await diagnosticLog.clear();
+        } catch (error) {
+            console.error('Could not clear the diagnostic log:', error);
+        }
+        displayDiagnostics();
+    });
+
+    // --- History Page Logic ---
+    const historySearchInput = document.getElementById('history-search-input') as HTMLInputElement;
+    historySearchInput.addEventListener('input', () => {
+        displayHistory(historySearchInput.value);
+    });
+    (document.getElementById('history-export-btn') as HTMLButtonElement).addEventListener('click', () => {
+        exportHistoryEntries(historyEntries.filter(entry => historySelection.has(entry.id)), 'history-selection');
+    });
+    (document.getElementById('history-project-filter') as HTMLSelectElement).addEventListener('change', (e) => {
+        historyProjectFilter = (e.target as HTMLSelectElement).value;
+        displayHistory(historySearchInput.value);
+    });
+
+    // --- Projects ---
+    ['header-project-select', 'nav-project-select'].forEach(id => {
+        (document.getElementById(id) as HTMLSelectElement).addEventListener('change', (e) => switchProject((e.target as HTMLSelectElement).value || null));
+    });
+    document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') saveProjectWorkspace?.();
+    });
+    (document.getElementById('history-lookbook-btn') as HTMLButtonElement).addEventListener('click', () => {
+        addToLookbook(historyEntries.filter(entry => historySelection.has(entry.id)).flatMap(exportItemsFromEntry));
+    });
+
+    (document.getElementById('lookbook-public-print') as HTMLButtonElement).addEventListener('click', () => {
+        (document.getElementById('lookbook-public-frame') as HTMLIFrameElement).contentWindow?.print();
+    });
+
     window.addEventListener('hashchange', router.handleRouteChange);
     router.handleRouteChange();
 });
\ No newline at end of file
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+import { AuditEvent, DOWNLOAD_KINDS, isAuditAction } from '../services/audit';
+import { requirePermission, requireUser } from './auth';
+import { config } from './config';
+import { HttpError, parseDayRange, readJsonObject, Route, sendJson } from './http';
+
+// --- AUDIT LOG ---
+// One JSON event per line in audit.jsonl. Unlike the other stores (jsonStore.ts)
+// the file is only ever appended to: nothing in the server rewrites or deletes an
+// event, so an admin cannot tidy away what they did.
+
+const file = path.join(config.dataDir, 'audit.jsonl');
+
+const DEFAULT_RANGE_DAYS = 7;
+// Newest first; a wider query is cut here and says so.
+const MAX_EVENTS = 5000;
+const DOWNLOAD_BODY_LIMIT = 4 * 1024;
+
+const readEvents = (): AuditEvent[] => {
+    if (!existsSync(file)) return [];
+    return readFileSync(file, 'utf8').split('\n').flatMap(line => {
+        if (!line.trim()) return [];
+        try {
+            return [JSON.parse(line) as AuditEvent];
+        } catch {
+            return []; // a line cut short by a crash
+        }
+    });
+};
+
+export const auditLog = {
+    /** Appends an event stamped with the current time and, given a request, the client address. */
+    record: (req: IncomingMessage | null, event: Omit<AuditEvent, 'at' | 'ip'>) => {
+        const ip = req?.socket.remoteAddress;
+        const entry: AuditEvent = { at: new Date().toISOString(), ...event, ...(ip ? { ip } : {}) };
+        try {
+            mkdirSync(config.dataDir, { recursive: true });
+            appendFileSync(file, `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+        } catch (error) {
+            // Auditing must never take down the request it describes.
+            console.error('Could not write the audit log:', error);
+        }
+    },
+    /** Events between the UTC days `from` and `to`, inclusive, newest first. */
+    query: (filter: { from: string; to: string; actor?: string; action?: string }) => {
+        const actor = filter.actor?.trim().toLowerCase();
+        const matches = readEvents()
+            .filter(event => {
+                const day = event.at.slice(0, 10);
+                return day >= filter.from && day <= filter.to
+                    && (!filter.action || event.action === filter.action)
+                    && (!actor || event.actor.includes(actor) || !!event.target?.includes(actor));
+            })
+            .reverse();
+        return { events: matches.slice(0, MAX_EVENTS), truncated: matches.length > MAX_EVENTS };
+    },
+};
+
+const auditReport = async (req: IncomingMessage, res: ServerResponse) => {
+    requirePermission(req, 'manage-users');
+    const { from, to } = parseDayRange(req, DEFAULT_RANGE_DAYS);
+    const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    const action = query.get('action') ?? '';
+    if (action && !isAuditAction(action)) throw new HttpError(400, 'Unknown action.');
+    sendJson(res, 200, { from, to, ...auditLog.query({ from, to, action, actor: query.get('user') ?? '' }) });
+};
+
+// Downloads are made in the browser, which reports them here.
+const recordDownload = async (req: IncomingMessage, res: ServerResponse) => {
+    const user = requireUser(req);
+    const body = await readJsonObject<{ kind?: string; files?: number; name?: string }>(req, DOWNLOAD_BODY_LIMIT);
+    if (!DOWNLOAD_KINDS.includes(body.kind as typeof DOWNLOAD_KINDS[number])) throw new HttpError(400, 'Unknown download kind.');
+    const files = Number.isInteger(body.files) && (body.files as number) > 0 ? body.files as number : 1;
+    auditLog.record(req, {
+        actor: user.username,
+        action: 'download',
+        outcome: 'success',
+        details: { kind: body.kind as string, files, name: String(body.name ?? '').slice(0, 200) },
+    });
+    sendJson(res, 200, { ok: true });
+};
+
+export const auditRoutes: Route[] = [
+    { method: 'GET', pattern: '/api/audit', handler: auditReport },
+    { method: 'POST', pattern: '/api/audit/downloads', handler: recordDownload },
+];
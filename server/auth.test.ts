@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+// Accounts, sessions and failed sign-ins are kept in DATA_DIR, read when config.ts loads.
+const dataDir = mkdtempSync(path.join(tmpdir(), 'auth-'));
+process.env.DATA_DIR = dataDir;
+process.env.LOGIN_MAX_FAILURES = '3';
+const { authRoutes } = await import('./auth');
+const { HttpError, matchRoute, sendJson } = await import('./http');
+const { userStore } = await import('./users');
+
+const PASSWORD = 'correct horse';
+
+// The auth routes behind a real HTTP server, answering errors like server/index.ts.
+const server = createServer(async (req, res) => {
+    try {
+        const match = matchRoute(authRoutes, req.method ?? 'GET', new URL(req.url ?? '/', 'http://localhost').pathname);
+        if (!match) throw new HttpError(404, 'Not found.');
+        await match.handler(req, res, match.params);
+    } catch (error) {
+        if (!(error instanceof HttpError)) throw error;
+        sendJson(res, error.status, { error: error.message }, error.headers);
+    }
+});
+
+let baseUrl = '';
+
+const post = (pathname: string, body: unknown, cookie = '') =>
+    fetch(`${baseUrl}${pathname}`, { method: 'POST', headers: { 'Content-Type': 'application/json', Cookie: cookie }, body: JSON.stringify(body) });
+
+const signIn = async (username: string, password = PASSWORD) => {
+    const res = await post('/api/auth/login', { username, password });
+    assert.equal(res.status, 200);
+    return res.headers.get('set-cookie')!.split(';')[0];
+};
+
+const me = (cookie: string) => fetch(`${baseUrl}/api/auth/me`, { headers: { Cookie: cookie } });
+
+describe('auth routes', () => {
+    before(async () => {
+        await userStore.create('ayesha@example.com', PASSWORD, 'stylist');
+        await userStore.create('bilal@example.com', PASSWORD, 'stylist');
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+    after(() => {
+        server.close();
+        rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('signs in with the right password and gives the same answer for a wrong one or an unknown user', async () => {
+        const cookie = await signIn('Ayesha@Example.com');
+        assert.equal((await (await me(cookie)).json()).user.username, 'ayesha@example.com');
+        for (const attempt of [{ username: 'ayesha@example.com', password: 'wrong' }, { username: 'nobody@example.com', password: 'wrong' }]) {
+            const res = await post('/api/auth/login', attempt);
+            assert.deepEqual([res.status, await res.json()], [401, { error: 'Invalid username or password.' }]);
+        }
+    });
+
+    it('counts parallel guesses one by one and then refuses even the right password', async () => {
+        const guesses = await Promise.all(Array.from({ length: 6 }, () => post('/api/auth/login', { username: 'bilal@example.com', password: 'wrong' })));
+        assert.deepEqual(guesses.map(res => res.status).sort(), [401, 401, 429, 429, 429, 429]);
+        const res = await post('/api/auth/login', { username: 'bilal@example.com', password: PASSWORD });
+        assert.equal(res.status, 429);
+        assert.ok(Number(res.headers.get('retry-after')) > 0);
+    });
+
+    it('signs out every other session, remembered ones included, on a password change', async () => {
+        const current = await signIn('ayesha@example.com');
+        const other = await signIn('ayesha@example.com');
+        const rememberedRes = await post('/api/auth/login', { username: 'ayesha@example.com', password: PASSWORD, remember: true });
+        const remembered = rememberedRes.headers.get('set-cookie')!.split(';')[0];
+
+        const res = await post('/api/auth/password', { currentPassword: PASSWORD, newPassword: 'battery staple' }, current);
+        assert.equal(res.status, 200);
+        assert.equal((await me(current)).status, 200);
+        assert.equal((await me(other)).status, 401);
+        assert.equal((await me(remembered)).status, 401);
+        await signIn('ayesha@example.com', 'battery staple');
+    });
+});
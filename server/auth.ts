@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { accountStatus, MAX_IMPORT_ROWS, UserImportRow } from '../services/accounts';
+import { hasPermission, isRole, Permission, Role } from '../services/permissions';
+import { isUsageQuota } from '../services/usage';
+import { auditLog } from './audit';
+import { config } from './config';
+import { HttpError, parseCookies, readJsonObject, Route, sendJson, serializeCookie } from './http';
+import { loginGuard } from './loginGuard';
+import { hashPassword, verifyPassword } from './passwords';
+import { idleDeadline, Session, SESSION_COOKIE, sessionStore } from './sessions';
+import { normalizeUsername, PublicUser, StoredUser, temporaryPassword, toPublicUser, UserDetails, userStore } from './users';
+
+// --- AUTHENTICATION & USER ADMIN ROUTES ---
+// Sign-ins, sign-outs and every change an admin makes are written to the audit log.
+// Repeated failed sign-ins are slowed down and then locked out (loginGuard.ts).
+
+const AUTH_BODY_LIMIT = 16 * 1024;
+const IMPORT_BODY_LIMIT = 1024 * 1024;
+
+// Verified against when the username is unknown, so both paths cost one scrypt.
+const dummyHash = hashPassword('not-a-real-account');
+
+const sessionToken = (req: IncomingMessage) => parseCookies(req)[SESSION_COOKIE];
+
+// What the browser needs to warn before the session ends.
+const sessionInfo = (session: Session) => ({
+    expiresAt: session.expiresAt,
+    idleTimeoutMs: session.remember ? null : config.sessionIdleMs,
+    remember: session.remember,
+});
+
+// The signed-in user, even one who still has to replace an admin-issued password.
+const requireSessionUser = (req: IncomingMessage): StoredUser => {
+    const session = sessionStore.get(sessionToken(req));
+    const user = session ? userStore.get(session.username) : null;
+    if (!user || accountStatus(user) !== 'active') throw new HttpError(401, 'Please sign in again.');
+    return user;
+};
+
+/** Resolves the signed-in user from the session cookie, or throws 401. */
+export const requireUser = (req: IncomingMessage): StoredUser => {
+    const user = requireSessionUser(req);
+    if (user.mustChangePassword) throw new HttpError(403, 'Choose a new password to continue.');
+    return user;
+};
+
+export const requirePermission = (req: IncomingMessage, permission: Permission): StoredUser => {
+    const user = requireUser(req);
+    if (!hasPermission(user, permission)) throw new HttpError(403, 'Access to this resource is restricted.');
+    return user;
+};
+
+const checkLoginGuard = (req: IncomingMessage, username: string) => {
+    try {
+        loginGuard.check(username);
+    } catch (error) {
+        auditLog.record(req, { actor: username, action: 'login', outcome: 'failure', details: { reason: 'locked out or throttled' } });
+        throw error;
+    }
+};
+
+const login = async (req: IncomingMessage, res: ServerResponse) => {
+    const body = await readJsonObject<{ username?: string; password?: string; remember?: boolean }>(req, AUTH_BODY_LIMIT);
+    const username = normalizeUsername(String(body.username ?? ''));
+    const password = String(body.password ?? '');
+    const user = await loginGuard.serialize(username, async () => {
+        checkLoginGuard(req, username);
+        const user = userStore.get(username);
+        const valid = await verifyPassword(password, user?.passwordHash ?? await dummyHash);
+        if (!user || !valid) {
+            const locked = loginGuard.fail(username);
+            auditLog.record(req, { actor: username, action: 'login', outcome: 'failure', details: { reason: user ? 'wrong password' : 'unknown user', locked } });
+            if (locked) {
+                throw new HttpError(429, `Invalid username or password. Too many failed attempts: try again in ${Math.ceil(config.loginLockoutMs / 60000)} minutes.`, {
+                    'Retry-After': String(Math.ceil(config.loginLockoutMs / 1000)),
+                });
+            }
+            throw new HttpError(401, 'Invalid username or password.');
+        }
+        // The right password does not count if the account was locked while it was being verified.
+        checkLoginGuard(req, username);
+        // Checked only after the password, so the reply does not reveal which accounts exist.
+        const status = accountStatus(user);
+        if (status !== 'active') auditLog.record(req, { actor: username, action: 'login', outcome: 'failure', details: { reason: `account ${status}` } });
+        if (status === 'deleted') throw new HttpError(401, 'Invalid username or password.');
+        if (status !== 'active') throw new HttpError(403, `This account is ${status}. Contact an administrator.`);
+        loginGuard.clear(user.username);
+        return user;
+    });
+
+    const remember = body.remember === true;
+    const { token, session } = sessionStore.create(user.username, { remember, ip: req.socket.remoteAddress, userAgent: req.headers['user-agent'] });
+    auditLog.record(req, { actor: user.username, action: 'login', outcome: 'success', details: { remember } });
+    sendJson(res, 200, { user: toPublicUser(user), session: sessionInfo(session) }, {
+        // Without "Remember me" the cookie also goes when the browser closes.
+        'Set-Cookie': serializeCookie(SESSION_COOKIE, token, { maxAgeSeconds: remember ? config.rememberMeTtlMs / 1000 : undefined, secure: config.cookieSecure }),
+    });
+};
+
+const logout = async (req: IncomingMessage, res: ServerResponse) => {
+    const session = sessionStore.get(sessionToken(req));
+    if (session) auditLog.record(req, { actor: session.username, action: 'logout', outcome: 'success' });
+    sessionStore.revoke(sessionToken(req));
+    sendJson(res, 200, { ok: true }, {
+        'Set-Cookie': serializeCookie(SESSION_COOKIE, '', { maxAgeSeconds: 0, secure: config.cookieSecure }),
+    });
+};
+
+// The browser calls this while the user is active, which keeps an idle session alive.
+const me = async (req: IncomingMessage, res: ServerResponse) => {
+    const session = sessionStore.get(sessionToken(req), { force: true });
+    const user = requireSessionUser(req);
+    sendJson(res, 200, { user: toPublicUser(user), session: session ? sessionInfo(session) : null });
+};
+
+const listSessions = async (req: IncomingMessage, res: ServerResponse) => {
+    requirePermission(req, 'manage-users');
+    const current = sessionStore.get(sessionToken(req));
+    const sessions = sessionStore.list().map(session => ({
+        id: session.id,
+        username: session.username,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        expiresAt: Math.min(session.expiresAt, idleDeadline(session) ?? Infinity),
+        remember: session.remember,
+        ip: session.ip ?? null,
+        userAgent: session.userAgent ?? null,
+        current: session.id === current?.id,
+    }));
+    sendJson(res, 200, { sessions });
+};
+
+const revokeSession = async (req: IncomingMessage, res: ServerResponse, params: Record<string, string>) => {
+    const admin = requirePermission(req, 'manage-users');
+    const session = sessionStore.revokeId(params.id);
+    if (!session) throw new HttpError(404, 'That session has already ended.');
+    auditLog.record(req, { actor: admin.username, action: 'session-revoke', outcome: 'success', target: session.username, details: { session: session.id } });
+    sendJson(res, 200, { message: `Ended a session of ${session.username}.` });
+};
+
+const changePassword = async (req: IncomingMessage, res: ServerResponse) => {
+    const user = requireSessionUser(req);
+    const body = await readJsonObject<{ currentPassword?: string; newPassword?: string }>(req, AUTH_BODY_LIMIT);
+    const newPassword = String(body.newPassword ?? '');
+    if (!(await verifyPassword(String(body.currentPassword ?? ''), user.passwordHash))) {
+        auditLog.record(req, { actor: user.username, action: 'password-change', outcome: 'failure', details: { reason: 'wrong current password' } });
+        throw new HttpError(400, 'The current password is incorrect.');
+    }
+    if (await verifyPassword(newPassword, user.passwordHash)) throw new HttpError(400, 'Choose a password different from the current one.');
+    const updated = await userStore.changePassword(user.username, newPassword);
+    // Whoever knew the old password is signed out everywhere else, remembered devices included.
+    sessionStore.revokeUser(user.username, { keep: sessionToken(req) });
+    auditLog.record(req, { actor: user.username, action: 'password-change', outcome: 'success' });
+    sendJson(res, 200, { user: toPublicUser(updated), message: 'Password changed. Your other sessions have been signed out.' });
+};
+
+const listUsers = async (req: IncomingMessage, res: ServerResponse) => {
+    requirePermission(req, 'manage-users');
+    const users: PublicUser[] = userStore.list().map(toPublicUser);
+    sendJson(res, 200, { users });
+};
+
+const createUser = async (req: IncomingMessage, res: ServerResponse) => {
+    const admin = requirePermission(req, 'manage-users');
+    const body = await readJsonObject<{ username?: string; password?: string; role?: Role; displayName?: string; expiresOn?: string | null; note?: string }>(req, AUTH_BODY_LIMIT);
+    const user = await userStore.create(String(body.username ?? ''), String(body.password ?? ''), body.role, {
+        displayName: String(body.displayName ?? ''),
+        note: String(body.note ?? ''),
+        expiresOn: body.expiresOn || null,
+    });
+    auditLog.record(req, { actor: admin.username, action: 'user-create', outcome: 'success', target: user.username, details: { role: user.role, expiresOn: user.expiresOn ?? null } });
+    sendJson(res, 201, { user: toPublicUser(user), message: 'User created successfully.' });
+};
+
+const updateUser = async (req: IncomingMessage, res: ServerResponse, params: Record<string, string>) => {
+    const admin = requirePermission(req, 'manage-users');
+    const body = await readJsonObject<UserDetails>(req, AUTH_BODY_LIMIT);
+    const username = normalizeUsername(params.username);
+    if (username === admin.username && body.disabled === true) throw new HttpError(400, 'You cannot disable your own account.');
+    const user = userStore.update(username, {
+        displayName: body.displayName,
+        note: body.note,
+        expiresOn: body.expiresOn === '' ? null : body.expiresOn,
+        disabled: body.disabled,
+    });
+    if (accountStatus(user) !== 'active') sessionStore.revokeUser(user.username);
+    auditLog.record(req, {
+        actor: admin.username,
+        action: 'user-update',
+        outcome: 'success',
+        target: user.username,
+        details: { fields: Object.keys(body).filter(key => ['displayName', 'note', 'expiresOn', 'disabled'].includes(key)).join(' '), expiresOn: user.expiresOn ?? null, disabled: !!user.disabled },
+    });
+    sendJson(res, 200, { user: toPublicUser(user), message: `${user.username} updated.` });
+};
+
+const resetPassword = async (req: IncomingMessage, res: ServerResponse, params: Record<string, string>) => {
+    const admin = requirePermission(req, 'manage-users');
+    const { user, password } = await userStore.resetPassword(params.username);
+    sessionStore.revokeUser(user.username);
+    loginGuard.clear(user.username); // also lifts a lockout
+    auditLog.record(req, { actor: admin.username, action: 'password-reset', outcome: 'success', target: user.username });
+    sendJson(res, 200, { user: toPublicUser(user), password, message: `Temporary password issued for ${user.username}.` });
+};
+
+const deleteUser = async (req: IncomingMessage, res: ServerResponse, params: Record<string, string>) => {
+    const admin = requirePermission(req, 'manage-users');
+    const username = normalizeUsername(params.username);
+    if (username === admin.username) throw new HttpError(400, 'You cannot delete your own account.');
+    const user = userStore.remove(username);
+    sessionStore.revokeUser(username);
+    auditLog.record(req, { actor: admin.username, action: 'user-delete', outcome: 'success', target: username });
+    sendJson(res, 200, { user: toPublicUser(user), message: `User ${username} deleted. It can be restored for ${config.userRestoreDays} days.` });
+};
+
+const restoreUser = async (req: IncomingMessage, res: ServerResponse, params: Record<string, string>) => {
+    const admin = requirePermission(req, 'manage-users');
+    const user = userStore.restore(params.username);
+    auditLog.record(req, { actor: admin.username, action: 'user-restore', outcome: 'success', target: user.username });
+    sendJson(res, 200, { user: toPublicUser(user), message: `User ${user.username} restored.` });
+};
+
+type ImportResult = { username: string; status: 'created' | 'skipped' | 'failed'; message?: string; password?: string };
+
+// Rows are independent: one bad row is reported and the rest are still created.
+const importUsers = async (req: IncomingMessage, res: ServerResponse) => {
+    const admin = requirePermission(req, 'manage-users');
+    const body = await readJsonObject<{ users?: UserImportRow[] }>(req, IMPORT_BODY_LIMIT);
+    if (!Array.isArray(body.users)) throw new HttpError(400, 'Expected a list of users.');
+    if (body.users.length > MAX_IMPORT_ROWS) throw new HttpError(400, `Import at most ${MAX_IMPORT_ROWS} users at a time.`);
+    const results: ImportResult[] = [];
+    for (const row of body.users) {
+        const username = normalizeUsername(String(row?.username ?? ''));
+        if (username && userStore.get(username)) {
+            results.push({ username, status: 'skipped', message: 'Already exists.' });
+            continue;
+        }
+        const issued = row?.password ? null : temporaryPassword();
+        try {
+            const user = await userStore.create(username, issued ?? String(row.password), row?.role, {
+                displayName: String(row?.displayName ?? ''),
+                note: String(row?.note ?? ''),
+                expiresOn: row?.expiresOn || null,
+                mustChangePassword: !!issued,
+            });
+            auditLog.record(req, { actor: admin.username, action: 'user-create', outcome: 'success', target: user.username, details: { role: user.role, expiresOn: user.expiresOn ?? null, via: 'import' } });
+            results.push({ username, status: 'created', ...(issued ? { password: issued } : {}) });
+        } catch (error) {
+            results.push({ username, status: 'failed', message: error instanceof HttpError ? error.message : 'Could not be created.' });
+        }
+    }
+    const created = results.filter(r => r.status === 'created').length;
+    sendJson(res, 200, { results, message: `${created} of ${results.length} users created.` });
+};
+
+const updateRole = async (req: IncomingMessage, res: ServerResponse, params: Record<string, string>) => {
+    const admin = requirePermission(req, 'manage-users');
+    const body = await readJsonObject<{ role?: unknown }>(req, AUTH_BODY_LIMIT);
+    if (!isRole(body.role)) throw new HttpError(400, 'Unknown role.');
+    const previous = userStore.get(params.username)?.role ?? null;
+    const user = userStore.setRole(params.username, body.role);
+    auditLog.record(req, { actor: admin.username, action: 'role-change', outcome: 'success', target: user.username, details: { from: previous, to: user.role } });
+    sendJson(res, 200, { user: toPublicUser(user), message: `${user.username} is now ${user.role === 'admin' ? 'an' : 'a'} ${user.role}.` });
+};
+
+const updateQuota = async (req: IncomingMessage, res: ServerResponse, params: Record<string, string>) => {
+    const admin = requirePermission(req, 'manage-users');
+    const body = await readJsonObject<{ quota?: unknown }>(req, AUTH_BODY_LIMIT);
+    if (!isUsageQuota(body.quota)) throw new HttpError(400, 'Quotas must be whole numbers above zero, or empty for no limit.');
+    const user = userStore.setQuota(params.username, body.quota);
+    auditLog.record(req, { actor: admin.username, action: 'quota-change', outcome: 'success', target: user.username, details: { daily: user.quota?.daily ?? null, monthly: user.quota?.monthly ?? null } });
+    sendJson(res, 200, { user: toPublicUser(user), message: `Quota updated for ${user.username}.` });
+};
+
+export const authRoutes: Route[] = [
+    { method: 'POST', pattern: '/api/auth/login', handler: login },
+    { method: 'POST', pattern: '/api/auth/logout', handler: logout },
+    { method: 'GET', pattern: '/api/auth/me', handler: me },
+    { method: 'POST', pattern: '/api/auth/password', handler: changePassword },
+    { method: 'GET', pattern: '/api/sessions', handler: listSessions },
+    { method: 'DELETE', pattern: '/api/sessions/:id', handler: revokeSession },
+    { method: 'GET', pattern: '/api/users', handler: listUsers },
+    { method: 'POST', pattern: '/api/users', handler: createUser },
+    { method: 'POST', pattern: '/api/users/import', handler: importUsers },
+    { method: 'PUT', pattern: '/api/users/:username', handler: updateUser },
+    { method: 'DELETE', pattern: '/api/users/:username', handler: deleteUser },
+    { method: 'POST', pattern: '/api/users/:username/password-reset', handler: resetPassword },
+    { method: 'POST', pattern: '/api/users/:username/restore', handler: restoreUser },
+    { method: 'PUT', pattern: '/api/users/:username/role', handler: updateRole },
+    { method: 'PUT', pattern: '/api/users/:username/quota', handler: updateQuota },
+];
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+
+// --- SERVER CONFIGURATION ---
+// Values come from the process environment, falling back to the same
+// `.env.local` file Vite reads, so one file configures both halves of the app.
+
+const loadEnvFile = (file: string) => {
+    const values: Record<string, string> = {};
+    if (!existsSync(file)) return values;
+    for (const line of readFileSync(file, 'utf8').split(/\r?\n/)) {
+        const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)\s*$/);
+        if (!match) continue;
+        values[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+    return values;
+};
+
+const fileEnv = loadEnvFile(path.resolve(process.cwd(), '.env.local'));
+const env = (key: string, fallback = '') => process.env[key] ?? fileEnv[key] ?? fallback;
+const numberEnv = (key: string, fallback: number) => {
+    const value = Number(env(key));
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const config = {
+    port: numberEnv('API_PORT', 8787),
+    geminiApiKey: env('GEMINI_API_KEY'),
+    imageProvider: env('IMAGE_PROVIDER', 'gemini'),
+    // Largest JSON body accepted on generation endpoints (base64 images included).
+    maxRequestBytes: numberEnv('MAX_REQUEST_BYTES', 15 * 1024 * 1024),
+    // Largest lookbook accepted for publishing; it carries every image.
+    maxLookbookBytes: numberEnv('MAX_LOOKBOOK_BYTES', 60 * 1024 * 1024),
+    // Room for three garments, five accessories, a model photo, three library
+    // references and a region edit's crop and mask.
+    maxImagesPerRequest: numberEnv('MAX_IMAGES_PER_REQUEST', 14),
+    // Generation calls allowed per user within the rate-limit window.
+    rateLimitMax: numberEnv('RATE_LIMIT_MAX', 20),
+    rateLimitWindowMs: numberEnv('RATE_LIMIT_WINDOW_MS', 60_000),
+    // Estimated price of one generated image, for the admin usage dashboard.
+    costPerImageUsd: numberEnv('COST_PER_IMAGE_USD', 0.039),
+    // Where users.json, sessions.json, usage.json, audit.jsonl and published lookbooks are kept.
+    dataDir: path.resolve(process.cwd(), env('DATA_DIR', '.data')),
+    // The admin account is created from these on first start if it does not exist.
+    adminEmail: env('ADMIN_EMAIL').trim().toLowerCase(),
+    adminPassword: env('ADMIN_PASSWORD'),
+    // A session ends at SESSION_TTL_MS after sign-in, or after SESSION_IDLE_MS without
+    // a request. "Remember me" sessions last REMEMBER_ME_TTL_MS and do not go idle.
+    sessionTtlMs: numberEnv('SESSION_TTL_MS', 8 * 60 * 60 * 1000),
+    sessionIdleMs: numberEnv('SESSION_IDLE_MS', 30 * 60 * 1000),
+    rememberMeTtlMs: numberEnv('REMEMBER_ME_TTL_MS', 30 * 24 * 60 * 60 * 1000),
+    // Failed sign-ins allowed per account within LOGIN_LOCKOUT_MS before it is locked for that long.
+    loginMaxFailures: numberEnv('LOGIN_MAX_FAILURES', 5),
+    loginLockoutMs: numberEnv('LOGIN_LOCKOUT_MS', 15 * 60 * 1000),
+    // How long a deleted account can be restored before it is purged.
+    userRestoreDays: numberEnv('USER_RESTORE_DAYS', 30),
+    // Set COOKIE_SECURE=true when the app is served over HTTPS.
+    cookieSecure: env('COOKIE_SECURE') === 'true',
+};
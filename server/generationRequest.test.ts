@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+// The image limit is read when config.ts loads.
+process.env.MAX_IMAGES_PER_REQUEST = '3';
+const { validateGenerationRequest } = await import('./generationRequest');
+const { HttpError } = await import('./http');
+
+const image = { base64: 'AAAA', mimeType: 'image/png' };
+const garment = { label: 'This is the Kameez:', image };
+
+const body = (changes: Record<string, unknown> = {}) => ({ prompts: ['A model in a green kameez'], garments: [garment], aspectRatio: '3:4', ...changes });
+
+const rejectsWith = (status: number, message: RegExp) => (error: unknown) =>
+    error instanceof HttpError && error.status === status && message.test(error.message);
+
+describe('validateGenerationRequest', () => {
+    it('keeps only the known fields of a valid try-on', () => {
+        assert.deepEqual(validateGenerationRequest(body({ seed: 7, extra: 'ignored', modelImage: null }), 'try-on'), {
+            mode: 'try-on',
+            prompts: ['A model in a green kameez'],
+            garments: [garment],
+            modelImage: null,
+            aspectRatio: '3:4',
+            seed: 7,
+        });
+    });
+
+    it('rejects bodies that are not objects', () => {
+        for (const value of [null, [], 'prompts', 3]) {
+            assert.throws(() => validateGenerationRequest(value, 'try-on'), rejectsWith(400, /must be an object/));
+        }
+    });
+
+    it('names the field that is wrong', () => {
+        const cases: [Record<string, unknown>, RegExp][] = [
+            [{ prompts: [] }, /`prompts`/],
+            [{ prompts: ['ok', 3] }, /`prompts`/],
+            [{ garments: [{ label: 'Kameez', image: { base64: 'AAAA', mimeType: 'text/html' } }] }, /`garments`/],
+            [{ modelImage: 'data:image/png;base64,AAAA' }, /`modelImage`/],
+            [{ modelReferences: [image, {}] }, /`modelReferences`/],
+            [{ aspectRatio: 'wide' }, /`aspectRatio`/],
+            [{ seed: 1.5 }, /`seed`/],
+        ];
+        for (const [changes, message] of cases) {
+            assert.throws(() => validateGenerationRequest(body(changes), 'try-on'), rejectsWith(400, message), JSON.stringify(changes));
+        }
+    });
+
+    it('needs garments for a try-on but not for a pose set or a region edit', () => {
+        assert.throws(() => validateGenerationRequest(body({ garments: [] }), 'try-on'), rejectsWith(400, /at least one garment/));
+        assert.equal(validateGenerationRequest(body({ garments: [] }), 'pose').garments.length, 0);
+    });
+
+    it('needs the image and prompts being refined', () => {
+        assert.throws(() => validateGenerationRequest(body(), 'refine'), rejectsWith(400, /`refine.image`/));
+        const refine = { image, originalPrompts: ['A model in a green kameez'] };
+        assert.deepEqual(validateGenerationRequest(body({ refine, inpaint: { image, mask: image } }), 'refine').refine, refine);
+    });
+
+    it('needs the crop and mask of a region edit', () => {
+        assert.throws(() => validateGenerationRequest(body({ garments: [], inpaint: { image } }), 'inpaint'), rejectsWith(400, /`inpaint.mask`/));
+        const request = validateGenerationRequest(body({ garments: [], inpaint: { image, mask: image } }), 'inpaint');
+        assert.deepEqual(request.inpaint, { image, mask: image });
+        assert.equal(request.refine, undefined);
+    });
+
+    it('counts every image, the refine and inpaint ones included, against the limit', () => {
+        assert.equal(validateGenerationRequest(body({ garments: [garment, garment], modelImage: image }), 'try-on').garments.length, 2);
+        assert.throws(() => validateGenerationRequest(body({ garments: [garment, garment], modelImage: image, modelReferences: [image] }), 'try-on'), rejectsWith(413, /At most 3 images/));
+        assert.throws(() => validateGenerationRequest(body({ garments: [garment, garment], inpaint: { image, mask: image } }), 'inpaint'), rejectsWith(413, /At most 3 images/));
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GenerationMode, ImageGenerationRequest, InlineImage, LabelledImage } from '../services/imageProvider';
+import { isRecord } from '../services/validation';
+import { config } from './config';
+import { HttpError } from './http';
+
+// --- GENERATION REQUESTS ---
+// The body of /api/try-on, /api/pose, /api/refine and /api/inpaint arrives as
+// untrusted JSON; only a fully checked `ImageGenerationRequest` reaches the provider.
+
+const isInlineImage = (value: unknown): value is InlineImage =>
+    isRecord(value) && typeof value.base64 === 'string' && typeof value.mimeType === 'string' && value.mimeType.startsWith('image/');
+
+const isLabelledImage = (value: unknown): value is LabelledImage => isRecord(value) && typeof value.label === 'string' && isInlineImage(value.image);
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+/** Checks a generation body field by field; anything malformed is a 400, too many images a 413. */
+export const validateGenerationRequest = (body: unknown, mode: GenerationMode): ImageGenerationRequest => {
+    if (!isRecord(body)) {
+        throw new HttpError(400, 'Request body must be an object.');
+    }
+    const { prompts, garments, modelImage, modelReferences, aspectRatio, seed, refine, inpaint } = body;
+    if (!isStringArray(prompts) || prompts.length === 0) {
+        throw new HttpError(400, '`prompts` must be a non-empty array of strings.');
+    }
+    if (!Array.isArray(garments) || !garments.every(isLabelledImage)) {
+        throw new HttpError(400, '`garments` must be an array of labelled images.');
+    }
+    if (modelImage != null && !isInlineImage(modelImage)) {
+        throw new HttpError(400, '`modelImage` must be an image.');
+    }
+    const model = isInlineImage(modelImage) ? modelImage : null;
+    const references = modelReferences ?? [];
+    if (!Array.isArray(references) || !references.every(isInlineImage)) {
+        throw new HttpError(400, '`modelReferences` must be an array of images.');
+    }
+    if (typeof aspectRatio !== 'string' || !/^\d+:\d+$/.test(aspectRatio)) {
+        throw new HttpError(400, '`aspectRatio` must look like "16:9".');
+    }
+    if (seed != null && !isInteger(seed)) {
+        throw new HttpError(400, '`seed` must be an integer.');
+    }
+    // Region edits on pose results have no garments to send.
+    if (mode !== 'pose' && mode !== 'inpaint' && garments.length === 0) {
+        throw new HttpError(400, 'A try-on request needs at least one garment image.');
+    }
+    let refineInput: ImageGenerationRequest['refine'];
+    if (mode === 'refine') {
+        if (!isRecord(refine) || !isInlineImage(refine.image) || !isStringArray(refine.originalPrompts)) {
+            throw new HttpError(400, 'A refine request needs `refine.image` and `refine.originalPrompts`.');
+        }
+        refineInput = { image: refine.image, originalPrompts: refine.originalPrompts };
+    }
+    let inpaintInput: ImageGenerationRequest['inpaint'];
+    if (mode === 'inpaint') {
+        if (!isRecord(inpaint) || !isInlineImage(inpaint.image) || !isInlineImage(inpaint.mask)) {
+            throw new HttpError(400, 'An inpaint request needs `inpaint.image` and `inpaint.mask`.');
+        }
+        inpaintInput = { image: inpaint.image, mask: inpaint.mask };
+    }
+    const extraImages = mode === 'refine' ? 1 : mode === 'inpaint' ? 2 : 0;
+    const imageCount = garments.length + (model ? 1 : 0) + references.length + extraImages;
+    if (imageCount > config.maxImagesPerRequest) {
+        throw new HttpError(413, `At most ${config.maxImagesPerRequest} images are allowed per request.`);
+    }
+
+    return {
+        mode,
+        prompts,
+        garments,
+        modelImage: model,
+        ...(references.length > 0 ? { modelReferences: references } : {}),
+        aspectRatio,
+        ...(isInteger(seed) ? { seed } : {}),
+        ...(refineInput ? { refine: refineInput } : {}),
+        ...(inpaintInput ? { inpaint: inpaintInput } : {}),
+    };
+};
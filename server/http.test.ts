@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import type { IncomingMessage } from 'node:http';
+import { describe, it } from 'node:test';
+import { HttpError, matchRoute, parseCookies, Route, serializeCookie } from './http';
+
+const handler = async () => {};
+const routes: Route[] = [
+    { method: 'GET', pattern: '/api/users', handler },
+    { method: 'PUT', pattern: '/api/users/:username', handler },
+];
+
+const withCookie = (cookie: string) => ({ headers: { cookie } }) as IncomingMessage;
+
+describe('matchRoute', () => {
+    it('matches on method and decodes parameters', () => {
+        assert.deepEqual(matchRoute(routes, 'PUT', '/api/users/ayesha%40example.com')?.params, { username: 'ayesha@example.com' });
+        assert.equal(matchRoute(routes, 'GET', '/api/users/ayesha'), null);
+        assert.equal(matchRoute(routes, 'PUT', '/api/users/'), null);
+    });
+
+    it('answers a malformed escape with a 400', () => {
+        assert.throws(() => matchRoute(routes, 'PUT', '/api/users/%E0%A4%A'), (error: unknown) => error instanceof HttpError && error.status === 400);
+    });
+});
+
+describe('parseCookies', () => {
+    it('reads the cookies serializeCookie writes', () => {
+        const cookie = serializeCookie('session', 'a b;c', { secure: false }).split(';')[0];
+        assert.deepEqual(parseCookies(withCookie(`theme=dark; ${cookie}`)), { theme: 'dark', session: 'a b;c' });
+    });
+
+    it('answers a malformed escape with a 400', () => {
+        assert.throws(() => parseCookies(withCookie('session=%')), (error: unknown) => error instanceof HttpError && error.status === 400);
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { DAY_PATTERN } from '../services/accounts';
+import { usageDay } from '../services/usage';
+
+// --- HTTP HELPERS ---
+
+export class HttpError extends Error {
+    status: number;
+    headers: Record<string, string>;
+
+    constructor(status: number, message: string, headers: Record<string, string> = {}) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.headers = headers;
+    }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    const payload = JSON.stringify(body);
+    res.writeHead(status, {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Length': Buffer.byteLength(payload),
+        'Cache-Control': 'no-store',
+        ...headers,
+    });
+    res.end(payload);
+};
+
+/** Reads and parses a JSON body, rejecting anything larger than `maxBytes` with a 413. */
+export const readJsonBody = async <T>(req: IncomingMessage, maxBytes: number): Promise<T> => {
+    const declaredLength = Number(req.headers['content-length'] ?? 0);
+    if (declaredLength > maxBytes) {
+        throw new HttpError(413, `Request body exceeds the ${maxBytes} byte limit.`);
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    for await (const chunk of req) {
+        received += chunk.length;
+        if (received > maxBytes) {
+            throw new HttpError(413, `Request body exceeds the ${maxBytes} byte limit.`);
+        }
+        chunks.push(chunk);
+    }
+
+    if (received === 0) {
+        throw new HttpError(400, 'Request body is required.');
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8')) as T;
+    } catch {
+        throw new HttpError(400, 'Request body must be valid JSON.');
+    }
+};
+
+/** `readJsonBody` for handlers that read named fields: `null`, arrays and bare values are a 400. */
+export const readJsonObject = async <T extends object>(req: IncomingMessage, maxBytes: number): Promise<T> => {
+    const body = await readJsonBody<unknown>(req, maxBytes);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new HttpError(400, 'Request body must be a JSON object.');
+    }
+    return body as T;
+};
+
+/**
+ * The `from` and `to` UTC days of a report query, inclusive. `to` defaults to
+ * today and `from` to `defaultDays` days ending on today.
+ */
+export const parseDayRange = (req: IncomingMessage, defaultDays: number) => {
+    const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    const to = query.get('to') ?? usageDay();
+    const from = query.get('from') ?? usageDay(new Date(Date.now() - (defaultDays - 1) * 24 * 60 * 60 * 1000));
+    if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to) || from > to) {
+        throw new HttpError(400, '`from` and `to` must be dates like 2026-10-19, with `from` first.');
+    }
+    return { from, to };
+};
+
+/** `decodeURIComponent` that answers a malformed escape like `%E0%A4%A` with a 400 instead of throwing. */
+const decodeComponent = (value: string) => {
+    try {
+        return decodeURIComponent(value);
+    } catch (error) {
+        if (error instanceof URIError) throw new HttpError(400, 'Malformed percent-encoding in the request.');
+        throw error;
+    }
+};
+
+export const parseCookies = (req: IncomingMessage) => {
+    const cookies: Record<string, string> = {};
+    (req.headers.cookie ?? '').split(';').forEach(pair => {
+        const index = pair.indexOf('=');
+        if (index > 0) cookies[pair.slice(0, index).trim()] = decodeComponent(pair.slice(index + 1).trim());
+    });
+    return cookies;
+};
+
+/** Without `maxAgeSeconds` the cookie lasts until the browser is closed. */
+export const serializeCookie = (name: string, value: string, options: { maxAgeSeconds?: number; secure: boolean }) =>
+    [
+        `${name}=${encodeURIComponent(value)}`,
+        'Path=/',
+        'HttpOnly',
+        'SameSite=Strict',
+        ...(options.maxAgeSeconds !== undefined ? [`Max-Age=${Math.max(0, Math.floor(options.maxAgeSeconds))}`] : []),
+        ...(options.secure ? ['Secure'] : []),
+    ].join('; ');
+
+export type RouteParams = Record<string, string>;
+export type RouteHandler = (req: IncomingMessage, res: ServerResponse, params: RouteParams) => Promise<void>;
+
+export interface Route {
+    method: string;
+    pattern: string; // e.g. "/api/users/:username"
+    handler: RouteHandler;
+}
+
+export const matchRoute = (routes: Route[], method: string, pathname: string) => {
+    const segments = pathname.split('/');
+    for (const route of routes) {
+        if (route.method !== method) continue;
+        const patternSegments = route.pattern.split('/');
+        if (patternSegments.length !== segments.length) continue;
+        const params: RouteParams = {};
+        const matched = patternSegments.every((segment, i) => {
+            if (segment.startsWith(':')) {
+                params[segment.slice(1)] = decodeComponent(segments[i]);
+                return segments[i] !== '';
+            }
+            return segment === segments[i];
+        });
+        if (matched) return { handler: route.handler, params };
+    }
+    return null;
+};
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { createHash } from 'node:crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { GenerationMode, ImageGenerationRequest } from '../services/imageProvider';
+import { auditLog, auditRoutes } from './audit';
+import { authRoutes, requirePermission } from './auth';
+import { config } from './config';
+import { validateGenerationRequest } from './generationRequest';
+import { HttpError, matchRoute, readJsonBody, Route, sendJson } from './http';
+import { lookbookRoutes } from './lookbooks';
+import { createImageProvider } from './providers';
+import { createRateLimiter } from './rateLimiter';
+import { usageRoutes, usageStore } from './usage';
+import { userStore } from './users';
+
+// --- GENERATION PROXY SERVER ---
+// Holds the Gemini key so it never reaches the browser. The client posts typed
+// `ImageGenerationRequest`s here and receives `ImageGenerationResult`s back.
+// Generation requires a session whose role grants `generate` (see auth.ts), every
+// call is metered against the user's quota (see usage.ts) and each one, refused or
+// not, is written to the audit log (see audit.ts).
+
+const imageProvider = createImageProvider(config.imageProvider, { apiKey: config.geminiApiKey });
+const rateLimiter = createRateLimiter(config.rateLimitMax, config.rateLimitWindowMs);
+setInterval(() => rateLimiter.prune(), config.rateLimitWindowMs).unref();
+
+// The Gemini SDK reports upstream failures as "got status: 429 ..." messages.
+const upstreamStatus = (error: unknown) => {
+    const match = error instanceof Error ? error.message.match(/got status: (\d{3})/) : null;
+    return match ? Number(match[1]) : null;
+};
+
+// Identifies the exact prompts and images sent, without storing them in the audit log.
+const inputsHash = (request: ImageGenerationRequest) => createHash('sha256').update(JSON.stringify(request)).digest('hex');
+
+const handleGenerate = async (req: IncomingMessage, res: ServerResponse, mode: GenerationMode) => {
+    const user = requirePermission(req, 'generate');
+    const audit = (outcome: 'success' | 'failure', details: Record<string, string | number>) =>
+        auditLog.record(req, { actor: user.username, action: 'generation', outcome, details: { mode, ...details } });
+    const decision = rateLimiter.consume(user.username);
+    if (!decision.allowed) {
+        audit('failure', { reason: 'rate limited' });
+        throw new HttpError(429, 'Too many generation requests. Please wait a moment and try again.', {
+            'Retry-After': String(Math.ceil(decision.retryAfterMs / 1000)),
+        });
+    }
+
+    const body = await readJsonBody(req, config.maxRequestBytes);
+    const request = validateGenerationRequest(body, mode);
+    const hash = inputsHash(request);
+    let day: string;
+    try {
+        day = usageStore.begin(user);
+    } catch (error) {
+        audit('failure', { inputsHash: hash, reason: 'quota reached' });
+        throw error;
+    }
+
+    try {
+        const result = await imageProvider.generate(request);
+        usageStore.finish(user.username, day, result.images.length);
+        audit(result.images.length > 0 ? 'success' : 'failure', { inputsHash: hash, prompts: request.prompts.length, images: result.images.length });
+        sendJson(res, 200, result, { 'X-RateLimit-Remaining': String(decision.remaining) });
+    } catch (error) {
+        usageStore.finish(user.username, day, 0);
+        const status = upstreamStatus(error);
+        audit('failure', { inputsHash: hash, prompts: request.prompts.length, reason: status ? `image service ${status}` : 'image service error' });
+        console.error(`[${mode}] provider error:`, error);
+        if (status === 429) throw new HttpError(429, 'The image service quota is exhausted. Please try again later.');
+        // 400 from Gemini means it could not use the prompt or an image; the client
+        // tells the user to fix their input rather than retry.
+        if (status === 400) throw new HttpError(422, 'The image service could not use the uploaded images or prompt.');
+        if (status && status < 500) throw new HttpError(502, 'The image service rejected the request.');
+        throw new HttpError(502, 'The image service is unavailable. Please try again.');
+    }
+};
+
+const routes: Route[] = [
+    { method: 'POST', pattern: '/api/try-on', handler: (req, res) => handleGenerate(req, res, 'try-on') },
+    { method: 'POST', pattern: '/api/pose', handler: (req, res) => handleGenerate(req, res, 'pose') },
+    { method: 'POST', pattern: '/api/refine', handler: (req, res) => handleGenerate(req, res, 'refine') },
+    { method: 'POST', pattern: '/api/inpaint', handler: (req, res) => handleGenerate(req, res, 'inpaint') },
+    { method: 'GET', pattern: '/api/health', handler: async (_req, res) => sendJson(res, 200, { ok: true, provider: imageProvider.name }) },
+    ...authRoutes,
+    ...usageRoutes,
+    ...lookbookRoutes,
+    ...auditRoutes,
+];
+
+const server = createServer(async (req, res) => {
+    const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+    try {
+        const match = matchRoute(routes, req.method ?? 'GET', pathname);
+        if (!match) throw new HttpError(404, 'Not found.');
+        await match.handler(req, res, match.params);
+    } catch (error) {
+        if (error instanceof HttpError) {
+            sendJson(res, error.status, { error: error.message }, error.headers);
+        } else {
+            console.error('Unhandled server error:', error);
+            sendJson(res, 500, { error: 'Internal server error.' });
+        }
+    }
+});
+
+if (imageProvider.name === 'gemini' && !config.geminiApiKey) {
+    console.warn('GEMINI_API_KEY is not set; generation requests will fail. Set IMAGE_PROVIDER=mock to work offline.');
+}
+
+userStore.bootstrapAdmin().then(() => {
+    server.listen(config.port, () => {
+        console.log(`API server listening on http://localhost:${config.port} (provider: ${imageProvider.name})`);
+    });
+});
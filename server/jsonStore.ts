@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { config } from './config';
+
+// --- JSON FILE STORE ---
+// Small synchronous persistence for server state (users, sessions, usage,
+// published lookbooks). Writes go to a temp file first and are renamed into place
+// so a crash never leaves half a file.
+
+export const createJsonStore = <T>(fileName: string, initial: () => T) => {
+    const file = path.join(config.dataDir, fileName);
+
+    return {
+        read: (): T => {
+            if (!existsSync(file)) return initial();
+            try {
+                return JSON.parse(readFileSync(file, 'utf8')) as T;
+            } catch (error) {
+                console.error(`Could not parse ${file}; starting empty.`, error);
+                return initial();
+            }
+        },
+        write: (data: T) => {
+            mkdirSync(config.dataDir, { recursive: true });
+            const tmp = `${file}.tmp`;
+            writeFileSync(tmp, JSON.stringify(data, null, 2), { mode: 0o600 });
+            renameSync(tmp, file);
+        },
+        remove: () => rmSync(file, { force: true }),
+    };
+};
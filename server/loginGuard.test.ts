@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, beforeEach, describe, it } from 'node:test';
+
+// The guard keeps its counts in DATA_DIR, read when config.ts loads.
+const dataDir = mkdtempSync(path.join(tmpdir(), 'login-guard-'));
+process.env.DATA_DIR = dataDir;
+process.env.LOGIN_MAX_FAILURES = '5';
+process.env.LOGIN_LOCKOUT_MS = String(15 * 60 * 1000);
+const { loginGuard } = await import('./loginGuard');
+const { HttpError } = await import('./http');
+
+const USER = 'stylist@example.com';
+const T0 = Date.UTC(2026, 9, 19, 9);
+
+const refusal = (now: number) => {
+    try {
+        loginGuard.check(USER, now);
+        return null;
+    } catch (error) {
+        assert.ok(error instanceof HttpError);
+        return { status: error.status, retryAfter: Number(error.headers['Retry-After']), message: error.message };
+    }
+};
+
+describe('loginGuard', () => {
+    beforeEach(() => loginGuard.clear(USER));
+    after(() => rmSync(dataDir, { recursive: true, force: true }));
+
+    it('lets the first two failures retry at once', () => {
+        loginGuard.fail(USER, T0);
+        loginGuard.fail(USER, T0);
+        assert.equal(refusal(T0), null);
+    });
+
+    it('makes each later attempt wait twice as long', () => {
+        [1, 2, 3].forEach(() => loginGuard.fail(USER, T0));
+        assert.deepEqual(refusal(T0), { status: 429, retryAfter: 1, message: 'Too many failed sign-ins. Wait 1 second before trying again.' });
+        assert.equal(refusal(T0 + 1000), null);
+        loginGuard.fail(USER, T0 + 1000);
+        assert.equal(refusal(T0 + 2000)?.retryAfter, 1);
+        assert.equal(refusal(T0 + 3000), null);
+    });
+
+    it('locks the account at the fifth failure until the lockout ends', () => {
+        const locks = [0, 1, 2, 3, 4].map(n => loginGuard.fail(USER, T0 + n * 60000));
+        assert.deepEqual(locks, [false, false, false, false, true]);
+        const lockedAt = T0 + 4 * 60000;
+        assert.deepEqual(refusal(lockedAt + 60000), {
+            status: 429,
+            retryAfter: 14 * 60,
+            message: 'Too many failed sign-ins. This account is locked; try again in 14 minutes.',
+        });
+        assert.equal(refusal(lockedAt + 15 * 60000), null);
+    });
+
+    it('forgets failures once the lockout window passes without a lock', () => {
+        [1, 2, 3].forEach(() => loginGuard.fail(USER, T0));
+        assert.equal(loginGuard.fail(USER, T0 + 15 * 60000), false);
+        assert.equal(refusal(T0 + 15 * 60000), null);
+    });
+
+    it('clears the count after a successful sign-in or a password reset', () => {
+        [1, 2, 3, 4, 5].forEach(() => loginGuard.fail(USER, T0));
+        loginGuard.clear(USER);
+        assert.equal(refusal(T0), null);
+    });
+});
+
+describe('loginGuard.serialize', () => {
+    it('runs attempts on one account one after another, even after a failure', async () => {
+        const order: string[] = [];
+        const attempt = (name: string, fails = false) => async () => {
+            order.push(`${name} start`);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            order.push(`${name} end`);
+            if (fails) throw new Error(name);
+            return name;
+        };
+        const results = await Promise.allSettled([
+            loginGuard.serialize(USER, attempt('first', true)),
+            loginGuard.serialize(USER, attempt('second')),
+            loginGuard.serialize('other@example.com', attempt('other')),
+        ]);
+        assert.deepEqual(results.map(result => result.status), ['rejected', 'fulfilled', 'fulfilled']);
+        assert.deepEqual(order, ['first start', 'other start', 'first end', 'second start', 'other end', 'second end']);
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { config } from './config';
+import { HttpError } from './http';
+import { createJsonStore } from './jsonStore';
+
+// --- LOGIN GUARD ---
+// Failed sign-ins are counted per account name, whether or not the account
+// exists, so the replies do not reveal which ones do. From the third failure the
+// next attempt must wait (1 s, then 2 s, then 4 s, …); after
+// `config.loginMaxFailures` within `config.loginLockoutMs` the account is locked
+// for that long. Kept in login-attempts.json so a restart does not lift a lockout.
+// Attempts on one account run one at a time: otherwise parallel guesses could
+// all pass `check` while the first password hash is still being verified.
+
+interface FailedAttempts {
+    failures: number;
+    lastFailureAt: number;
+    lockedUntil: number | null;
+}
+
+const store = createJsonStore<Record<string, FailedAttempts>>('login-attempts.json', () => ({}));
+
+// The tail of each account's queue of sign-in attempts.
+const pending = new Map<string, Promise<unknown>>();
+
+const THROTTLE_AFTER = 2;
+const MAX_DELAY_MS = 30 * 1000;
+
+const isStale = (entry: FailedAttempts, now: number) =>
+    entry.lockedUntil ? entry.lockedUntil <= now : entry.lastFailureAt + config.loginLockoutMs <= now;
+
+const readAttempts = (now: number) => {
+    const attempts = store.read();
+    let pruned = false;
+    Object.keys(attempts).forEach(key => {
+        if (isStale(attempts[key], now)) {
+            delete attempts[key];
+            pruned = true;
+        }
+    });
+    if (pruned) store.write(attempts);
+    return attempts;
+};
+
+const waitMessage = (ms: number) => {
+    const [count, unit] = ms > 60000 ? [Math.ceil(ms / 60000), 'minute'] : [Math.ceil(ms / 1000), 'second'];
+    return `${count} ${unit}${count === 1 ? '' : 's'}`;
+};
+
+export const loginGuard = {
+    /** Runs `attempt` once every earlier attempt on this account has settled. */
+    serialize: <T>(username: string, attempt: () => Promise<T>): Promise<T> => {
+        const result = (pending.get(username) ?? Promise.resolve()).then(attempt);
+        const settled = result.catch(() => undefined);
+        pending.set(username, settled);
+        settled.then(() => {
+            if (pending.get(username) === settled) pending.delete(username);
+        });
+        return result;
+    },
+    /** Throws 429 while the account is locked, or when it is tried again too soon after failing. */
+    check: (username: string, now = Date.now()) => {
+        const entry = readAttempts(now)[username];
+        if (!entry) return;
+        if (entry.lockedUntil) {
+            const wait = entry.lockedUntil - now;
+            throw new HttpError(429, `Too many failed sign-ins. This account is locked; try again in ${waitMessage(wait)}.`, {
+                'Retry-After': String(Math.ceil(wait / 1000)),
+            });
+        }
+        if (entry.failures > THROTTLE_AFTER) {
+            const wait = entry.lastFailureAt + Math.min(1000 * 2 ** (entry.failures - THROTTLE_AFTER - 1), MAX_DELAY_MS) - now;
+            if (wait > 0) {
+                throw new HttpError(429, `Too many failed sign-ins. Wait ${waitMessage(wait)} before trying again.`, {
+                    'Retry-After': String(Math.ceil(wait / 1000)),
+                });
+            }
+        }
+    },
+    /** Counts a failure; returns true when it locked the account. */
+    fail: (username: string, now = Date.now()) => {
+        const attempts = readAttempts(now);
+        const entry = attempts[username] ?? { failures: 0, lastFailureAt: now, lockedUntil: null };
+        entry.failures++;
+        entry.lastFailureAt = now;
+        if (entry.failures >= config.loginMaxFailures) entry.lockedUntil = now + config.loginLockoutMs;
+        attempts[username] = entry;
+        store.write(attempts);
+        return !!entry.lockedUntil;
+    },
+    /** Clears the count after a successful sign-in or an admin password reset. */
+    clear: (username: string) => {
+        const attempts = store.read();
+        if (!attempts[username]) return;
+        delete attempts[username];
+        store.write(attempts);
+    },
+};
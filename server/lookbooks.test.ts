@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+
+// Published lookbooks are kept in DATA_DIR, read when config.ts loads.
+const dataDir = mkdtempSync(path.join(tmpdir(), 'lookbooks-'));
+process.env.DATA_DIR = dataDir;
+const { lookbookRoutes } = await import('./lookbooks');
+const { HttpError, matchRoute } = await import('./http');
+
+// Calls the route as the server would and returns the JSON it sent.
+const request = async (method: string, pathname: string) => {
+    const match = matchRoute(lookbookRoutes, method, pathname);
+    assert.ok(match);
+    let sent: { status: number; body: unknown } | null = null;
+    const res = {
+        writeHead: (status: number) => {
+            sent = { status, body: null };
+        },
+        end: (payload: string) => {
+            if (sent) sent.body = JSON.parse(payload);
+        },
+    } as unknown as ServerResponse;
+    await match.handler({ headers: {} } as IncomingMessage, res, match.params);
+    return sent;
+};
+
+describe('GET /api/lookbooks/:id', () => {
+    after(() => rmSync(dataDir, { recursive: true, force: true }));
+
+    it('sends the published copy without who published it', async () => {
+        const stored = {
+            id: 'lookbook-0001',
+            title: 'Eid Lawn 2026',
+            client: 'Ayesha',
+            intro: '',
+            items: [{ image: { base64: 'AAAA', mimeType: 'image/png' }, title: 'Look 1', sku: 'EL-01', price: '', notes: '' }],
+            publishedBy: 'stylist@example.com',
+            publishedAt: '2026-10-19T09:00:00.000Z',
+        };
+        writeFileSync(path.join(dataDir, 'lookbook-lookbook-0001.json'), JSON.stringify(stored));
+        const { publishedBy: _publishedBy, ...document } = stored;
+        assert.deepEqual(await request('GET', '/api/lookbooks/lookbook-0001'), { status: 200, body: { lookbook: document } });
+    });
+
+    it('answers 404 for a lookbook that is not shared, or an id that cannot be one', async () => {
+        for (const id of ['lookbook-0002', '..%2Fusers']) {
+            await assert.rejects(request('GET', `/api/lookbooks/${id}`), (error: unknown) => error instanceof HttpError && error.status === 404);
+        }
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { LOOKBOOK_ID_PATTERN, LookbookDocument, MAX_LOOKBOOK_ITEMS } from '../services/lookbook';
+import { hasPermission } from '../services/permissions';
+import { isRecord, JsonRecord } from '../services/validation';
+import { requirePermission } from './auth';
+import { config } from './config';
+import { HttpError, readJsonBody, Route, sendJson } from './http';
+import { createJsonStore } from './jsonStore';
+
+// --- PUBLISHED LOOKBOOKS ---
+// A published lookbook is a read-only copy anyone with the link can open at
+// `#lookbook/<id>`, without signing in. Each is kept in its own file, since they
+// hold images. Only the user who published one, or an admin, may replace or
+// withdraw it. Who published it is kept for that check and never sent to viewers.
+
+interface PublishedLookbook extends LookbookDocument {
+    publishedBy: string;
+}
+
+const storeFor = (id: string) => {
+    if (!LOOKBOOK_ID_PATTERN.test(id)) throw new HttpError(404, 'Lookbook not found.');
+    return createJsonStore<PublishedLookbook | null>(`lookbook-${id}.json`, () => null);
+};
+
+// Images are written into the page as data URLs, so only plain base64 images pass.
+const isSafeImage = (value: unknown): value is { base64: string; mimeType: string } =>
+    isRecord(value) && typeof value.mimeType === 'string' && /^image\/[a-z0-9.+-]+$/.test(value.mimeType)
+    && typeof value.base64 === 'string' && /^[A-Za-z0-9+/]+={0,2}$/.test(value.base64);
+
+const text = (value: unknown, maxLength: number) => (typeof value === 'string' ? value : '').slice(0, maxLength);
+
+const isLookbookItem = (value: unknown): value is JsonRecord & { image: { base64: string; mimeType: string } } =>
+    isRecord(value) && isSafeImage(value.image);
+
+const validateDocument = (body: unknown, id: string, publishedBy: string): PublishedLookbook => {
+    if (!isRecord(body)) throw new HttpError(400, 'Request body must be an object.');
+    if (typeof body.title !== 'string' || !body.title.trim()) throw new HttpError(400, 'The lookbook needs a title.');
+    const { items } = body;
+    if (!Array.isArray(items) || items.length === 0 || items.length > MAX_LOOKBOOK_ITEMS) {
+        throw new HttpError(400, `A lookbook holds between 1 and ${MAX_LOOKBOOK_ITEMS} images.`);
+    }
+    if (!items.every(isLookbookItem)) {
+        throw new HttpError(400, 'Every lookbook item needs an image.');
+    }
+    return {
+        id,
+        title: text(body.title, 200),
+        client: text(body.client, 200),
+        intro: text(body.intro, 5000),
+        items: items.map(item => ({
+            image: { base64: item.image.base64, mimeType: item.image.mimeType },
+            title: text(item.title, 200),
+            sku: text(item.sku, 100),
+            price: text(item.price, 100),
+            notes: text(item.notes, 2000),
+        })),
+        publishedBy,
+        publishedAt: new Date().toISOString(),
+    };
+};
+
+const getLookbook = async (_req: IncomingMessage, res: ServerResponse, params: Record<string, string>) => {
+    const lookbook = storeFor(params.id).read();
+    if (!lookbook) throw new HttpError(404, 'This lookbook does not exist or is no longer shared.');
+    const { id, title, client, intro, items, publishedAt } = lookbook;
+    const document: LookbookDocument = { id, title, client, intro, items, publishedAt };
+    sendJson(res, 200, { lookbook: document });
+};
+
+// Anyone may publish a new id; replacing or withdrawing one is for its publisher and admins.
+const requireOwner = (req: IncomingMessage, existing: PublishedLookbook | null) => {
+    const user = requirePermission(req, 'generate');
+    if (existing && existing.publishedBy !== user.username && !hasPermission(user, 'manage-users')) {
+        throw new HttpError(403, 'Only the person who published this lookbook can change it.');
+    }
+    return user;
+};
+
+const publishLookbook = async (req: IncomingMessage, res: ServerResponse, params: Record<string, string>) => {
+    const store = storeFor(params.id);
+    const existing = store.read();
+    const user = requireOwner(req, existing);
+    const body = await readJsonBody(req, config.maxLookbookBytes);
+    const lookbook = validateDocument(body, params.id, existing?.publishedBy ?? user.username);
+    store.write(lookbook);
+    sendJson(res, 200, { publishedAt: lookbook.publishedAt, message: 'Lookbook published.' });
+};
+
+const withdrawLookbook = async (req: IncomingMessage, res: ServerResponse, params: Record<string, string>) => {
+    const store = storeFor(params.id);
+    const existing = store.read();
+    requireOwner(req, existing);
+    if (!existing) throw new HttpError(404, 'Lookbook not found.');
+    store.remove();
+    sendJson(res, 200, { message: 'The lookbook is no longer shared.' });
+};
+
+export const lookbookRoutes: Route[] = [
+    { method: 'GET', pattern: '/api/lookbooks/:id', handler: getLookbook },
+    { method: 'PUT', pattern: '/api/lookbooks/:id', handler: publishLookbook },
+    { method: 'DELETE', pattern: '/api/lookbooks/:id', handler: withdrawLookbook },
+];
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+
+// --- PASSWORD HASHING ---
+// scrypt with a per-password random salt. Hashes are stored as
+// `scrypt$N$r$p$salt$hash` so the cost can be raised later without breaking
+// existing accounts.
+
+const COST = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+const derive = (password: string, salt: Buffer, N: number, r: number, p: number) =>
+    new Promise<Buffer>((resolve, reject) => {
+        scrypt(password, salt, KEY_LENGTH, { N, r, p, maxmem: 128 * N * r * 2 }, (error, key) => {
+            if (error) reject(error);
+            else resolve(key);
+        });
+    });
+
+export const hashPassword = async (password: string) => {
+    const salt = randomBytes(16);
+    const key = await derive(password, salt, COST.N, COST.r, COST.p);
+    return ['scrypt', COST.N, COST.r, COST.p, salt.toString('base64'), key.toString('base64')].join('$');
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+    const [scheme, N, r, p, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await derive(password, Buffer.from(salt, 'base64'), Number(N), Number(r), Number(p));
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Content, GoogleGenAI, Modality, Part } from '@google/genai';
+import { createMockProvider, ImageGenerationRequest, ImageProvider, InlineImage } from '../services/imageProvider';
+
+// --- SERVER-SIDE PROVIDERS ---
+// Only the API server imports the Gemini SDK, so the key never ships to the browser.
+
+export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+// Text prompts first, then the region to edit and its mask (inpaint only), then
+// each garment preceded by its label, then the model photo and library references.
+const buildGeminiParts = (request: ImageGenerationRequest, prompts = request.prompts): Part[] => {
+    const parts: Part[] = prompts.map(text => ({ text }));
+    if (request.inpaint) {
+        parts.push({ text: 'This is the image region to edit:' });
+        parts.push({ inlineData: { data: request.inpaint.image.base64, mimeType: request.inpaint.image.mimeType } });
+        parts.push({ text: 'This is the mask. Change only the pixels that are white in it:' });
+        parts.push({ inlineData: { data: request.inpaint.mask.base64, mimeType: request.inpaint.mask.mimeType } });
+    }
+    request.garments.forEach(({ label, image }) => {
+        parts.push({ text: label });
+        parts.push({ inlineData: { data: image.base64, mimeType: image.mimeType } });
+    });
+    if (request.modelImage) {
+        parts.push({ text: 'Use this person as the model:' });
+        parts.push({ inlineData: { data: request.modelImage.base64, mimeType: request.modelImage.mimeType } });
+    }
+    if (request.modelReferences?.length) {
+        parts.push({ text: 'Reference photos of the model. Keep this exact face, hair and build:' });
+        request.modelReferences.forEach(image => parts.push({ inlineData: { data: image.base64, mimeType: image.mimeType } }));
+    }
+    return parts;
+};
+
+// A refinement replays the original request as the first turn, the image being
+// edited as the model's reply, and the instruction as the follow-up turn.
+const buildGeminiContents = (request: ImageGenerationRequest): Content[] | { parts: Part[] } => {
+    if (!request.refine) return { parts: buildGeminiParts(request) };
+    return [
+        { role: 'user', parts: buildGeminiParts(request, request.refine.originalPrompts) },
+        { role: 'model', parts: [{ inlineData: { data: request.refine.image.base64, mimeType: request.refine.image.mimeType } }] },
+        { role: 'user', parts: request.prompts.map(text => ({ text })) },
+    ];
+};
+
+export const createGeminiProvider = (apiKey: string): ImageProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        name: 'gemini',
+        generate: async (request) => {
+            const response = await ai.models.generateContent({
+                model: GEMINI_IMAGE_MODEL,
+                contents: buildGeminiContents(request),
+                config: {
+                    responseModalities: [Modality.IMAGE],
+                    ...(request.seed !== undefined ? { seed: request.seed } : {}),
+                },
+            });
+
+            const candidate = response.candidates?.[0];
+            const images: InlineImage[] = [];
+            const texts: string[] = [];
+            for (const part of candidate?.content?.parts ?? []) {
+                if (part.inlineData?.data) {
+                    images.push({ base64: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' });
+                } else if (part.text) {
+                    texts.push(part.text);
+                }
+            }
+
+            return {
+                images,
+                text: texts.join('\n'),
+                finishReason: candidate?.finishReason ?? response.promptFeedback?.blockReason ?? 'FINISH_REASON_UNSPECIFIED',
+                provider: 'gemini',
+            };
+        },
+    };
+};
+
+/** Picks the provider named by configuration; anything other than "mock" means Gemini. */
+export const createImageProvider = (name: string | undefined, options: { apiKey?: string } = {}): ImageProvider => {
+    if (name === 'mock') {
+        return createMockProvider();
+    }
+    return createGeminiProvider(options.apiKey ?? '');
+};
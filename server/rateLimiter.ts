@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- RATE LIMITER ---
+// Fixed-window counter per key (normally the user). In-memory only: limits reset
+// when the server restarts, which is acceptable for a single-instance proxy.
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    remaining: number;
+    retryAfterMs: number;
+}
+
+export const createRateLimiter = (max: number, windowMs: number) => {
+    const windows = new Map<string, { start: number; count: number }>();
+
+    return {
+        consume: (key: string, cost = 1, now = Date.now()): RateLimitDecision => {
+            let entry = windows.get(key);
+            if (!entry || now - entry.start >= windowMs) {
+                entry = { start: now, count: 0 };
+                windows.set(key, entry);
+            }
+            const retryAfterMs = entry.start + windowMs - now;
+            if (entry.count + cost > max) {
+                return { allowed: false, remaining: Math.max(0, max - entry.count), retryAfterMs };
+            }
+            entry.count += cost;
+            return { allowed: true, remaining: max - entry.count, retryAfterMs };
+        },
+        prune: (now = Date.now()) => {
+            windows.forEach((entry, key) => {
+                if (now - entry.start >= windowMs) windows.delete(key);
+            });
+        },
+    };
+};
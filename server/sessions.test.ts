@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+
+// Sessions are kept in DATA_DIR, read when config.ts loads.
+const dataDir = mkdtempSync(path.join(tmpdir(), 'sessions-'));
+process.env.DATA_DIR = dataDir;
+const { sessionStore } = await import('./sessions');
+
+const device = { remember: false, userAgent: 'test' };
+
+describe('sessionStore', () => {
+    after(() => rmSync(dataDir, { recursive: true, force: true }));
+
+    it('finds a session by its token and stores only a digest', () => {
+        const { token, session } = sessionStore.create('ayesha@example.com', device);
+        assert.equal(sessionStore.get(token)?.id, session.id);
+        assert.equal(sessionStore.get('not-a-token'), null);
+        assert.ok(!readFileSync(path.join(dataDir, 'sessions.json'), 'utf8').includes(token));
+    });
+
+    it('revokes by token and by id', () => {
+        const first = sessionStore.create('ayesha@example.com', device);
+        const second = sessionStore.create('ayesha@example.com', device);
+        sessionStore.revoke(first.token);
+        assert.equal(sessionStore.get(first.token), null);
+        assert.equal(sessionStore.revokeId(second.session.id)?.id, second.session.id);
+        assert.equal(sessionStore.revokeId(second.session.id), null);
+    });
+
+    it('revokes every session of a user except the one it keeps', () => {
+        const current = sessionStore.create('bilal@example.com', device);
+        const remembered = sessionStore.create('bilal@example.com', { ...device, remember: true });
+        const someoneElse = sessionStore.create('ayesha@example.com', device);
+        sessionStore.revokeUser('bilal@example.com', { keep: current.token });
+        assert.ok(sessionStore.get(current.token));
+        assert.equal(sessionStore.get(remembered.token), null);
+        assert.ok(sessionStore.get(someoneElse.token));
+        sessionStore.revokeUser('bilal@example.com');
+        assert.equal(sessionStore.get(current.token), null);
+    });
+});
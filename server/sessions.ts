@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { createHash, randomBytes } from 'node:crypto';
+import { config } from './config';
+import { createJsonStore } from './jsonStore';
+
+// --- SESSION STORE ---
+// Opaque random tokens live only in the browser's HttpOnly cookie; the server
+// keeps a SHA-256 of each token, so a leaked sessions.json cannot be replayed.
+// A session ends at `expiresAt`, or once it has gone `config.sessionIdleMs`
+// without a request unless the user chose "Remember me".
+
+export interface Session {
+    id: string; // shown to admins, who revoke sessions by it
+    username: string;
+    createdAt: number;
+    lastSeenAt: number;
+    expiresAt: number;
+    remember: boolean;
+    ip?: string;
+    userAgent?: string;
+}
+
+export const SESSION_COOKIE = 'vto_session';
+
+// Saving every request's time would rewrite sessions.json constantly; this is close enough for idling.
+const TOUCH_INTERVAL_MS = 30 * 1000;
+
+const store = createJsonStore<Record<string, Session>>('sessions.json', () => ({}));
+
+const digest = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const newSessionId = () => randomBytes(8).toString('hex');
+
+export const idleDeadline = (session: Session) => session.remember ? null : session.lastSeenAt + config.sessionIdleMs;
+
+const isLive = (session: Session, now: number) => session.expiresAt > now && (idleDeadline(session) ?? Infinity) > now;
+
+const liveSessions = (now = Date.now()) => {
+    const sessions = store.read();
+    let changed = false;
+    Object.entries(sessions).forEach(([key, session]) => {
+        // Sessions created before idle timeouts existed.
+        if (!session.id) {
+            sessions[key] = { ...session, id: newSessionId(), lastSeenAt: session.lastSeenAt ?? session.createdAt, remember: !!session.remember };
+            changed = true;
+        }
+        if (!isLive(sessions[key], now)) {
+            delete sessions[key];
+            changed = true;
+        }
+    });
+    if (changed) store.write(sessions);
+    return sessions;
+};
+
+export const sessionStore = {
+    create: (username: string, options: { remember: boolean; ip?: string; userAgent?: string }) => {
+        const token = randomBytes(32).toString('base64url');
+        const now = Date.now();
+        const session: Session = {
+            id: newSessionId(),
+            username,
+            createdAt: now,
+            lastSeenAt: now,
+            expiresAt: now + (options.remember ? config.rememberMeTtlMs : config.sessionTtlMs),
+            remember: options.remember,
+            ...(options.ip ? { ip: options.ip } : {}),
+            ...(options.userAgent ? { userAgent: options.userAgent.slice(0, 300) } : {}),
+        };
+        const sessions = liveSessions(now);
+        sessions[digest(token)] = session;
+        store.write(sessions);
+        return { token, session };
+    },
+    /** The live session for a token; each use counts as activity. `force` records it even if recent. */
+    get: (token: string | undefined, options: { force?: boolean } = {}): Session | null => {
+        if (!token) return null;
+        const now = Date.now();
+        const sessions = liveSessions(now);
+        const session = sessions[digest(token)];
+        if (!session) return null;
+        if (options.force || now - session.lastSeenAt >= TOUCH_INTERVAL_MS) {
+            session.lastSeenAt = now;
+            store.write(sessions);
+        }
+        return session;
+    },
+    /** Every live session, most recently active first. */
+    list: (): Session[] => Object.values(liveSessions()).sort((a, b) => b.lastSeenAt - a.lastSeenAt),
+    revoke: (token: string | undefined) => {
+        if (!token) return;
+        const sessions = liveSessions();
+        if (sessions[digest(token)]) {
+            delete sessions[digest(token)];
+            store.write(sessions);
+        }
+    },
+    /** Ends the session with this id; returns it, or null if it had already ended. */
+    revokeId: (id: string) => {
+        const sessions = liveSessions();
+        const entry = Object.entries(sessions).find(([, session]) => session.id === id);
+        if (!entry) return null;
+        delete sessions[entry[0]];
+        store.write(sessions);
+        return entry[1];
+    },
+    /** Ends every session of the user, except the one for `keep`'s token. */
+    revokeUser: (username: string, options: { keep?: string } = {}) => {
+        const sessions = liveSessions();
+        const kept = options.keep ? digest(options.keep) : null;
+        Object.entries(sessions).forEach(([id, session]) => {
+            if (session.username === username && id !== kept) delete sessions[id];
+        });
+        store.write(sessions);
+    },
+};
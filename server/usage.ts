@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { addCounts, emptyCounts, NO_QUOTA, quotaProblem, UsageCounts, usageDay, UsageRecord } from '../services/usage';
+import { requirePermission, requireUser } from './auth';
+import { config } from './config';
+import { HttpError, parseDayRange, Route, sendJson } from './http';
+import { createJsonStore } from './jsonStore';
+import type { StoredUser } from './users';
+
+// --- USAGE METER ---
+// Every generation call is counted against its user and UTC day in usage.json:
+// calls, images returned, failures and the estimated cost. A call is counted when
+// it starts, so parallel calls cannot slip past a quota together; its outcome is
+// added to the same day when it finishes.
+
+type UsageLog = Record<string, Record<string, UsageCounts>>; // username -> day -> counts
+
+const store = createJsonStore<UsageLog>('usage.json', () => ({}));
+
+const DEFAULT_RANGE_DAYS = 30;
+
+const add = (username: string, day: string, change: Partial<UsageCounts>) => {
+    const log = store.read();
+    const days = log[username] ?? (log[username] = {});
+    days[day] = addCounts(days[day] ?? emptyCounts(), { ...emptyCounts(), ...change });
+    store.write(log);
+};
+
+export const usageStore = {
+    /** One record per user and day with calls between `from` and `to`, inclusive. */
+    records: (from: string, to: string): UsageRecord[] =>
+        Object.entries(store.read()).flatMap(([username, days]) =>
+            Object.entries(days)
+                .filter(([day]) => day >= from && day <= to)
+                .map(([day, counts]) => ({ username, day, ...counts }))),
+    /** The user's totals for today and for this month. */
+    current: (username: string, now = new Date()) => {
+        const today = usageDay(now);
+        const days = Object.entries(store.read()[username] ?? {});
+        return {
+            today: days.find(([day]) => day === today)?.[1] ?? emptyCounts(),
+            month: days.filter(([day]) => day.startsWith(today.slice(0, 7))).reduce((total, [, counts]) => addCounts(total, counts), emptyCounts()),
+        };
+    },
+    /** Counts a call as started, or throws 402 when the user's quota is used up. Returns the day to finish it on. */
+    begin: (user: StoredUser) => {
+        const { today, month } = usageStore.current(user.username);
+        const problem = quotaProblem(user.quota ?? NO_QUOTA, today, month);
+        if (problem) throw new HttpError(402, problem);
+        const day = usageDay();
+        add(user.username, day, { requests: 1 });
+        return day;
+    },
+    /** Records how a started call ended; no images counts as a failure. */
+    finish: (username: string, day: string, images: number) => {
+        add(username, day, images > 0 ? { images, cost: images * config.costPerImageUsd } : { failures: 1 });
+    },
+};
+
+const usageReport = async (req: IncomingMessage, res: ServerResponse) => {
+    requirePermission(req, 'manage-users');
+    const { from, to } = parseDayRange(req, DEFAULT_RANGE_DAYS);
+    sendJson(res, 200, { from, to, costPerImageUsd: config.costPerImageUsd, records: usageStore.records(from, to) });
+};
+
+const myUsage = async (req: IncomingMessage, res: ServerResponse) => {
+    const user = requireUser(req);
+    sendJson(res, 200, { ...usageStore.current(user.username), quota: user.quota ?? NO_QUOTA });
+};
+
+export const usageRoutes: Route[] = [
+    { method: 'GET', pattern: '/api/usage', handler: usageReport },
+    { method: 'GET', pattern: '/api/usage/me', handler: myUsage },
+];
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, beforeEach, describe, it } from 'node:test';
+
+// Accounts are kept in DATA_DIR, read when config.ts loads.
+const dataDir = mkdtempSync(path.join(tmpdir(), 'users-'));
+process.env.DATA_DIR = dataDir;
+const { userStore } = await import('./users');
+const { HttpError } = await import('./http');
+
+const PASSWORD = 'correct horse';
+
+const rejectsWith = (status: number) => (error: unknown) => error instanceof HttpError && error.status === status;
+
+describe('userStore', () => {
+    beforeEach(() => rmSync(path.join(dataDir, 'users.json'), { force: true }));
+    after(() => rmSync(dataDir, { recursive: true, force: true }));
+
+    describe('keeping an active admin', () => {
+        beforeEach(async () => {
+            await userStore.create('admin@example.com', PASSWORD, 'admin');
+            await userStore.create('stylist@example.com', PASSWORD, 'stylist');
+        });
+
+        it('refuses to demote, disable or delete the last active admin', () => {
+            assert.throws(() => userStore.setRole('admin@example.com', 'stylist'), rejectsWith(409));
+            assert.throws(() => userStore.update('admin@example.com', { disabled: true }), rejectsWith(409));
+            assert.throws(() => userStore.update('admin@example.com', { expiresOn: '2000-01-01' }), rejectsWith(409));
+            assert.throws(() => userStore.remove('admin@example.com'), rejectsWith(409));
+            assert.equal(userStore.get('admin@example.com')?.role, 'admin');
+        });
+
+        it('allows it once another admin is active', async () => {
+            await userStore.create('second@example.com', PASSWORD, 'admin');
+            userStore.update('admin@example.com', { disabled: true });
+            assert.throws(() => userStore.remove('second@example.com'), rejectsWith(409));
+            userStore.setRole('admin@example.com', 'stylist');
+            assert.equal(userStore.get('admin@example.com')?.role, 'stylist');
+        });
+
+        it('leaves changes to other users alone', () => {
+            userStore.update('stylist@example.com', { disabled: true });
+            userStore.remove('stylist@example.com');
+            assert.ok(userStore.get('stylist@example.com')?.deletedAt);
+        });
+    });
+
+    describe('update', () => {
+        beforeEach(() => userStore.create('stylist@example.com', PASSWORD, 'stylist'));
+
+        it('accepts only true or false for `disabled`', () => {
+            for (const disabled of ['false', 1, null]) {
+                assert.throws(() => userStore.update('stylist@example.com', { disabled } as never), rejectsWith(400));
+            }
+            assert.equal(userStore.update('stylist@example.com', { disabled: true }).disabled, true);
+            assert.equal(userStore.update('stylist@example.com', { disabled: false }).disabled, false);
+        });
+
+        it('rejects an expiry that is not a date', () => {
+            assert.throws(() => userStore.update('stylist@example.com', { expiresOn: 'next week' }), rejectsWith(400));
+            assert.equal(userStore.update('stylist@example.com', { expiresOn: '2030-12-31' }).expiresOn, '2030-12-31');
+        });
+    });
+});
@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { randomBytes } from 'node:crypto';
+import { AccountState, AccountStatus, accountStatus, DAY_PATTERN } from '../services/accounts';
+import { DEFAULT_ROLE, isRole, Permission, permissionsForRole, Role } from '../services/permissions';
+import { isUsageQuota, NO_QUOTA, UsageQuota } from '../services/usage';
+import { config } from './config';
+import { HttpError } from './http';
+import { createJsonStore } from './jsonStore';
+import { hashPassword } from './passwords';
+
+// --- USER STORE ---
+// Deleting an account only marks it; it is purged once the restore window
+// (USER_RESTORE_DAYS) has passed. Changes that would leave no active admin are refused.
+
+export interface StoredUser extends AccountState {
+    username: string;
+    passwordHash: string;
+    createdAt: string;
+    role: Role;
+    quota?: UsageQuota; // absent means no limit
+    displayName?: string;
+    note?: string; // for admins only, e.g. which agency a temporary stylist is from
+    mustChangePassword?: boolean; // set by an admin reset; cleared when the user picks a password
+}
+
+/** What the browser is allowed to see about an account. Never includes the hash. */
+export interface PublicUser {
+    username: string;
+    createdAt: string;
+    role: Role;
+    permissions: Permission[];
+    quota: UsageQuota;
+    displayName: string;
+    note: string;
+    status: AccountStatus;
+    expiresOn: string | null;
+    deletedAt: string | null;
+    purgeAt: string | null; // when a deleted account can no longer be restored
+    mustChangePassword: boolean;
+}
+
+/** Editable from the admin panel; absent fields are left as they are. */
+export interface UserDetails {
+    displayName?: string;
+    note?: string;
+    expiresOn?: string | null;
+    disabled?: boolean;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const store = createJsonStore<Record<string, StoredUser>>('users.json', () => ({}));
+
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+// Accounts created before roles existed: the configured admin keeps admin rights,
+// everyone else becomes a stylist.
+const withRole = (user: StoredUser): StoredUser =>
+    isRole(user.role) ? user : { ...user, role: user.username === config.adminEmail ? 'admin' : DEFAULT_ROLE };
+
+const purgeAt = (user: StoredUser) => user.deletedAt ? new Date(Date.parse(user.deletedAt) + config.userRestoreDays * DAY_MS).toISOString() : null;
+
+const readUsers = () => {
+    const users = store.read();
+    const now = new Date().toISOString();
+    let purged = false;
+    Object.keys(users).forEach(key => {
+        const user = users[key];
+        if (user.deletedAt && purgeAt(user)! <= now) {
+            delete users[key];
+            purged = true;
+        } else {
+            users[key] = withRole(user);
+        }
+    });
+    if (purged) store.write(users);
+    return users;
+};
+
+export const toPublicUser = (user: StoredUser): PublicUser => ({
+    username: user.username,
+    createdAt: user.createdAt,
+    role: user.role,
+    permissions: permissionsForRole(user.role),
+    quota: user.quota ?? NO_QUOTA,
+    displayName: user.displayName ?? '',
+    note: user.note ?? '',
+    status: accountStatus(user),
+    expiresOn: user.expiresOn ?? null,
+    deletedAt: user.deletedAt ?? null,
+    purgeAt: purgeAt(user),
+    mustChangePassword: !!user.mustChangePassword,
+});
+
+const validatePassword = (password: string) => {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+    }
+};
+
+const validateExpiry = (expiresOn: unknown) => {
+    if (expiresOn !== null && (typeof expiresOn !== 'string' || !DAY_PATTERN.test(expiresOn))) {
+        throw new HttpError(400, 'The expiry must be a date like 2026-12-31, or empty for none.');
+    }
+};
+
+/** A random password for accounts an admin creates or resets without choosing one. */
+export const temporaryPassword = (): string => {
+    const password = randomBytes(9).toString('base64url');
+    // One starting with "-" would be written apostrophe-first in the issued-passwords CSV.
+    return password.startsWith('-') ? temporaryPassword() : password;
+};
+
+const countActiveAdmins = (users: Record<string, StoredUser>) =>
+    Object.values(users).filter(u => u.role === 'admin' && accountStatus(u) === 'active').length;
+
+// Throws when replacing the account under `key` with `next` would leave nobody able to manage users.
+const assertAdminRemains = (users: Record<string, StoredUser>, key: string, next: StoredUser | null, message: string) => {
+    const after = { ...users };
+    if (next) after[key] = next;
+    else delete after[key];
+    if (countActiveAdmins(users) > 0 && countActiveAdmins(after) === 0) throw new HttpError(409, message);
+};
+
+const findUser = (users: Record<string, StoredUser>, username: string) => {
+    const user = users[normalizeUsername(username)];
+    if (!user) throw new HttpError(404, 'User not found.');
+    return user;
+};
+
+export const userStore = {
+    get: (username: string): StoredUser | null => readUsers()[normalizeUsername(username)] ?? null,
+    list: (): StoredUser[] => Object.values(readUsers()),
+    create: async (username: string, password: string, role: Role = DEFAULT_ROLE, details: Omit<UserDetails, 'disabled'> & { mustChangePassword?: boolean } = {}) => {
+        const key = normalizeUsername(username);
+        if (!key) throw new HttpError(400, 'Username is required.');
+        validatePassword(password);
+        if (!isRole(role)) throw new HttpError(400, 'Unknown role.');
+        if (details.expiresOn !== undefined) validateExpiry(details.expiresOn);
+        const passwordHash = await hashPassword(password);
+        const users = readUsers();
+        if (users[key]?.deletedAt) throw new HttpError(409, 'A deleted account has this username. Restore it instead.');
+        if (users[key]) throw new HttpError(409, 'Username already exists.');
+        users[key] = {
+            username: key,
+            passwordHash,
+            createdAt: new Date().toISOString(),
+            role,
+            ...(details.displayName?.trim() ? { displayName: details.displayName.trim().slice(0, 100) } : {}),
+            ...(details.note?.trim() ? { note: details.note.trim().slice(0, 1000) } : {}),
+            ...(details.expiresOn ? { expiresOn: details.expiresOn } : {}),
+            ...(details.mustChangePassword ? { mustChangePassword: true } : {}),
+        };
+        store.write(users);
+        return users[key];
+    },
+    setRole: (username: string, role: Role) => {
+        if (!isRole(role)) throw new HttpError(400, 'Unknown role.');
+        const users = readUsers();
+        const user = findUser(users, username);
+        assertAdminRemains(users, user.username, { ...user, role }, 'Cannot demote the last admin. Promote another user first.');
+        user.role = role;
+        store.write(users);
+        return user;
+    },
+    update: (username: string, details: UserDetails) => {
+        if (details.expiresOn !== undefined) validateExpiry(details.expiresOn);
+        if (details.disabled !== undefined && typeof details.disabled !== 'boolean') throw new HttpError(400, '`disabled` must be true or false.');
+        const users = readUsers();
+        const user = findUser(users, username);
+        if (user.deletedAt) throw new HttpError(409, 'Restore the account before editing it.');
+        const next: StoredUser = {
+            ...user,
+            ...(details.displayName !== undefined ? { displayName: String(details.displayName).trim().slice(0, 100) } : {}),
+            ...(details.note !== undefined ? { note: String(details.note).trim().slice(0, 1000) } : {}),
+            ...(details.expiresOn !== undefined ? { expiresOn: details.expiresOn } : {}),
+            ...(details.disabled !== undefined ? { disabled: details.disabled } : {}),
+        };
+        assertAdminRemains(users, user.username, next, 'This would leave no active admin. Promote or enable another admin first.');
+        users[user.username] = next;
+        store.write(users);
+        return next;
+    },
+    /** Replaces the password with a temporary one the user must change at next sign-in; returns it. */
+    resetPassword: async (username: string) => {
+        const password = temporaryPassword();
+        const passwordHash = await hashPassword(password);
+        const users = readUsers();
+        const user = findUser(users, username);
+        if (user.deletedAt) throw new HttpError(409, 'Restore the account before resetting its password.');
+        user.passwordHash = passwordHash;
+        user.mustChangePassword = true;
+        store.write(users);
+        return { user, password };
+    },
+    changePassword: async (username: string, password: string) => {
+        validatePassword(password);
+        const passwordHash = await hashPassword(password);
+        const users = readUsers();
+        const user = findUser(users, username);
+        user.passwordHash = passwordHash;
+        delete user.mustChangePassword;
+        store.write(users);
+        return user;
+    },
+    setQuota: (username: string, quota: UsageQuota) => {
+        if (!isUsageQuota(quota)) {
+            throw new HttpError(400, 'Quotas must be whole numbers above zero, or empty for no limit.');
+        }
+        const users = readUsers();
+        const user = findUser(users, username);
+        user.quota = { daily: quota.daily, monthly: quota.monthly };
+        store.write(users);
+        return user;
+    },
+    /** Marks the account deleted; it can be restored until `purgeAt`. */
+    remove: (username: string) => {
+        const users = readUsers();
+        const user = findUser(users, username);
+        if (user.deletedAt) throw new HttpError(409, 'The account is already deleted.');
+        const next = { ...user, deletedAt: new Date().toISOString() };
+        assertAdminRemains(users, user.username, next, 'Cannot delete the last admin account.');
+        users[user.username] = next;
+        store.write(users);
+        return next;
+    },
+    restore: (username: string) => {
+        const users = readUsers();
+        const user = findUser(users, username);
+        if (!user.deletedAt) throw new HttpError(409, 'The account is not deleted.');
+        delete user.deletedAt;
+        store.write(users);
+        return user;
+    },
+    /** Creates the configured admin account on first start. An existing account is left untouched. */
+    bootstrapAdmin: async () => {
+        if (!config.adminEmail || !config.adminPassword) {
+            console.warn('ADMIN_EMAIL / ADMIN_PASSWORD are not set; no admin account will be created.');
+            return;
+        }
+        if (userStore.get(config.adminEmail)) return;
+        await userStore.create(config.adminEmail, config.adminPassword, 'admin');
+        console.log(`Created admin user: ${config.adminEmail}`);
+    },
+};
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { parseCsvRecords, toCsv } from './csv';
+import { DEFAULT_ROLE, isRole, Role } from './permissions';
+import { usageDay, UsageQuota } from './usage';
+
+// --- ACCOUNT LIFECYCLE ---
+// Shared by the API server (server/users.ts), which enforces it, and the admin
+// panel. An account can sign in only while it is active: not disabled, not past
+// its last day and not deleted. A deleted account can be restored until its
+// restore window ends; then the server purges it.
+
+export type AccountStatus = 'active' | 'disabled' | 'expired' | 'deleted';
+
+export const ACCOUNT_STATUS_LABELS: Record<AccountStatus, string> = {
+    active: 'Active',
+    disabled: 'Disabled',
+    expired: 'Expired',
+    deleted: 'Deleted',
+};
+
+export interface AccountState {
+    disabled?: boolean;
+    expiresOn?: string | null; // last UTC day the account works, "2026-12-31"
+    deletedAt?: string | null;
+}
+
+export const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const accountStatus = (account: AccountState, now = new Date()): AccountStatus => {
+    if (account.deletedAt) return 'deleted';
+    if (account.disabled) return 'disabled';
+    if (account.expiresOn && account.expiresOn < usageDay(now)) return 'expired';
+    return 'active';
+};
+
+// --- CSV import and export ---
+// Exports carry everything shown in the admin table. Imports read `username`
+// (required), `password`, `role`, `display_name`, `expires_on` and `note`; other
+// columns, such as those of an export, are ignored. Accounts imported without a
+// password get a temporary one that must be changed at first sign-in.
+
+export interface UserImportRow {
+    username: string;
+    password: string;
+    role: Role;
+    displayName: string;
+    expiresOn: string | null;
+    note: string;
+}
+
+export const MAX_IMPORT_ROWS = 500;
+
+export const serializeUsersCsv = (users: {
+    username: string;
+    displayName: string;
+    role: Role;
+    status: AccountStatus;
+    expiresOn: string | null;
+    quota: UsageQuota;
+    createdAt: string;
+    note: string;
+}[]) => toCsv([
+    ['username', 'display_name', 'role', 'status', 'expires_on', 'daily_quota', 'monthly_quota', 'created_at', 'note'],
+    ...users.map(u => [u.username, u.displayName, u.role, u.status, u.expiresOn ?? '', u.quota.daily ?? '', u.quota.monthly ?? '', u.createdAt, u.note]),
+]);
+
+/** The passwords an import issued; the admin's only copy. */
+export const serializeIssuedPasswordsCsv = (issued: { username: string; password: string }[]) =>
+    toCsv([['username', 'temporary_password'], ...issued.map(row => [row.username, row.password])]);
+
+/** Rows ready to send to the server, plus problems by CSV line number (the header is line 1). */
+export const parseUserImport = (text: string) => {
+    const records = parseCsvRecords(text);
+    const rows: UserImportRow[] = [];
+    const problems: string[] = [];
+    if (records.length > 0 && !('username' in records[0])) {
+        return { rows, problems: ['The CSV needs a "username" column.'] };
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+        return { rows, problems: [`Import at most ${MAX_IMPORT_ROWS} users at a time.`] };
+    }
+    records.forEach((record, index) => {
+        const line = index + 2;
+        const role = record.role ? record.role.toLowerCase() : DEFAULT_ROLE;
+        const expiresOn = record.expires_on || null;
+        if (!record.username) problems.push(`Line ${line}: the username is empty.`);
+        else if (!isRole(role)) problems.push(`Line ${line}: unknown role "${record.role}".`);
+        else if (expiresOn && !DAY_PATTERN.test(expiresOn)) problems.push(`Line ${line}: expires_on must be a date like 2026-12-31.`);
+        else rows.push({ username: record.username, password: record.password ?? '', role, displayName: record.display_name ?? '', expiresOn, note: record.note ?? '' });
+    });
+    return { rows, problems };
+};
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- API CLIENT ---
+// Thin JSON wrapper around fetch for the local API server. Never throws: network
+// failures come back as `{ ok: false, status: 0 }` so callers can show a message.
+
+export interface ApiResponse<T> {
+    ok: boolean;
+    status: number;
+    data: T & { error?: string; message?: string };
+}
+
+export const apiRequest = async <T = Record<string, unknown>>(
+    path: string,
+    options: { method?: string; body?: unknown } = {},
+): Promise<ApiResponse<T>> => {
+    try {
+        const response = await fetch(`/api${path}`, {
+            method: options.method ?? 'GET',
+            headers: options.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+            body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        });
+        const data = await response.json().catch(() => ({}));
+        return { ok: response.ok, status: response.status, data };
+    } catch (error) {
+        console.error(`API request to ${path} failed:`, error);
+        return { ok: false, status: 0, data: { error: 'Could not reach the server. Please check your connection.' } as ApiResponse<T>['data'] };
+    }
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { toCsv } from './csv';
+
+// --- AUDIT LOG ---
+// Shared by the API server, which appends an event for every sign-in, account
+// change, generation call and download (server/audit.ts), and the admin audit
+// page, which filters and exports them. Events are never edited or removed.
+
+export type AuditAction =
+    | 'login'
+    | 'logout'
+    | 'password-change'
+    | 'user-create'
+    | 'user-update'
+    | 'user-delete'
+    | 'user-restore'
+    | 'role-change'
+    | 'quota-change'
+    | 'password-reset'
+    | 'session-revoke'
+    | 'generation'
+    | 'download';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    'login': 'Sign-in',
+    'logout': 'Sign-out',
+    'password-change': 'Password changed',
+    'user-create': 'User created',
+    'user-update': 'User edited',
+    'user-delete': 'User deleted',
+    'user-restore': 'User restored',
+    'role-change': 'Role changed',
+    'quota-change': 'Quota changed',
+    'password-reset': 'Password reset',
+    'session-revoke': 'Session ended by admin',
+    'generation': 'Generation',
+    'download': 'Download',
+};
+
+export const isAuditAction = (value: unknown): value is AuditAction =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(AUDIT_ACTION_LABELS, value);
+
+export type AuditDetails = Record<string, string | number | boolean | null>;
+
+export interface AuditEvent {
+    at: string; // ISO timestamp
+    actor: string; // who did it; for a failed sign-in, the username that was tried
+    action: AuditAction;
+    outcome: 'success' | 'failure';
+    target?: string; // the account acted on, for user admin
+    details?: AuditDetails; // e.g. a generation's mode and inputs hash
+    ip?: string;
+}
+
+/** What the browser reports downloading; anything else is refused. */
+export const DOWNLOAD_KINDS = ['image', 'archive', 'lookbook', 'project', 'users-csv', 'usage-csv', 'audit-csv'] as const;
+export type DownloadKind = typeof DOWNLOAD_KINDS[number];
+
+export const describeAuditDetails = (details: AuditDetails | undefined) =>
+    Object.entries(details ?? {}).map(([key, value]) => `${key}: ${value ?? '—'}`).join(', ');
+
+export const serializeAuditCsv = (events: AuditEvent[]) => toCsv([
+    ['time', 'actor', 'action', 'outcome', 'target', 'details', 'ip'],
+    ...events.map(e => [e.at, e.actor, e.action, e.outcome, e.target ?? '', describeAuditDetails(e.details), e.ip ?? '']),
+]);
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BatchRow, parseBatchManifest, preprocessBatchRows, runWithConcurrency } from './batch';
+import type { InlineImage } from './imageProvider';
+
+const photo = (name: string): InlineImage => ({ base64: name, mimeType: 'image/jpeg' });
+
+const row = (sku: string, garments: BatchRow['garments']): BatchRow =>
+    ({ sku, tryOnMode: '2-piece', garments, modelPrompt: '', backgroundPrompt: '', status: 'pending' });
+
+describe('parseBatchManifest', () => {
+    const images = new Map([
+        ['lwn-101/kameez.jpg', photo('kameez')],
+        ['kameez.jpg', photo('kameez')],
+        ['dupatta.jpg', photo('dupatta')],
+        ['choli.jpg', photo('choli')],
+    ]);
+
+    it('builds a row per SKU with its outfit and photos', () => {
+        const { rows, problems } = parseBatchManifest(
+            'SKU,Outfit,Kameez,Dupatta,Trouser,Model_Prompt,Background_Prompt\nLWN-101,3-piece,LWN-101\\Kameez.JPG,dupatta.jpg,,Tall model,Garden\n',
+            images,
+        );
+        assert.deepEqual(problems, []);
+        assert.deepEqual(rows, [{
+            sku: 'LWN-101',
+            tryOnMode: '3-piece',
+            garments: { kameez: photo('kameez'), dupatta: photo('dupatta'), trouser: null },
+            modelPrompt: 'Tall model',
+            backgroundPrompt: 'Garden',
+            status: 'pending',
+        }]);
+    });
+
+    it('picks 3-piece or 2-piece from the dupatta when there is no outfit column', () => {
+        const { rows } = parseBatchManifest('sku,kameez,dupatta\nA,kameez.jpg,dupatta.jpg\nB,kameez.jpg,\n', images);
+        assert.deepEqual(rows.map(row => row.tryOnMode), ['3-piece', '2-piece']);
+    });
+
+    it('reports rows that cannot run, by line', () => {
+        const { rows, problems } = parseBatchManifest([
+            'sku,outfit,kameez,choli,lehenga',
+            ',2-piece,kameez.jpg,,',
+            'A,2-piece,kameez.jpg,,',
+            'A,2-piece,kameez.jpg,,',
+            'B,kaftan,kameez.jpg,,',
+            'C,lehenga,,choli.jpg,',
+            'D,2-piece,missing.jpg,,',
+        ].join('\n'), images);
+        assert.deepEqual(rows.map(row => row.sku), ['A']);
+        assert.deepEqual(problems, [
+            'Line 2: missing SKU.',
+            'Line 4: SKU A appears more than once.',
+            'Line 5: SKU B has an unknown outfit "kaftan".',
+            'Line 6: SKU C has no lehenga file.',
+            'Line 7: SKU D is missing kameez "missing.jpg".',
+        ]);
+    });
+});
+
+describe('runWithConcurrency', () => {
+    it('keeps at most `limit` calls in flight and runs every item', async () => {
+        let running = 0;
+        let peak = 0;
+        const done: number[] = [];
+        await runWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+            peak = Math.max(peak, ++running);
+            await new Promise(resolve => setTimeout(resolve, 1));
+            running--;
+            done.push(item);
+        });
+        assert.equal(peak, 2);
+        assert.deepEqual(done.sort(), [1, 2, 3, 4, 5]);
+    });
+});
+
+describe('preprocessBatchRows', () => {
+    it('processes each distinct photo once and keeps empty slots', async () => {
+        const shared = photo('shared-trouser');
+        const calls: string[] = [];
+        const { rows, problems } = await preprocessBatchRows(
+            [row('A', { kameez: photo('a'), trouser: shared }), row('B', { kameez: photo('b'), trouser: shared, dupatta: null })],
+            async image => {
+                calls.push(image.base64);
+                return { base64: `processed-${image.base64}`, mimeType: 'image/webp' };
+            },
+        );
+        assert.deepEqual(problems, []);
+        assert.deepEqual(calls.sort(), ['a', 'b', 'shared-trouser']);
+        assert.deepEqual(rows.map(r => r.garments), [
+            { kameez: { base64: 'processed-a', mimeType: 'image/webp' }, trouser: { base64: 'processed-shared-trouser', mimeType: 'image/webp' } },
+            { kameez: { base64: 'processed-b', mimeType: 'image/webp' }, trouser: { base64: 'processed-shared-trouser', mimeType: 'image/webp' }, dupatta: null },
+        ]);
+    });
+
+    it('drops and reports rows with a photo that cannot be processed', async (t) => {
+        t.mock.method(console, 'error', () => {});
+        const { rows, problems } = await preprocessBatchRows(
+            [row('A', { kameez: photo('broken') }), row('B', { kameez: photo('b') })],
+            async image => {
+                if (image.base64 === 'broken') throw new Error('decode failed');
+                return image;
+            },
+        );
+        assert.deepEqual(rows.map(r => r.sku), ['B']);
+        assert.deepEqual(problems, ['SKU A: a garment photo could not be read as an image.']);
+    });
+});
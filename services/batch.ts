@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { parseCsvRecords } from './csv';
+import { isOutfitType, outfitType } from './garmentSchema';
+import type { TryOnMode } from './historyStore';
+import type { InlineImage } from './imageProvider';
+import { bytesToBase64 } from './placeholderImage';
+import type { TryOnGarmentImages } from './tryOnPrompts';
+import { readZip } from './zip';
+
+// --- BATCH CATALOG PROCESSING ---
+// A batch is a CSV manifest plus the garment photos it names, dropped as loose
+// files and/or zips. Manifest columns (header names are case-insensitive):
+//   sku, outfit, <one column per garment slot id>, model_prompt, background_prompt
+// `outfit` is an outfit type id (services/garmentSchema.ts) and the outfit's
+// required slots must be filled. Without an `outfit` column, a row with a dupatta
+// is a 3-piece try-on, otherwise 2-piece. File names match by path inside a zip
+// or by bare file name. Photos named by a manifest go through the same upload
+// preprocessing as single uploads before they are sent.
+
+export type BatchRowStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchRow {
+    sku: string;
+    tryOnMode: TryOnMode;
+    garments: TryOnGarmentImages;
+    modelPrompt: string;
+    backgroundPrompt: string;
+    status: BatchRowStatus;
+    error?: string;
+    result?: { image: InlineImage; prompt: string; aspectRatio: string; createdAt: string };
+}
+
+export interface BatchSources {
+    images: Map<string, InlineImage>; // keyed by lower-cased path and bare file name
+    manifests: { name: string; text: string }[];
+}
+
+const IMAGE_MIME_TYPES: { [extension: string]: string } = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    heic: 'image/heic',
+};
+
+const extensionOf = (name: string) => name.split('.').pop()!.toLowerCase();
+const baseNameOf = (name: string) => name.split('/').pop()!;
+
+const addSource = (sources: BatchSources, name: string, data: Uint8Array) => {
+    const extension = extensionOf(name);
+    if (extension === 'csv') {
+        sources.manifests.push({ name, text: new TextDecoder().decode(data) });
+    } else if (IMAGE_MIME_TYPES[extension] && !baseNameOf(name).startsWith('.')) {
+        const image = { base64: bytesToBase64(data), mimeType: IMAGE_MIME_TYPES[extension] };
+        sources.images.set(name.toLowerCase(), image);
+        sources.images.set(baseNameOf(name).toLowerCase(), image);
+    }
+};
+
+/** Expands dropped files (zips included) into images and CSV manifests. */
+export const loadBatchSources = async (files: File[]): Promise<BatchSources> => {
+    const sources: BatchSources = { images: new Map(), manifests: [] };
+    for (const file of files) {
+        const buffer = await file.arrayBuffer();
+        if (extensionOf(file.name) === 'zip') {
+            (await readZip(buffer)).forEach(entry => addSource(sources, entry.name, entry.data));
+        } else {
+            addSource(sources, file.name, new Uint8Array(buffer));
+        }
+    }
+    return sources;
+};
+
+/**
+ * Builds batch rows from a manifest. Rows that cannot run (no SKU, duplicate SKU,
+ * missing photos) are reported in `problems` instead of being queued.
+ */
+export const parseBatchManifest = (text: string, images: Map<string, InlineImage>) => {
+    const rows: BatchRow[] = [];
+    const problems: string[] = [];
+    const seen = new Set<string>();
+
+    const lookup = (fileName: string) => (fileName ? images.get(fileName.replace(/\\/g, '/').toLowerCase()) ?? images.get(baseNameOf(fileName).toLowerCase()) ?? null : null);
+
+    parseCsvRecords(text).forEach((record, index) => {
+        const line = index + 2; // 1-based, after the header
+        const sku = record.sku ?? '';
+        if (!sku) {
+            problems.push(`Line ${line}: missing SKU.`);
+            return;
+        }
+        if (seen.has(sku)) {
+            problems.push(`Line ${line}: SKU ${sku} appears more than once.`);
+            return;
+        }
+        const outfitId = record.outfit || (record.dupatta ? '3-piece' : '2-piece');
+        if (!isOutfitType(outfitId)) {
+            problems.push(`Line ${line}: SKU ${sku} has an unknown outfit "${outfitId}".`);
+            return;
+        }
+        const outfit = outfitType(outfitId);
+        const unnamed = outfit.slots.filter(slot => slot.required && !record[slot.id]);
+        if (unnamed.length > 0) {
+            problems.push(`Line ${line}: SKU ${sku} has no ${unnamed.map(slot => slot.id).join(' or ')} file.`);
+            return;
+        }
+
+        const missing = outfit.slots.filter(slot => record[slot.id] && !lookup(record[slot.id]));
+        if (missing.length > 0) {
+            problems.push(`Line ${line}: SKU ${sku} is missing ${missing.map(slot => `${slot.id} "${record[slot.id]}"`).join(', ')}.`);
+            return;
+        }
+
+        seen.add(sku);
+        rows.push({
+            sku,
+            tryOnMode: outfit.id,
+            garments: Object.fromEntries(outfit.slots.map(slot => [slot.id, lookup(record[slot.id] ?? '')])),
+            modelPrompt: record.model_prompt ?? '',
+            backgroundPrompt: record.background_prompt ?? '',
+            status: 'pending',
+        });
+    });
+
+    return { rows, problems };
+};
+
+/**
+ * Replaces each row's garment photos with `preprocess(photo)`, once per distinct
+ * photo. Rows with a photo that cannot be processed are dropped and reported.
+ */
+export const preprocessBatchRows = async (rows: BatchRow[], preprocess: (image: InlineImage) => Promise<InlineImage>) => {
+    const processed = new Map<InlineImage, Promise<InlineImage>>();
+    const ready: BatchRow[] = [];
+    const problems: string[] = [];
+    for (const row of rows) {
+        try {
+            const garments = await Promise.all(Object.entries(row.garments).map(async ([slot, image]) => {
+                if (!image) return [slot, null];
+                if (!processed.has(image)) processed.set(image, preprocess(image));
+                return [slot, await processed.get(image)!];
+            }));
+            ready.push({ ...row, garments: Object.fromEntries(garments) });
+        } catch (error) {
+            console.error(`Could not preprocess the photos of SKU ${row.sku}:`, error);
+            problems.push(`SKU ${row.sku}: a garment photo could not be read as an image.`);
+        }
+    }
+    return { rows: ready, problems };
+};
+
+/** Runs `worker` over `items` with at most `limit` calls in flight. */
+export const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+    let next = 0;
+    const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+        while (next < items.length) {
+            await worker(items[next++]);
+        }
+    });
+    await Promise.all(lanes);
+};
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseCsv, parseCsvRecords, toCsv } from './csv';
+
+describe('parseCsv', () => {
+    it('reads quoted commas, newlines and doubled quotes', () => {
+        assert.deepEqual(parseCsv('a,"b,c","say ""hi""","two\nlines"\n'), [['a', 'b,c', 'say "hi"', 'two\nlines']]);
+    });
+
+    it('accepts CRLF line ends, a byte-order mark and blank lines', () => {
+        assert.deepEqual(parseCsv('\uFEFFsku,title\r\n\r\nA1,Lawn\r\nA2,Silk'), [['sku', 'title'], ['A1', 'Lawn'], ['A2', 'Silk']]);
+    });
+
+    it('keys records by the trimmed, lower-cased header', () => {
+        assert.deepEqual(parseCsvRecords(' SKU ,Title\nA1, Lawn \nA2'), [{ sku: 'A1', title: 'Lawn' }, { sku: 'A2', title: '' }]);
+    });
+});
+
+describe('toCsv', () => {
+    it('quotes only the fields that need it', () => {
+        assert.equal(toCsv([['plain', 'a,b', 'say "hi"'], [1, 'two\nlines']]), 'plain,"a,b","say ""hi"""\r\n1,"two\nlines"\r\n');
+    });
+
+    it('round-trips through parseCsv', () => {
+        const rows = [['name', 'note'], ['Ayesha', 'likes "bold", bright\ncolours']];
+        assert.deepEqual(parseCsv(toCsv(rows)), rows);
+    });
+
+    it('defuses text a spreadsheet would run as a formula', () => {
+        assert.equal(toCsv([['=HYPERLINK("x")', '+1', '-1', '@SUM(A1)', '\tx', '\rx']]), `"'=HYPERLINK(""x"")","'+1","'-1","'@SUM(A1)","'\tx","'\rx"\r\n`);
+    });
+
+    it('writes numbers as they are, negative ones included', () => {
+        assert.equal(toCsv([[-1.5, 0]]), '-1.5,0\r\n');
+    });
+});
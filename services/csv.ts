@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- CSV ---
+// RFC 4180 parsing: quoted fields may contain commas, newlines and doubled quotes.
+
+/** Parses CSV text into rows of fields. Blank lines are dropped. */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.some(value => value.trim() !== '')) rows.push(row);
+        row = [];
+        field = '';
+    };
+
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) endRow();
+    return rows;
+};
+
+/** Turns rows into objects keyed by the lower-cased, trimmed header row. */
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+    const keys = header.map(key => key.trim().toLowerCase());
+    return rows.map(row => Object.fromEntries(keys.map((key, i) => [key, (row[i] ?? '').trim()])));
+};
+
+const quoteCsvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Spreadsheets run a cell that starts with one of these as a formula. Text can
+// come from anyone (a failed sign-in logs the typed username), so such text is
+// prefixed with an apostrophe and quoted. Numbers are written as they are.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvField = (value: string | number) => {
+    if (typeof value === 'number') return String(value);
+    return FORMULA_PREFIX.test(value) ? `"'${value.replace(/"/g, '""')}"` : quoteCsvField(value);
+};
+
+export const toCsv = (rows: (string | number)[][]) =>
+    rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { GenerationErrorKind } from './generationErrors';
+import { newId, requestToPromise, withStore } from './idb';
+
+// --- DIAGNOSTIC LOG ---
+// Every failed generation is written to a local IndexedDB log that admins read
+// from the admin panel. It lives in this browser only and keeps the newest
+// MAX_ENTRIES records. Image data is never stored; only sizes and counts.
+
+export interface DiagnosticEntry {
+    id: string;
+    createdAt: string;
+    user: string;
+    kind: GenerationErrorKind;
+    message: string;
+    status: number | null; // HTTP status from the API server, when there was one
+    finishReason: string | null;
+    modelText: string;
+    job: {
+        label: string;
+        mode: string;
+        attempts: number;
+    };
+    request: {
+        aspectRatio: string;
+        promptChars: number;
+        imageCount: number;
+        imageBytes: number; // approximate decoded size of all images sent
+    };
+}
+
+const STORE = 'diagnostics';
+const MAX_ENTRIES = 500;
+
+export const diagnosticLog = {
+    record: async (entry: Omit<DiagnosticEntry, 'id' | 'createdAt'>) => {
+        const record: DiagnosticEntry = { ...entry, id: newId(), createdAt: new Date().toISOString() };
+        await withStore(STORE, 'readwrite', async store => {
+            await requestToPromise(store.put(record));
+            const excess = (await requestToPromise(store.count())) - MAX_ENTRIES;
+            if (excess <= 0) return;
+            // Oldest first, so the newest MAX_ENTRIES survive.
+            const keys = await requestToPromise(store.index('createdAt').getAllKeys(null, excess));
+            keys.forEach(key => store.delete(key));
+        });
+        return record;
+    },
+    /** Newest first. */
+    list: async () => {
+        const entries = await withStore(STORE, 'readonly', store => requestToPromise<DiagnosticEntry[]>(store.getAll()));
+        return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+    clear: () => withStore(STORE, 'readwrite', store => requestToPromise(store.clear())),
+};
+
+export const serializeDiagnostics = (entries: DiagnosticEntry[]) =>
+    JSON.stringify({ format: 'virtual-try-on-diagnostics', exportedAt: new Date().toISOString(), userAgent: navigator.userAgent, entries }, null, 2);
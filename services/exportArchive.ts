@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { toCsv } from './csv';
+import type { AppMode, HistoryEntry } from './historyStore';
+import type { InlineImage } from './imageProvider';
+import { base64ToBytes } from './placeholderImage';
+import { createZip, ZipEntry } from './zip';
+
+// --- ZIP EXPORT ---
+// Pose sets, history selections and batch runs all download as one zip: the
+// images plus manifest.json and manifest.csv describing how each was made.
+// File names follow `[sku_]<mode>_<title>_<nn>.<ext>` everywhere in the app.
+
+export interface ExportItem {
+    image: InlineImage;
+    appMode: AppMode;
+    title: string;
+    prompt: string;
+    model: string;
+    aspectRatio: string;
+    dressColor: string;
+    user: string;
+    createdAt: string;
+    sku?: string;
+}
+
+const MODE_PREFIX: Record<AppMode, string> = {
+    'virtual-try-on': 'virtual-try-on',
+    'model-generation': 'model-pose',
+};
+
+const EXTENSIONS: { [mimeType: string]: string } = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+};
+
+export const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/** `index` is zero-based (per SKU when there is one); it is written one-based and zero-padded. */
+export const exportFileName = (item: Pick<ExportItem, 'appMode' | 'title' | 'sku'> & { mimeType?: string }, index: number) => {
+    const prefix = MODE_PREFIX[item.appMode];
+    const title = slug(item.title);
+    const parts = [item.sku ? item.sku.replace(/[^a-z0-9._-]+/gi, '-') : '', prefix, title === prefix ? '' : title, String(index + 1).padStart(2, '0')];
+    return `${parts.filter(Boolean).join('_')}.${EXTENSIONS[item.mimeType ?? 'image/png'] ?? 'png'}`;
+};
+
+/** How the model was specified, for the manifest. */
+export const describeModel = (modelPrompt: string, hasModelImage: boolean, libraryModelName = '') =>
+    modelPrompt.trim() || (libraryModelName ? `Library model: ${libraryModelName}` : hasModelImage ? 'Uploaded model photo' : 'Default model');
+
+export const exportItemsFromEntry = (entry: HistoryEntry): ExportItem[] =>
+    entry.images.map(image => ({
+        image: image.image,
+        appMode: entry.inputs.appMode,
+        title: image.title,
+        prompt: image.prompt,
+        model: describeModel(entry.inputs.modelPrompt, !!entry.inputs.modelImage, entry.inputs.libraryModel?.name),
+        aspectRatio: entry.inputs.aspectRatio,
+        dressColor: entry.inputs.appMode === 'model-generation' ? entry.inputs.dressColor : '',
+        user: entry.owner,
+        createdAt: entry.createdAt,
+        ...(entry.inputs.sku ? { sku: entry.inputs.sku } : {}),
+    }));
+
+/** Zips the images with a JSON and CSV manifest. */
+export const buildExportArchive = (items: ExportItem[], exportedBy: string) => {
+    const exportedAt = new Date().toISOString();
+    // Numbering restarts for each SKU, so a SKU's first image is always _01.
+    const counters = new Map<string, number>();
+    const nextIndex = (sku = '') => {
+        const index = counters.get(sku) ?? 0;
+        counters.set(sku, index + 1);
+        return index;
+    };
+    const records = items.map(item => ({
+        file: exportFileName({ ...item, mimeType: item.image.mimeType }, nextIndex(item.sku)),
+        sku: item.sku ?? '',
+        mode: item.appMode,
+        title: item.title,
+        prompt: item.prompt,
+        model: item.model,
+        aspectRatio: item.aspectRatio,
+        dressColor: item.dressColor,
+        user: item.user,
+        createdAt: item.createdAt,
+    }));
+
+    const encoder = new TextEncoder();
+    const entries: ZipEntry[] = items.map((item, index) => ({ name: records[index].file, data: base64ToBytes(item.image.base64) }));
+    entries.push({ name: 'manifest.json', data: encoder.encode(JSON.stringify({ exportedAt, exportedBy, count: items.length, items: records }, null, 2)) });
+    entries.push({
+        name: 'manifest.csv',
+        data: encoder.encode(toCsv([
+            ['file', 'sku', 'mode', 'title', 'prompt', 'model', 'aspect_ratio', 'dress_colour', 'user', 'created_at'],
+            ...records.map(r => [r.file, r.sku, r.mode, r.title, r.prompt, r.model, r.aspectRatio, r.dressColor, r.user, r.createdAt]),
+        ])),
+    });
+    return createZip(entries);
+};
+
+/** Saves a blob through a temporary object URL. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportArchiveName = (label: string) => `${slug(label) || 'export'}-${new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-')}.zip`;
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { ExportItem } from './exportArchive';
+import type { ImageMetadata } from './imageMetadata';
+import type { InlineImage } from './imageProvider';
+
+// --- EXPORT POST-PROCESSING ---
+// Every download, single images and zips alike, goes through this pipeline before
+// it leaves the app:
+//   1. an optional resize to a publishing size
+//   2. an optional text or logo watermark
+//   3. re-encoding in sRGB at the chosen format and quality
+//   4. EXIF / XMP metadata with the prompt and SKU
+// The work runs in a Web Worker (services/exportWorker.ts), so large upscales do
+// not freeze the page. Settings are kept per browser.
+
+export type ExportSizeId = 'original' | 'instagram-portrait' | 'instagram-square' | 'pdp-large' | 'pdp-medium';
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+export type WatermarkMode = 'none' | 'text' | 'logo';
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+// Null keeps the image's own size. Other sizes fill the frame and trim the
+// overflow evenly, so a 3:4 result becomes a 4:5 Instagram post without bars.
+export const EXPORT_SIZES: Record<ExportSizeId, { label: string; width: number; height: number } | null> = {
+    'original': null,
+    'instagram-portrait': { label: 'Instagram portrait', width: 1080, height: 1350 },
+    'instagram-square': { label: 'Instagram square', width: 1080, height: 1080 },
+    'pdp-large': { label: 'Product page, large', width: 2000, height: 2500 },
+    'pdp-medium': { label: 'Product page, medium', width: 1200, height: 1500 },
+};
+
+export const WATERMARK_POSITION_LABELS: Record<WatermarkPosition, string> = {
+    'top-left': 'Top left',
+    'top-right': 'Top right',
+    'bottom-left': 'Bottom left',
+    'bottom-right': 'Bottom right',
+    'center': 'Centre',
+};
+
+export interface ExportSettings {
+    size: ExportSizeId;
+    format: ExportFormat;
+    quality: number; // 0-1; JPEG and WebP only
+    watermark: WatermarkMode;
+    watermarkText: string;
+    logo: InlineImage | null;
+    position: WatermarkPosition;
+    opacity: number; // 0-1
+    embedMetadata: boolean;
+}
+
+export const STUDIO_NAME = 'Usman Studio';
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+    size: 'original',
+    format: 'image/png',
+    quality: 0.92,
+    watermark: 'none',
+    watermarkText: STUDIO_NAME,
+    logo: null,
+    position: 'bottom-right',
+    opacity: 0.6,
+    embedMetadata: true,
+};
+
+const SETTINGS_KEY = 'virtual-try-on-export-settings';
+
+export const exportSettingsStore = {
+    load: (): ExportSettings => {
+        try {
+            return { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+        } catch {
+            return { ...DEFAULT_EXPORT_SETTINGS };
+        }
+    },
+    // Throws when the browser's storage is full, which a large logo can cause.
+    save: (settings: ExportSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings)),
+};
+
+/** A message to the export worker, and its answer. */
+export interface ExportJob {
+    id: number;
+    image: InlineImage;
+    settings: ExportSettings;
+    metadata: ImageMetadata;
+}
+export type ExportResult = { id: number; image: InlineImage } | { id: number; error: string };
+
+export const exportMetadata = (item: ExportItem): ImageMetadata => ({
+    title: item.title,
+    prompt: item.prompt,
+    sku: item.sku ?? '',
+    author: item.user,
+    createdAt: item.createdAt,
+    software: STUDIO_NAME,
+    copyright: `Copyright ${new Date(item.createdAt).getFullYear()} ${STUDIO_NAME}`,
+});
+
+/** Sends images to the export worker, which is started on first use. */
+export const createExportProcessor = () => {
+    let worker: Worker | null = null;
+    let nextId = 1;
+    const pending = new Map<number, { resolve: (image: InlineImage) => void; reject: (error: Error) => void }>();
+
+    const start = () => {
+        const started = new Worker(new URL('./exportWorker.ts', import.meta.url), { type: 'module' });
+        started.onmessage = (event: MessageEvent<ExportResult>) => {
+            const result = event.data;
+            const job = pending.get(result.id);
+            if (!job) return;
+            pending.delete(result.id);
+            if ('error' in result) job.reject(new Error(result.error));
+            else job.resolve(result.image);
+        };
+        // A worker that fails to load or crashes fails everything it was given;
+        // the next export starts a fresh one.
+        started.onerror = (event) => {
+            event.preventDefault();
+            pending.forEach(job => job.reject(new Error(event.message || 'The export worker stopped.')));
+            pending.clear();
+            started.terminate();
+            worker = null;
+        };
+        worker = started;
+        return started;
+    };
+
+    const process = (image: InlineImage, metadata: ImageMetadata, settings: ExportSettings) =>
+        new Promise<InlineImage>((resolve, reject) => {
+            const id = nextId++;
+            pending.set(id, { resolve, reject });
+            const job: ExportJob = { id, image, settings, metadata };
+            (worker ?? start()).postMessage(job);
+        });
+
+    return {
+        process,
+        /** The items with their images run through the pipeline, in order. */
+        processItems: (items: ExportItem[], settings = exportSettingsStore.load()) =>
+            Promise.all(items.map(async item => ({ ...item, image: await process(item.image, exportMetadata(item), settings) }))),
+    };
+};
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { EXPORT_SIZES, ExportJob, ExportResult, ExportSettings, WatermarkPosition } from './exportPipeline';
+import { embedMetadata } from './imageMetadata';
+import type { InlineImage } from './imageProvider';
+import { base64ToBytes, bytesToBase64 } from './placeholderImage';
+
+// --- EXPORT WORKER ---
+// Runs export jobs off the main thread: decode, resize, watermark, encode, then
+// tag with metadata. Settings and the message format live in
+// services/exportPipeline.ts.
+
+const scope = self as unknown as {
+    onmessage: ((event: MessageEvent<ExportJob>) => void) | null;
+    postMessage: (message: ExportResult) => void;
+};
+
+const MARGIN = 0.03; // of the image width, between a watermark and the edges
+const LOGO_WIDTH = 0.2; // of the image width
+const TEXT_SIZE = 0.035; // of the image width
+
+const decode = (image: InlineImage) => createImageBitmap(new Blob([base64ToBytes(image.base64)], { type: image.mimeType }));
+
+// Top-left corner of a box of the given size at `position`.
+const place = (position: WatermarkPosition, width: number, height: number, boxWidth: number, boxHeight: number) => {
+    const margin = Math.round(width * MARGIN);
+    const x = position.endsWith('left') ? margin : position.endsWith('right') ? width - boxWidth - margin : (width - boxWidth) / 2;
+    const y = position.startsWith('top') ? margin : position.startsWith('bottom') ? height - boxHeight - margin : (height - boxHeight) / 2;
+    return { x, y };
+};
+
+const drawWatermark = async (ctx: OffscreenCanvasRenderingContext2D, settings: ExportSettings, width: number, height: number) => {
+    ctx.save();
+    ctx.globalAlpha = settings.opacity;
+    if (settings.watermark === 'text' && settings.watermarkText.trim()) {
+        const text = settings.watermarkText.trim();
+        const fontSize = Math.max(12, Math.round(width * TEXT_SIZE));
+        ctx.font = `600 ${fontSize}px "Helvetica Neue", Arial, sans-serif`;
+        ctx.textBaseline = 'top';
+        const { x, y } = place(settings.position, width, height, ctx.measureText(text).width, fontSize);
+        // A soft shadow keeps white text readable on light backgrounds.
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.45)';
+        ctx.shadowBlur = fontSize / 4;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(text, x, y);
+    } else if (settings.watermark === 'logo' && settings.logo) {
+        const logo = await decode(settings.logo);
+        const logoWidth = width * LOGO_WIDTH;
+        const logoHeight = (logo.height * logoWidth) / logo.width;
+        const { x, y } = place(settings.position, width, height, logoWidth, logoHeight);
+        ctx.drawImage(logo, x, y, logoWidth, logoHeight);
+        logo.close();
+    }
+    ctx.restore();
+};
+
+const render = async ({ image, settings, metadata }: ExportJob): Promise<InlineImage> => {
+    if (typeof OffscreenCanvas === 'undefined') throw new Error('This browser cannot process exports in the background.');
+    const source = await decode(image);
+    const size = EXPORT_SIZES[settings.size];
+    const width = size?.width ?? source.width;
+    const height = size?.height ?? source.height;
+    const canvas = new OffscreenCanvas(width, height);
+    // sRGB is what browsers and social platforms assume for untagged images.
+    const ctx = canvas.getContext('2d', { colorSpace: 'srgb' }) as OffscreenCanvasRenderingContext2D;
+    if (settings.format === 'image/jpeg') {
+        ctx.fillStyle = '#ffffff'; // JPEG has no alpha; flatten onto white, not black
+        ctx.fillRect(0, 0, width, height);
+    }
+    // Fill the frame and trim the overflow evenly from both sides.
+    const scale = Math.max(width / source.width, height / source.height);
+    const cropWidth = width / scale;
+    const cropHeight = height / scale;
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, (source.width - cropWidth) / 2, (source.height - cropHeight) / 2, cropWidth, cropHeight, 0, 0, width, height);
+    source.close();
+    if (settings.watermark !== 'none') await drawWatermark(ctx, settings, width, height);
+
+    const blob = await canvas.convertToBlob({ type: settings.format, quality: settings.quality });
+    // Browsers that cannot encode the format fall back to PNG; label what was produced.
+    let bytes = new Uint8Array(await blob.arrayBuffer());
+    if (settings.embedMetadata) bytes = embedMetadata(bytes, blob.type, metadata, width, height);
+    return { base64: bytesToBase64(bytes), mimeType: blob.type };
+};
+
+scope.onmessage = async (event) => {
+    const job = event.data;
+    try {
+        scope.postMessage({ id: job.id, image: await render(job) });
+    } catch (error) {
+        scope.postMessage({ id: job.id, error: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- GARMENT SCHEMA ---
+// Every outfit type the studio shoots, described as data: the garment slots it
+// has, which of them must be uploaded, and how each piece is named in prompts and
+// image labels. The dashboard's outfit picker, uploaders and validation, batch
+// manifests and prompt building all read from here, so a new outfit type is one
+// entry in OUTFIT_TYPES.
+
+export interface GarmentSlot {
+    id: string; // key for uploads, history entries and batch manifest columns
+    label: string; // uploader caption, and the "This is the <label>:" image label
+    promptName: string; // how prompts name the piece, e.g. "Kameez (shirt)"
+    required: boolean;
+    matchWhenMissing?: boolean; // ask for a matching piece when no photo is given
+    defaultColour: string; // pose sets: the plain colour of a piece without a photo
+}
+
+export interface OutfitType {
+    id: string; // stored as `tryOnMode` on history entries
+    label: string;
+    promptName: string; // fills {{tryOnMode}}, e.g. "3-piece" or "lehenga choli"
+    slots: GarmentSlot[]; // in the order images are sent to the model
+    defaultModel: string; // used when neither the prompt nor the template describes the model
+}
+
+const slot = (id: string, label: string, promptName: string, options: Partial<GarmentSlot> = {}): GarmentSlot =>
+    ({ id, label, promptName, required: true, defaultColour: '#a855f7', ...options });
+
+const KAMEEZ = slot('kameez', 'Kameez', 'Kameez (shirt)');
+const DUPATTA = slot('dupatta', 'Dupatta', 'Dupatta (scarf)', { defaultColour: '#f5f0e6' });
+const TROUSER = slot('trouser', 'Trouser', 'Trouser (pants)', { required: false, matchWhenMissing: true });
+const KURTA = slot('kurta', 'Kurta', "Kurta (men's long shirt)", { defaultColour: '#f5f0e6' });
+const SHALWAR = slot('shalwar', 'Shalwar', 'Shalwar (loose trousers)', { required: false, matchWhenMissing: true, defaultColour: '#f5f0e6' });
+
+const WOMAN = 'an elegant Pakistani female model in her mid-20s, with long dark brown hair, warm brown eyes and a serene expression';
+const BRIDE = 'a graceful Pakistani female model in her mid-20s, with dark hair in a low bun, warm brown eyes and a poised, radiant expression';
+const MAN = 'a Pakistani male model in his late 20s, with short dark hair, a neatly trimmed beard and a confident, composed expression';
+const GROOM = 'a tall Pakistani male model in his late 20s, with neatly styled dark hair, a trimmed beard and a dignified expression';
+
+// Each outfit has at most three slots, which keeps a refinement (garments, model
+// photo, library references, the image) within the server's image limit.
+// '3-piece' and '2-piece' are the ids history entries were saved with before
+// other outfit types existed.
+export const OUTFIT_TYPES: OutfitType[] = [
+    { id: '3-piece', label: '3 Piece Shalwar Kameez', promptName: '3-piece', slots: [KAMEEZ, DUPATTA, TROUSER], defaultModel: WOMAN },
+    { id: '2-piece', label: '2 Piece Shalwar Kameez', promptName: '2-piece', slots: [KAMEEZ, TROUSER], defaultModel: WOMAN },
+    {
+        id: 'lehenga',
+        label: 'Lehenga',
+        promptName: 'lehenga choli',
+        slots: [
+            slot('choli', 'Choli', 'Choli (fitted blouse)'),
+            slot('lehenga', 'Lehenga', 'Lehenga (flared skirt)'),
+            { ...DUPATTA, required: false },
+        ],
+        defaultModel: BRIDE,
+    },
+    {
+        id: 'saree',
+        label: 'Saree',
+        promptName: 'saree',
+        slots: [
+            slot('saree', 'Saree', 'Saree (draped sari)'),
+            slot('blouse', 'Blouse', 'Saree blouse', { required: false, matchWhenMissing: true }),
+        ],
+        defaultModel: WOMAN,
+    },
+    {
+        id: 'sharara',
+        label: 'Sharara / Gharara',
+        promptName: 'sharara',
+        slots: [
+            slot('kurti', 'Kurti', 'Kurti (short tunic)'),
+            slot('sharara', 'Sharara', 'Sharara or gharara (wide flared trousers)'),
+            { ...DUPATTA, required: false },
+        ],
+        defaultModel: BRIDE,
+    },
+    {
+        id: 'waistcoat',
+        label: 'Kurta & Waistcoat',
+        promptName: "men's kurta shalwar with waistcoat",
+        slots: [KURTA, slot('waistcoat', 'Waistcoat', 'Waistcoat (sleeveless vest)', { defaultColour: '#1f2937' }), SHALWAR],
+        defaultModel: MAN,
+    },
+    { id: 'kurta-shalwar', label: "Men's Kurta Shalwar", promptName: "men's kurta shalwar", slots: [KURTA, SHALWAR], defaultModel: MAN },
+    {
+        id: 'sherwani',
+        label: 'Sherwani',
+        promptName: 'sherwani',
+        slots: [
+            slot('sherwani', 'Sherwani', 'Sherwani (long formal coat)', { defaultColour: '#f5f0e6' }),
+            slot('churidar', 'Churidar', 'Churidar (fitted trousers)', { required: false, matchWhenMissing: true, defaultColour: '#f5f0e6' }),
+            slot('stole', 'Stole', 'Stole (shawl)', { required: false }),
+        ],
+        defaultModel: GROOM,
+    },
+];
+
+export const DEFAULT_OUTFIT_TYPE = OUTFIT_TYPES[0];
+
+/** Every slot id used by any outfit type, each once. */
+export const GARMENT_SLOT_IDS = [...new Set(OUTFIT_TYPES.flatMap(outfit => outfit.slots.map(s => s.id)))];
+
+export const isOutfitType = (id: unknown) => OUTFIT_TYPES.some(outfit => outfit.id === id);
+
+/** The outfit type with this id; unknown ids fall back to the default. */
+export const outfitType = (id: string) => OUTFIT_TYPES.find(outfit => outfit.id === id) ?? DEFAULT_OUTFIT_TYPE;
+
+/** Required slots of the outfit that have nothing uploaded. */
+export const missingRequiredSlots = (outfit: OutfitType, garments: { [slot: string]: unknown }) =>
+    outfit.slots.filter(s => s.required && !garments[s.id]);
+
+// --- ACCESSORIES ---
+// Optional jewellery and accessories layered onto a try-on. They work with every
+// outfit type, are sent after the garments as labelled images, and are described
+// in the template's Accessories line together with where each one is worn.
+
+export type AccessoryPlacement = 'ears' | 'forehead' | 'wrists' | 'feet' | 'hand';
+
+export interface AccessorySlot {
+    id: string;
+    label: string;
+    promptName: string;
+    placement: AccessoryPlacement;
+}
+
+export const PLACEMENT_LABELS: Record<AccessoryPlacement, string> = {
+    ears: 'Ears',
+    forehead: 'Forehead',
+    wrists: 'Wrists',
+    feet: 'Feet',
+    hand: 'Hand',
+};
+
+// How prompts say where the piece goes: "the provided Bangles, worn on both wrists".
+export const PLACEMENT_DESCRIPTIONS: Record<AccessoryPlacement, string> = {
+    ears: 'worn on both ears',
+    forehead: 'worn at the centre of the forehead, hanging from the hair parting',
+    wrists: 'worn on both wrists',
+    feet: 'worn on both feet',
+    hand: 'held in one hand',
+};
+
+export const ACCESSORY_SLOTS: AccessorySlot[] = [
+    { id: 'jhumkas', label: 'Jhumkas', promptName: 'Jhumkas (bell-shaped earrings)', placement: 'ears' },
+    { id: 'maang-tikka', label: 'Maang Tikka', promptName: 'Maang tikka (forehead ornament)', placement: 'forehead' },
+    { id: 'bangles', label: 'Bangles', promptName: 'Bangles', placement: 'wrists' },
+    { id: 'khussa', label: 'Khussa', promptName: 'Khussa (embroidered flat shoes)', placement: 'feet' },
+    { id: 'clutch', label: 'Clutch', promptName: 'Clutch (small handbag)', placement: 'hand' },
+];
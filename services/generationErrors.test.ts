@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { assertHasImage, classifyGenerationError, ERROR_GUIDANCE, GenerationError } from './generationErrors';
+import { ImageGenerationResult, ImageProviderError } from './imageProvider';
+
+const result = (changes: Partial<ImageGenerationResult> = {}): ImageGenerationResult =>
+    ({ images: [], text: '', finishReason: 'STOP', provider: 'gemini', ...changes });
+
+const thrownBy = (run: () => void) => {
+    try {
+        run();
+    } catch (error) {
+        assert.ok(error instanceof GenerationError);
+        return error;
+    }
+    assert.fail('expected a GenerationError');
+};
+
+describe('assertHasImage', () => {
+    it('accepts a result with an image', () => {
+        assert.doesNotThrow(() => assertHasImage(result({ images: [{ base64: 'AAAA', mimeType: 'image/png' }] })));
+    });
+
+    it('reports a safety stop with the finish reason and the model text', () => {
+        const error = thrownBy(() => assertHasImage(result({ finishReason: 'IMAGE_SAFETY', text: '  I cannot make that image.\n' })));
+        assert.equal(error.kind, 'safety');
+        assert.equal(error.finishReason, 'IMAGE_SAFETY');
+        assert.equal(error.modelText, 'I cannot make that image.');
+        assert.equal(error.guidance, ERROR_GUIDANCE.safety);
+    });
+
+    it('reports any other empty reply as no image', () => {
+        assert.equal(thrownBy(() => assertHasImage(result({ finishReason: 'STOP', text: 'Here is a description.' }))).kind, 'no-image');
+    });
+});
+
+describe('classifyGenerationError', () => {
+    it('sorts provider errors by HTTP status', () => {
+        const kinds = [null, 0, 401, 403, 402, 429, 400, 413, 422, 500, 503, 404].map(status =>
+            classifyGenerationError(new ImageProviderError('failed', status)).kind);
+        assert.deepEqual(kinds, ['network', 'network', 'auth', 'auth', 'usage-limit', 'quota', 'invalid-input', 'invalid-input', 'invalid-input', 'service', 'service', 'unknown']);
+    });
+
+    it('keeps the message and status of a provider error', () => {
+        const error = classifyGenerationError(new ImageProviderError('Quota exhausted', 429));
+        assert.equal(error.message, 'Quota exhausted');
+        assert.equal(error.status, 429);
+    });
+
+    it('treats an abort as a cancellation', () => {
+        assert.equal(classifyGenerationError(new DOMException('The user aborted a request.', 'AbortError')).kind, 'cancelled');
+    });
+
+    it('passes a GenerationError through and wraps anything else as unknown', () => {
+        const original = new GenerationError('safety', 'Blocked');
+        assert.equal(classifyGenerationError(original), original);
+        assert.deepEqual([classifyGenerationError(new TypeError('x is undefined')), classifyGenerationError('oops')].map(e => [e.kind, e.message]), [
+            ['unknown', 'x is undefined'],
+            ['unknown', 'oops'],
+        ]);
+    });
+});
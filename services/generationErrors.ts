@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ImageGenerationResult, ImageProviderError } from './imageProvider';
+
+// --- GENERATION ERRORS ---
+// Every way a generation can fail is sorted into one `GenerationErrorKind`, each
+// with an explanation and a suggested fix for the UI. A reply without an image
+// counts as a failure too: the model's finish reason says whether a safety filter
+// stopped it, and any text it sent back is kept so the user can read it.
+
+export type GenerationErrorKind =
+    | 'safety'
+    | 'no-image'
+    | 'quota'
+    | 'usage-limit'
+    | 'invalid-input'
+    | 'network'
+    | 'auth'
+    | 'service'
+    | 'cancelled'
+    | 'unknown';
+
+export interface ErrorGuidance {
+    title: string;
+    explanation: string;
+    fix: string;
+}
+
+export const ERROR_GUIDANCE: { [kind in GenerationErrorKind]: ErrorGuidance } = {
+    safety: {
+        title: 'Blocked by safety filters',
+        explanation: 'The image service refused this request because the prompt or an uploaded photo tripped its safety filters.',
+        fix: 'Use a fully clothed model photo, reword the model and background prompts, and try again.',
+    },
+    'no-image': {
+        title: 'No image returned',
+        explanation: 'The model answered without an image.',
+        fix: 'Try again. If it keeps happening, make the prompts describe a photo more plainly or switch template.',
+    },
+    quota: {
+        title: 'Quota exceeded',
+        explanation: 'Too many generations were requested at once, or the image service quota is used up.',
+        fix: 'Wait a minute and retry, or lower "At once" in the Jobs panel.',
+    },
+    'usage-limit': {
+        title: 'Usage quota reached',
+        explanation: 'Your account has used the generations an admin allowed it for now.',
+        fix: 'Wait for the quota to reset, or ask an admin to raise it.',
+    },
+    'invalid-input': {
+        title: 'Request not accepted',
+        explanation: 'The server or the image service could not use the uploaded images or the request.',
+        fix: 'Re-upload the garment photos, crop them to the garment, and keep the upload size at 2048 px or less.',
+    },
+    network: {
+        title: 'Server unreachable',
+        explanation: 'The app could not reach the API server.',
+        fix: 'Check your connection and that the API server (npm run server) is running.',
+    },
+    auth: {
+        title: 'Not signed in or not allowed',
+        explanation: 'Your session has ended, or your role does not allow generating.',
+        fix: 'Sign in again. If that does not help, ask an admin to check your role.',
+    },
+    service: {
+        title: 'Image service unavailable',
+        explanation: 'The image service failed while handling the request.',
+        fix: 'Try again in a few minutes.',
+    },
+    cancelled: {
+        title: 'Cancelled',
+        explanation: 'The generation was cancelled before it finished.',
+        fix: '',
+    },
+    unknown: {
+        title: 'Generation failed',
+        explanation: 'Something unexpected went wrong.',
+        fix: 'Try again. If it keeps failing, an admin can check the diagnostic log.',
+    },
+};
+
+// Gemini finish and block reasons that mean a filter stopped the output.
+const SAFETY_REASONS = [
+    'SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'RECITATION',
+    'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'IMAGE_RECITATION',
+];
+
+export class GenerationError extends Error {
+    kind: GenerationErrorKind;
+    status: number | null;
+    finishReason: string | null;
+    modelText: string; // whatever text the model sent back instead of an image
+
+    constructor(kind: GenerationErrorKind, message: string, details: { status?: number | null; finishReason?: string | null; modelText?: string } = {}) {
+        super(message);
+        this.name = 'GenerationError';
+        this.kind = kind;
+        this.status = details.status ?? null;
+        this.finishReason = details.finishReason ?? null;
+        this.modelText = details.modelText ?? '';
+    }
+
+    get guidance() {
+        return ERROR_GUIDANCE[this.kind];
+    }
+}
+
+/** Throws a classified error when a result carries no image. */
+export const assertHasImage = (result: ImageGenerationResult) => {
+    if (result.images.length > 0) return;
+    const details = { finishReason: result.finishReason, modelText: result.text.trim() };
+    if (SAFETY_REASONS.includes(result.finishReason)) {
+        throw new GenerationError('safety', `Blocked by the image service (${result.finishReason}).`, details);
+    }
+    throw new GenerationError('no-image', `No image was returned (${result.finishReason}).`, details);
+};
+
+const kindForStatus = (status: number | null): GenerationErrorKind => {
+    if (status === null || status === 0) return 'network';
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 429) return 'quota';
+    if (status === 402) return 'usage-limit';
+    if (status === 400 || status === 413 || status === 422) return 'invalid-input';
+    if (status >= 500) return 'service';
+    return 'unknown';
+};
+
+/** Sorts any thrown value into a GenerationError, keeping the original message. */
+export const classifyGenerationError = (error: unknown): GenerationError => {
+    if (error instanceof GenerationError) return error;
+    if (error instanceof ImageProviderError) {
+        return new GenerationError(kindForStatus(error.status), error.message, { status: error.status });
+    }
+    if (error instanceof DOMException && error.name === 'AbortError') {
+        return new GenerationError('cancelled', ERROR_GUIDANCE.cancelled.explanation);
+    }
+    return new GenerationError('unknown', error instanceof Error ? error.message : String(error));
+};
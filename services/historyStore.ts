@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { outfitType } from './garmentSchema';
+import type { InlineImage } from './imageProvider';
+import type { Fabric, PieceColours } from './posePrompts';
+import { newId, requestToPromise, withStore } from './idb';
+
+// --- GENERATION HISTORY ---
+// Every successful generation is kept in IndexedDB together with the inputs that
+// produced it, so it can be reopened, downloaded again or re-run later.
+
+export type AppMode = 'virtual-try-on' | 'model-generation';
+export type TryOnMode = string; // an outfit type id (services/garmentSchema.ts)
+export type VariantStrategy = 'seed' | 'preset';
+
+/** Everything needed to put the dashboard back into the state that made an image. */
+export interface GenerationInputs {
+    appMode: AppMode;
+    tryOnMode: TryOnMode;
+    garments: { [slot: string]: InlineImage | null };
+    accessories?: { [slot: string]: InlineImage | null }; // try-ons: the accessories switched on
+    modelImage: InlineImage | null;
+    modelPrompt: string;
+    backgroundPrompt: string;
+    aspectRatio: string;
+    dressColor: string; // the main piece's colour of a pose set
+    // Absent on entries saved before multi-variant try-on existed.
+    variantCount?: number;
+    variantStrategy?: VariantStrategy;
+    sku?: string; // set on results of a batch catalog run
+    poseCount?: number;
+    libraryModel?: { id: string; name: string }; // the Model Library identity used, if any
+    pieceColours?: PieceColours; // pose sets; absent before per-piece colours existed
+    fabric?: Fabric;
+}
+
+export interface HistoryImage {
+    title: string;
+    prompt: string;
+    image: InlineImage;
+    favourite?: boolean;
+}
+
+export interface HistoryEntry {
+    id: string;
+    owner: string;
+    createdAt: string;
+    inputs: GenerationInputs;
+    images: HistoryImage[];
+    projectId?: string; // the project active when it was made (services/projects.ts)
+}
+
+const STORE = 'history';
+
+export const newHistoryEntry = (owner: string, inputs: GenerationInputs, images: HistoryImage[], projectId?: string): HistoryEntry =>
+    ({ id: newId(), owner, createdAt: new Date().toISOString(), inputs, images, ...(projectId ? { projectId } : {}) });
+
+export const historyStore = {
+    add: (owner: string, inputs: GenerationInputs, images: HistoryImage[], projectId?: string): Promise<HistoryEntry> => {
+        const entry = newHistoryEntry(owner, inputs, images, projectId);
+        return withStore(STORE, 'readwrite', store => requestToPromise(store.put(entry)).then(() => entry));
+    },
+    put: (entry: HistoryEntry) => withStore(STORE, 'readwrite', store => requestToPromise(store.put(entry))),
+    get: (id: string) => withStore(STORE, 'readonly', store => requestToPromise<HistoryEntry | undefined>(store.get(id))),
+    /** Newest first. */
+    listByOwner: async (owner: string) => {
+        const entries = await withStore(STORE, 'readonly', store =>
+            requestToPromise<HistoryEntry[]>(store.index('owner').getAll(owner)));
+        return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+    remove: (id: string) => withStore(STORE, 'readwrite', store => requestToPromise(store.delete(id))),
+};
+
+/** Case-insensitive match against titles, prompts, mode and date. */
+export const matchesHistorySearch = (entry: HistoryEntry, query: string) => {
+    const q = query.trim().toLowerCase();
+    if (!q) return true;
+    const haystack = [
+        entry.inputs.appMode,
+        entry.inputs.tryOnMode,
+        outfitType(entry.inputs.tryOnMode).label,
+        entry.inputs.modelPrompt,
+        entry.inputs.backgroundPrompt,
+        entry.inputs.dressColor,
+        entry.inputs.fabric ?? '',
+        entry.inputs.aspectRatio,
+        entry.inputs.sku ?? '',
+        entry.inputs.libraryModel?.name ?? '',
+        new Date(entry.createdAt).toLocaleString(),
+        ...entry.images.map(i => i.title),
+    ].join(' ').toLowerCase();
+    return haystack.includes(q);
+};
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- INDEXEDDB ---
+// One browser database for everything the app keeps locally. Each feature
+// declares its object store here; bump DB_VERSION whenever a store is added.
+
+const DB_NAME = 'virtual-try-on';
+const DB_VERSION = 6;
+
+interface StoreSchema {
+    name: string;
+    keyPath: string;
+    indexes?: { name: string; keyPath: string }[];
+}
+
+const STORES: StoreSchema[] = [
+    { name: 'history', keyPath: 'id', indexes: [{ name: 'owner', keyPath: 'owner' }] },
+    { name: 'templates', keyPath: 'id' },
+    { name: 'diagnostics', keyPath: 'id', indexes: [{ name: 'createdAt', keyPath: 'createdAt' }] },
+    { name: 'models', keyPath: 'id', indexes: [{ name: 'owner', keyPath: 'owner' }] },
+    { name: 'lookbooks', keyPath: 'id', indexes: [{ name: 'owner', keyPath: 'owner' }] },
+    { name: 'projects', keyPath: 'id', indexes: [{ name: 'owner', keyPath: 'owner' }] },
+];
+
+/** Random id for new records. */
+export const newId = () => (crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(16).slice(2)}`);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                const tx = request.transaction!;
+                STORES.forEach(schema => {
+                    const store = db.objectStoreNames.contains(schema.name)
+                        ? tx.objectStore(schema.name)
+                        : db.createObjectStore(schema.name, { keyPath: schema.keyPath });
+                    schema.indexes?.forEach(index => {
+                        if (!store.indexNames.contains(index.name)) store.createIndex(index.name, index.keyPath);
+                    });
+                });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/** Runs `fn` against one object store and resolves once the transaction commits. */
+export const withStore = async <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T> | T) => {
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+    const result = await fn(tx.objectStore(storeName));
+    await done;
+    return result;
+};
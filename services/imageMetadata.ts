@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { crc32 } from './placeholderImage';
+
+// --- EXPORT METADATA (EXIF / XMP) ---
+// Writes how an exported image was made into the file itself: a small EXIF block
+// (description, author, software, dates, sRGB colour space) and an XMP packet
+// with the full prompt and SKU. EXIF text is ASCII only, so the XMP packet is the
+// faithful copy. Works on JPEG, PNG and WebP bytes without re-encoding them, and
+// has no DOM dependencies so the export worker can use it.
+
+export interface ImageMetadata {
+    title: string;
+    prompt: string;
+    sku: string;
+    author: string;
+    createdAt: string; // ISO 8601
+    software: string;
+    copyright: string;
+}
+
+const concat = (parts: Uint8Array[]) => {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        out.set(part, offset);
+        offset += part.length;
+    });
+    return out;
+};
+
+const ascii = (text: string) => new Uint8Array([...text.replace(/[^\x20-\x7e]/g, '?')].map(c => c.charCodeAt(0)));
+
+// "2026:10:19 14:03:00", the only date format EXIF allows.
+const exifDate = (iso: string) => {
+    const date = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+type IfdEntry = { tag: number; type: 'ascii'; value: string } | { tag: number; type: 'short' | 'long'; value: number };
+
+// One IFD with its out-of-line values, laid out at `start` within the TIFF block.
+const writeIfd = (entries: IfdEntry[], start: number) => {
+    const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+    const tableSize = 2 + sorted.length * 12 + 4;
+    const values: Uint8Array[] = [];
+    let valueOffset = start + tableSize;
+    const table = new Uint8Array(tableSize);
+    const view = new DataView(table.buffer);
+    view.setUint16(0, sorted.length);
+    sorted.forEach((entry, index) => {
+        const at = 2 + index * 12;
+        view.setUint16(at, entry.tag);
+        if (entry.type === 'ascii') {
+            const bytes = concat([ascii(entry.value), new Uint8Array(1)]);
+            view.setUint16(at + 2, 2);
+            view.setUint32(at + 4, bytes.length);
+            if (bytes.length <= 4) {
+                table.set(bytes, at + 8);
+            } else {
+                view.setUint32(at + 8, valueOffset);
+                const padded = bytes.length % 2 ? concat([bytes, new Uint8Array(1)]) : bytes;
+                values.push(padded);
+                valueOffset += padded.length;
+            }
+        } else if (entry.type === 'short') {
+            view.setUint16(at + 2, 3);
+            view.setUint32(at + 4, 1);
+            view.setUint16(at + 8, entry.value);
+        } else {
+            view.setUint16(at + 2, 4);
+            view.setUint32(at + 4, 1);
+            view.setUint32(at + 8, entry.value);
+        }
+    });
+    view.setUint32(tableSize - 4, 0); // no next IFD
+    return concat([table, ...values]);
+};
+
+/** A big-endian TIFF block holding IFD0 and an Exif sub-IFD. */
+export const buildExif = (metadata: ImageMetadata) => {
+    const date = exifDate(metadata.createdAt);
+    const description = metadata.sku ? `${metadata.sku}: ${metadata.prompt}` : metadata.prompt;
+    const ifd0Entries = (exifOffset: number): IfdEntry[] => [
+        { tag: 0x010e, type: 'ascii', value: description }, // ImageDescription
+        { tag: 0x0131, type: 'ascii', value: metadata.software }, // Software
+        { tag: 0x0132, type: 'ascii', value: date }, // DateTime
+        { tag: 0x013b, type: 'ascii', value: metadata.author }, // Artist
+        { tag: 0x8298, type: 'ascii', value: metadata.copyright }, // Copyright
+        { tag: 0x8769, type: 'long', value: exifOffset }, // Exif IFD pointer
+    ];
+    // The pointer's value does not change the IFD's size, so measure with 0 first.
+    const ifd0Size = writeIfd(ifd0Entries(0), 8).length;
+    const ifd0 = writeIfd(ifd0Entries(8 + ifd0Size), 8);
+    const exifIfd = writeIfd([
+        { tag: 0x9003, type: 'ascii', value: date }, // DateTimeOriginal
+        { tag: 0xa001, type: 'short', value: 1 }, // ColorSpace: sRGB
+    ], 8 + ifd0.length);
+    const header = new Uint8Array([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08]); // "MM", 42, IFD0 at 8
+    return concat([header, ifd0, exifIfd]);
+};
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const altText = (text: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(text)}</rdf:li></rdf:Alt>`;
+
+/** An XMP packet (UTF-8) with the title, prompt, SKU, author and dates. */
+export const buildXmp = (metadata: ImageMetadata) => new TextEncoder().encode([
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""',
+    ' xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    ' xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"',
+    ` xmp:CreatorTool="${escapeXml(metadata.software)}"`,
+    ` xmp:CreateDate="${escapeXml(metadata.createdAt)}"`,
+    ` photoshop:ICCProfile="sRGB IEC61966-2.1">`,
+    `<dc:title>${altText(metadata.title)}</dc:title>`,
+    `<dc:description>${altText(metadata.prompt)}</dc:description>`,
+    `<dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.author)}</rdf:li></rdf:Seq></dc:creator>`,
+    `<dc:rights>${altText(metadata.copyright)}</dc:rights>`,
+    metadata.sku ? `<dc:identifier>${escapeXml(metadata.sku)}</dc:identifier>` : '',
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+].join(''));
+
+// --- JPEG: APP1 segments right after SOI (and after a JFIF APP0, if present) ---
+const MAX_SEGMENT = 0xffff - 2;
+
+const jpegSegment = (marker: number, payload: Uint8Array) => {
+    if (payload.length > MAX_SEGMENT) throw new Error('The metadata is too large to embed in a JPEG.');
+    const header = new Uint8Array([0xff, marker, 0, 0]);
+    new DataView(header.buffer).setUint16(2, payload.length + 2);
+    return concat([header, payload]);
+};
+
+const embedInJpeg = (bytes: Uint8Array, exif: Uint8Array, xmp: Uint8Array) => {
+    let insertAt = 2;
+    if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+        insertAt = 4 + new DataView(bytes.buffer, bytes.byteOffset).getUint16(4);
+    }
+    return concat([
+        bytes.subarray(0, insertAt),
+        jpegSegment(0xe1, concat([ascii('Exif'), new Uint8Array(2), exif])),
+        jpegSegment(0xe1, concat([ascii('http://ns.adobe.com/xap/1.0/'), new Uint8Array(1), xmp])),
+        bytes.subarray(insertAt),
+    ]);
+};
+
+// --- PNG: eXIf and iTXt chunks before the first IDAT ---
+const pngChunk = (type: string, data: Uint8Array) => {
+    const typeAndData = concat([ascii(type), data]);
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(typeAndData, 4);
+    view.setUint32(8 + data.length, crc32(typeAndData));
+    return chunk;
+};
+
+const embedInPng = (bytes: Uint8Array, exif: Uint8Array, xmp: Uint8Array) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 8;
+    while (offset < bytes.length) {
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        if (type === 'IDAT') break;
+        offset += 12 + view.getUint32(offset);
+    }
+    // iTXt: keyword, NUL, uncompressed, method 0, empty language and translated keyword.
+    const itxt = concat([ascii('XML:com.adobe.xmp'), new Uint8Array(5), xmp]);
+    return concat([bytes.subarray(0, offset), pngChunk('eXIf', exif), pngChunk('iTXt', itxt), bytes.subarray(offset)]);
+};
+
+// --- WebP: extended (VP8X) container with EXIF and XMP chunks after the image ---
+const riffChunk = (fourCc: string, data: Uint8Array) => {
+    const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+    chunk.set(ascii(fourCc), 0);
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+};
+
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+const VP8X_ALPHA = 0x10;
+
+const embedInWebp = (bytes: Uint8Array, exif: Uint8Array, xmp: Uint8Array, width: number, height: number) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: { fourCc: string; data: Uint8Array }[] = [];
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+        const size = view.getUint32(offset + 4, true);
+        chunks.push({ fourCc: String.fromCharCode(...bytes.subarray(offset, offset + 4)), data: bytes.subarray(offset + 8, offset + 8 + size) });
+        offset += 8 + size + (size % 2);
+    }
+    let vp8x = chunks.find(chunk => chunk.fourCc === 'VP8X')?.data;
+    if (!vp8x) {
+        vp8x = new Uint8Array(10);
+        const v = new DataView(vp8x.buffer);
+        v.setUint16(4, (width - 1) & 0xffff, true);
+        vp8x[6] = ((width - 1) >> 16) & 0xff;
+        v.setUint16(7, (height - 1) & 0xffff, true);
+        vp8x[9] = ((height - 1) >> 16) & 0xff;
+        if (chunks.some(chunk => chunk.fourCc === 'ALPH' || chunk.fourCc === 'VP8L')) vp8x[0] |= VP8X_ALPHA;
+    } else {
+        vp8x = vp8x.slice();
+    }
+    vp8x[0] |= VP8X_EXIF | VP8X_XMP;
+    const body = concat([
+        ascii('WEBP'),
+        riffChunk('VP8X', vp8x),
+        ...chunks.filter(chunk => !['VP8X', 'EXIF', 'XMP '].includes(chunk.fourCc)).map(chunk => riffChunk(chunk.fourCc, chunk.data)),
+        riffChunk('EXIF', exif),
+        riffChunk('XMP ', xmp),
+    ]);
+    const header = new Uint8Array(8);
+    header.set(ascii('RIFF'), 0);
+    new DataView(header.buffer).setUint32(4, body.length, true);
+    return concat([header, body]);
+};
+
+/** Returns the encoded image with EXIF and XMP metadata added. */
+export const embedMetadata = (bytes: Uint8Array, mimeType: string, metadata: ImageMetadata, width: number, height: number) => {
+    const exif = buildExif(metadata);
+    const xmp = buildXmp(metadata);
+    if (mimeType === 'image/jpeg') return embedInJpeg(bytes, exif, xmp);
+    if (mimeType === 'image/png') return embedInPng(bytes, exif, xmp);
+    if (mimeType === 'image/webp') return embedInWebp(bytes, exif, xmp, width, height);
+    return bytes;
+};
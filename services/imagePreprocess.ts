@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { InlineImage } from './imageProvider';
+import { bytesToBase64 } from './placeholderImage';
+
+// --- UPLOAD PREPROCESSING ---
+// Garment and model photos are normalised in the browser before they are sent:
+// validated, decoded with their EXIF orientation applied, optionally rotated and
+// cropped, scaled down to a maximum dimension, optionally given a clean white
+// background, and re-encoded as JPEG or WebP. Re-encoding through a canvas also
+// drops EXIF metadata (location, camera) from what leaves the device.
+
+export type OutputFormat = 'image/jpeg' | 'image/webp';
+export type BackgroundMode = 'keep' | 'flatten' | 'remove';
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface PreprocessSettings {
+    maxDimension: number;
+    format: OutputFormat;
+    quality: number; // 0-1
+    background: BackgroundMode;
+}
+
+/** Crop is a rectangle in 0-1 fractions of the rotated image. */
+export interface ImageEdit {
+    rotation: Rotation;
+    crop: { x: number; y: number; width: number; height: number } | null;
+}
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+    maxDimension: 1536,
+    format: 'image/jpeg',
+    quality: 0.9,
+    background: 'keep',
+};
+
+export const NO_EDIT: ImageEdit = { rotation: 0, crop: null };
+
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+const HEIC_TYPES = ['image/heic', 'image/heif'];
+
+/** Raised for files that cannot be used; the message is shown to the user as-is. */
+export class ImageValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImageValidationError';
+    }
+}
+
+// Some systems report HEIC photos with an empty type, so fall back to the extension.
+const effectiveType = (file: File) => {
+    if (file.type) return file.type.toLowerCase();
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    return extension === 'heic' || extension === 'heif' ? `image/${extension}` : '';
+};
+
+export const validateImageFile = (file: File) => {
+    if (!ACCEPTED_TYPES.includes(effectiveType(file))) {
+        throw new ImageValidationError(`${file.name} is not a supported image. Use JPEG, PNG, WebP or HEIC.`);
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+        throw new ImageValidationError(`${file.name} is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB.`);
+    }
+    if (file.size === 0) {
+        throw new ImageValidationError(`${file.name} is empty.`);
+    }
+};
+
+/**
+ * Validates and decodes a file. The decoder applies the EXIF orientation, so the
+ * bitmap is always upright. HEIC only decodes where the browser supports it.
+ */
+export const decodeImageFile = async (file: File) => {
+    validateImageFile(file);
+    try {
+        return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+        throw new ImageValidationError(HEIC_TYPES.includes(effectiveType(file))
+            ? `This browser cannot read HEIC photos. Export ${file.name} as JPEG and try again.`
+            : `${file.name} could not be read as an image.`);
+    }
+};
+
+export const decodeInlineImage = async (image: InlineImage) => {
+    const blob = await (await fetch(`data:${image.mimeType};base64,${image.base64}`)).blob();
+    return createImageBitmap(blob, { imageOrientation: 'from-image' });
+};
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    return canvas;
+};
+
+/** Draws `source` rotated clockwise by `rotation` onto a new canvas. */
+export const rotateToCanvas = (source: CanvasImageSource & { width: number; height: number }, rotation: Rotation) => {
+    const sideways = rotation === 90 || rotation === 270;
+    const canvas = createCanvas(sideways ? source.height : source.width, sideways ? source.width : source.height);
+    const ctx = canvas.getContext('2d')!;
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.drawImage(source, -source.width / 2, -source.height / 2);
+    return canvas;
+};
+
+// Flood-fills from the border over pixels close to the dominant border colour and
+// paints them white. Works for garments shot on a plain wall or sheet; busy
+// backgrounds are left alone because the fill stops at the first strong edge.
+const whitenUniformBackground = (ctx: CanvasRenderingContext2D, width: number, height: number, tolerance = 38) => {
+    const image = ctx.getImageData(0, 0, width, height);
+    const data = image.data;
+
+    const border: number[] = [];
+    for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+    for (let y = 0; y < height; y++) border.push(y * width, y * width + width - 1);
+
+    const channel = (c: number) => {
+        const values = border.map(p => data[p * 4 + c]).sort((a, b) => a - b);
+        return values[values.length >> 1];
+    };
+    const [r, g, b] = [channel(0), channel(1), channel(2)];
+    const matches = (p: number) =>
+        Math.abs(data[p * 4] - r) + Math.abs(data[p * 4 + 1] - g) + Math.abs(data[p * 4 + 2] - b) <= tolerance * 3;
+
+    const visited = new Uint8Array(width * height);
+    const stack = border.filter(matches);
+    stack.forEach(p => { visited[p] = 1; });
+    while (stack.length > 0) {
+        const p = stack.pop()!;
+        data[p * 4] = data[p * 4 + 1] = data[p * 4 + 2] = 255;
+        const x = p % width;
+        const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+        neighbours.forEach(n => {
+            if (n >= 0 && n < width * height && !visited[n] && matches(n)) {
+                visited[n] = 1;
+                stack.push(n);
+            }
+        });
+    }
+    ctx.putImageData(image, 0, 0);
+};
+
+const canvasToInlineImage = async (canvas: HTMLCanvasElement, format: OutputFormat, quality: number): Promise<InlineImage> => {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, format, quality));
+    if (!blob) throw new Error('The image could not be encoded.');
+    // Browsers without a WebP encoder hand back PNG; report what was produced.
+    return { base64: bytesToBase64(new Uint8Array(await blob.arrayBuffer())), mimeType: blob.type || format };
+};
+
+/** Runs the full pipeline on a decoded image. */
+export const processImage = async (source: ImageBitmap, edit: ImageEdit, settings: PreprocessSettings) => {
+    const rotated = rotateToCanvas(source, edit.rotation);
+    const crop = edit.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+    const sx = crop.x * rotated.width;
+    const sy = crop.y * rotated.height;
+    const sw = Math.max(1, crop.width * rotated.width);
+    const sh = Math.max(1, crop.height * rotated.height);
+
+    const scale = Math.min(1, settings.maxDimension / Math.max(sw, sh));
+    const output = createCanvas(sw * scale, sh * scale);
+    const ctx = output.getContext('2d', { willReadFrequently: settings.background === 'remove' })!;
+    ctx.imageSmoothingQuality = 'high';
+    if (settings.background !== 'keep' || settings.format === 'image/jpeg') {
+        // JPEG has no alpha; transparent areas would otherwise turn black.
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, output.width, output.height);
+    }
+    ctx.drawImage(rotated, sx, sy, sw, sh, 0, 0, output.width, output.height);
+    if (settings.background === 'remove') whitenUniformBackground(ctx, output.width, output.height);
+
+    return canvasToInlineImage(output, settings.format, settings.quality);
+};
+
+// --- Settings ---
+
+const SETTINGS_KEY = 'virtual-try-on-upload-settings';
+
+export const preprocessSettingsStore = {
+    load: (): PreprocessSettings => {
+        try {
+            return { ...DEFAULT_PREPROCESS_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+        } catch {
+            return { ...DEFAULT_PREPROCESS_SETTINGS };
+        }
+    },
+    save: (settings: PreprocessSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings)),
+};
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { createMockProvider, createServerProvider, fromDataUrl, ImageGenerationRequest, ImageProviderError, toDataUrl } from './imageProvider';
+
+const request = (changes: Partial<ImageGenerationRequest> = {}): ImageGenerationRequest => ({
+    mode: 'try-on',
+    prompts: ['A model in a green kameez'],
+    garments: [{ label: 'This is the Kameez:', image: { base64: 'AAAA', mimeType: 'image/png' } }],
+    aspectRatio: '3:4',
+    ...changes,
+});
+
+// Width and height from a PNG's IHDR chunk.
+const pngSize = (base64: string) => {
+    const bytes = Buffer.from(base64, 'base64');
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+};
+
+describe('createMockProvider', () => {
+    const provider = createMockProvider({ delayMs: 0 });
+
+    it('returns one PNG sized to the aspect ratio', async () => {
+        const result = await provider.generate(request());
+        assert.equal(result.provider, 'mock');
+        assert.equal(result.images.length, 1);
+        assert.equal(result.images[0].mimeType, 'image/png');
+        assert.deepEqual(pngSize(result.images[0].base64), { width: 288, height: 384 });
+        assert.deepEqual(pngSize((await provider.generate(request({ aspectRatio: '16:9' }))).images[0].base64), { width: 384, height: 216 });
+    });
+
+    it('gives the same image for the same request and a different one for another seed', async () => {
+        const [a, b, c] = await Promise.all([provider.generate(request()), provider.generate(request()), provider.generate(request({ seed: 7 }))]);
+        assert.equal(a.images[0].base64, b.images[0].base64);
+        assert.notEqual(a.images[0].base64, c.images[0].base64);
+    });
+});
+
+describe('data URLs', () => {
+    it('round-trip an inline image', () => {
+        const image = { base64: 'iVBORw0KGgo=', mimeType: 'image/png' };
+        assert.deepEqual(fromDataUrl(toDataUrl(image)), image);
+        assert.equal(fromDataUrl('https://example.com/a.png'), null);
+    });
+});
+
+describe('createServerProvider', () => {
+    const realFetch = globalThis.fetch;
+    afterEach(() => { globalThis.fetch = realFetch; });
+
+    it('posts to the endpoint for the mode', async () => {
+        let url = '';
+        globalThis.fetch = async (input) => {
+            url = String(input);
+            return Response.json({ images: [], text: '', finishReason: 'STOP', provider: 'mock' });
+        };
+        await createServerProvider({ baseUrl: '/api' }).generate(request({ mode: 'pose' }));
+        assert.equal(url, '/api/pose');
+    });
+
+    it('raises the server error with its status and Retry-After', async () => {
+        globalThis.fetch = async () => Response.json({ error: 'Slow down.' }, { status: 429, headers: { 'Retry-After': '3' } });
+        await assert.rejects(createServerProvider().generate(request()), (error: unknown) => {
+            assert.ok(error instanceof ImageProviderError);
+            assert.deepEqual([error.message, error.status, error.retryAfterMs], ['Slow down.', 429, 3000]);
+            return true;
+        });
+    });
+
+    it('reports an unreachable server without a status', async () => {
+        globalThis.fetch = async () => { throw new TypeError('fetch failed'); };
+        await assert.rejects(createServerProvider().generate(request()), (error: unknown) =>
+            error instanceof ImageProviderError && error.status === null);
+    });
+});
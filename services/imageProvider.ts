@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { bytesToBase64, encodePng } from './placeholderImage';
+
+// --- IMAGE GENERATION PROVIDERS ---
+// Every generation in the app goes through an `ImageProvider`: one typed request
+// in, one typed result out. The browser uses the server provider, which posts to
+// the local API server; that server in turn runs Gemini (server/providers.ts) or
+// the mock provider below, which returns deterministic placeholder PNGs so the app
+// can run without a key or network.
+
+export type GenerationMode = 'try-on' | 'pose' | 'refine' | 'inpaint';
+
+export interface InlineImage {
+    base64: string;
+    mimeType: string;
+}
+
+export interface LabelledImage {
+    label: string; // e.g. "This is the Kameez:"
+    image: InlineImage;
+}
+
+export interface ImageGenerationRequest {
+    mode: GenerationMode;
+    prompts: string[];
+    garments: LabelledImage[];
+    modelImage?: InlineImage | null;
+    // Reference photos of a Model Library identity (services/modelLibrary.ts).
+    modelReferences?: InlineImage[];
+    aspectRatio: string;
+    seed?: number; // fixed seed for reproducible variants; omit for a random one
+    // Refine mode only: the image being edited and the prompts that produced it.
+    // `prompts` then holds the follow-up instruction.
+    refine?: {
+        image: InlineImage;
+        originalPrompts: string[];
+    };
+    // Inpaint mode only: a crop of the image and a same-sized mask, white where
+    // the model may change pixels. `prompts` holds the region instruction.
+    inpaint?: {
+        image: InlineImage;
+        mask: InlineImage;
+    };
+}
+
+export interface ImageGenerationResult {
+    images: InlineImage[];
+    text: string;
+    finishReason: string;
+    provider: string;
+}
+
+export interface GenerateOptions {
+    signal?: AbortSignal; // aborts the call; the provider rejects with the signal's reason
+}
+
+export interface ImageProvider {
+    name: string;
+    generate: (request: ImageGenerationRequest, options?: GenerateOptions) => Promise<ImageGenerationResult>;
+}
+
+/**
+ * Raised by providers for failed calls; `status` mirrors the HTTP status when there
+ * is one, and `retryAfterMs` the server's Retry-After hint.
+ */
+export class ImageProviderError extends Error {
+    status: number | null;
+    retryAfterMs: number | null;
+
+    constructor(message: string, status: number | null = null, retryAfterMs: number | null = null) {
+        super(message);
+        this.name = 'ImageProviderError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export const toDataUrl = (image: InlineImage) => `data:${image.mimeType};base64,${image.base64}`;
+
+export const fromDataUrl = (url: string): InlineImage | null => {
+    const match = url.match(/^data:([^;,]+);base64,(.*)$/);
+    return match ? { mimeType: match[1], base64: match[2] } : null;
+};
+
+// FNV-1a, used to derive a stable colour from the request contents.
+const hashString = (value: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const dimensionsForAspectRatio = (aspectRatio: string, longSide = 384) => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    if (!w || !h) return { width: longSide, height: longSide };
+    return w >= h
+        ? { width: longSide, height: Math.round((longSide * h) / w) }
+        : { width: Math.round((longSide * w) / h), height: longSide };
+};
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+    const a = s * Math.min(l, 1 - l);
+    const f = (n: number) => {
+        const k = (n + h / 30) % 12;
+        return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+    };
+    return [f(0), f(8), f(4)];
+};
+
+export const createMockProvider = (options: { delayMs?: number } = {}): ImageProvider => {
+    const delayMs = options.delayMs ?? 400;
+    return {
+        name: 'mock',
+        generate: async (request) => {
+            const seed = hashString(JSON.stringify([request.mode, request.prompts, request.aspectRatio, request.garments.map(g => g.label), request.seed ?? null]));
+            const { width, height } = dimensionsForAspectRatio(request.aspectRatio);
+            const hue = seed % 360;
+            const top = hslToRgb(hue, 0.55, 0.35);
+            const bottom = hslToRgb((hue + 40) % 360, 0.6, 0.15);
+            const stripe = 8 + (seed % 24);
+
+            const png = encodePng(width, height, (x, y) => {
+                const t = y / Math.max(1, height - 1);
+                const band = Math.floor((x + y) / stripe) % 2 === 0 ? 0 : 12;
+                return [0, 1, 2].map(i => Math.min(255, Math.round(top[i] * (1 - t) + bottom[i] * t) + band)) as [number, number, number];
+            });
+
+            if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+
+            return {
+                images: [{ base64: bytesToBase64(png), mimeType: 'image/png' }],
+                text: `Mock ${request.mode} image (${width}x${height}, seed ${seed.toString(16)}).`,
+                finishReason: 'STOP',
+                provider: 'mock',
+            };
+        },
+    };
+};
+
+const SERVER_ENDPOINTS: Record<GenerationMode, string> = {
+    'try-on': '/try-on',
+    'pose': '/pose',
+    'refine': '/refine',
+    'inpaint': '/inpaint',
+};
+
+/** Browser-side provider that forwards requests to the API server. */
+export const createServerProvider = (options: { baseUrl?: string } = {}): ImageProvider => {
+    const baseUrl = options.baseUrl ?? '/api';
+    return {
+        name: 'server',
+        generate: async (request, options = {}) => {
+            let response: Response;
+            try {
+                // The session cookie is same-origin, so fetch sends it automatically.
+                response = await fetch(`${baseUrl}${SERVER_ENDPOINTS[request.mode]}`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(request),
+                    signal: options.signal,
+                });
+            } catch (error) {
+                if (options.signal?.aborted) throw error;
+                throw new ImageProviderError('Could not reach the image server. Is it running?');
+            }
+
+            const body = await response.json().catch(() => null);
+            if (!response.ok) {
+                const retryAfter = Number(response.headers.get('Retry-After'));
+                throw new ImageProviderError(
+                    body?.error || `Image server responded with ${response.status}.`,
+                    response.status,
+                    retryAfter > 0 ? retryAfter * 1000 : null,
+                );
+            }
+            return body as ImageGenerationResult;
+        },
+    };
+};
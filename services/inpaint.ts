@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { ImageGenerationRequest, InlineImage, LabelledImage } from './imageProvider';
+import { bytesToBase64 } from './placeholderImage';
+import { PromptTemplate, renderTemplate } from './promptTemplates';
+
+// --- REGION EDITING (INPAINTING) ---
+// The user paints a mask over a result. Only the masked area, plus a margin of
+// surrounding pixels for context, is cropped and sent with the mask and the
+// garment references. The returned patch is scaled back onto the crop and blended
+// through a slightly feathered mask, so pixels away from the painted area stay
+// exactly as they were.
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface InpaintCrop {
+    rect: Rect; // where the crop sits in the full image
+    image: InlineImage;
+    mask: InlineImage; // white where the model may change pixels, black elsewhere
+}
+
+const CONTEXT_MARGIN = 0.35; // of the mask's size, added on every side
+const MIN_CROP = 256; // px; tiny crops give the model too little to work with
+const FEATHER_PX = 4;
+
+const canvasOf = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    return canvas;
+};
+
+const canvasToPng = async (canvas: HTMLCanvasElement): Promise<InlineImage> => {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('The image could not be encoded.');
+    return { base64: bytesToBase64(new Uint8Array(await blob.arrayBuffer())), mimeType: 'image/png' };
+};
+
+/** Bounding box of every painted (non-transparent) pixel, or null for an empty mask. */
+export const maskBounds = (mask: HTMLCanvasElement): Rect | null => {
+    const { width, height } = mask;
+    const data = mask.getContext('2d')!.getImageData(0, 0, width, height).data;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] > 0) {
+                if (x < minX) minX = x;
+                if (x > maxX) maxX = x;
+                if (y < minY) minY = y;
+                if (y > maxY) maxY = y;
+            }
+        }
+    }
+    return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Grows the mask's box by the context margin, clamped to the image.
+const contextRect = (bounds: Rect, width: number, height: number): Rect => {
+    const grow = (size: number, limit: number) => Math.min(limit, Math.max(MIN_CROP, size * (1 + CONTEXT_MARGIN * 2)));
+    const w = grow(bounds.width, width);
+    const h = grow(bounds.height, height);
+    const x = Math.min(width - w, Math.max(0, bounds.x + bounds.width / 2 - w / 2));
+    const y = Math.min(height - h, Math.max(0, bounds.y + bounds.height / 2 - h / 2));
+    return { x: Math.round(x), y: Math.round(y), width: Math.round(w), height: Math.round(h) };
+};
+
+/** Cuts the region around the painted mask out of `source`; `mask` must match its size. */
+export const cropForInpaint = async (source: ImageBitmap, mask: HTMLCanvasElement): Promise<InpaintCrop | null> => {
+    const bounds = maskBounds(mask);
+    if (!bounds) return null;
+    const rect = contextRect(bounds, source.width, source.height);
+
+    const image = canvasOf(rect.width, rect.height);
+    image.getContext('2d')!.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+
+    const maskCrop = canvasOf(rect.width, rect.height);
+    const ctx = maskCrop.getContext('2d')!;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, rect.width, rect.height);
+    // Paint white through the mask's alpha, whatever colour it was drawn in.
+    const white = canvasOf(rect.width, rect.height);
+    const whiteCtx = white.getContext('2d')!;
+    whiteCtx.drawImage(mask, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+    whiteCtx.globalCompositeOperation = 'source-in';
+    whiteCtx.fillStyle = '#ffffff';
+    whiteCtx.fillRect(0, 0, rect.width, rect.height);
+    ctx.drawImage(white, 0, 0);
+
+    return { rect, image: await canvasToPng(image), mask: await canvasToPng(maskCrop) };
+};
+
+export const buildInpaintRequest = (template: PromptTemplate, crop: InpaintCrop, garments: LabelledImage[], instruction: string): ImageGenerationRequest => ({
+    mode: 'inpaint',
+    prompts: [renderTemplate(template.tryOn.inpaint, { instruction })],
+    garments,
+    aspectRatio: `${crop.rect.width}:${crop.rect.height}`,
+    inpaint: { image: crop.image, mask: crop.mask },
+});
+
+/**
+ * Blends the model's `patch` into `source` through the painted mask. Only pixels
+ * under the mask (and its feathered edge) change.
+ */
+export const compositeInpaint = async (source: ImageBitmap, mask: HTMLCanvasElement, rect: Rect, patch: ImageBitmap) => {
+    const output = canvasOf(source.width, source.height);
+    const ctx = output.getContext('2d')!;
+    ctx.drawImage(source, 0, 0);
+
+    const layer = canvasOf(rect.width, rect.height);
+    const layerCtx = layer.getContext('2d')!;
+    layerCtx.filter = `blur(${FEATHER_PX}px)`;
+    layerCtx.drawImage(mask, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+    layerCtx.filter = 'none';
+    layerCtx.globalCompositeOperation = 'source-in';
+    layerCtx.drawImage(patch, 0, 0, rect.width, rect.height);
+
+    ctx.drawImage(layer, rect.x, rect.y);
+    return canvasToPng(output);
+};
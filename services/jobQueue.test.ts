@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GenerationError } from './generationErrors';
+import { GenerateOptions, ImageGenerationRequest, ImageGenerationResult, ImageProvider, ImageProviderError } from './imageProvider';
+import { createJobQueue, isRetryable } from './jobQueue';
+
+const request: ImageGenerationRequest = { mode: 'try-on', prompts: ['A model in a green kameez'], garments: [], aspectRatio: '3:4' };
+
+const image: ImageGenerationResult = { images: [{ base64: 'AAAA', mimeType: 'image/png' }], text: '', finishReason: 'STOP', provider: 'test' };
+
+// A provider whose calls stay pending until the test settles them.
+const manualProvider = () => {
+    const calls: { options: GenerateOptions; resolve: (result: ImageGenerationResult) => void; reject: (error: unknown) => void }[] = [];
+    const provider: ImageProvider = {
+        name: 'test',
+        generate: (_request, options = {}) => new Promise((resolve, reject) => {
+            calls.push({ options, resolve, reject });
+        }),
+    };
+    return { provider, calls };
+};
+
+// A provider that answers each call with the next outcome: an error to throw, or a result.
+const scriptedProvider = (...outcomes: (ImageGenerationResult | Error)[]): ImageProvider => ({
+    name: 'test',
+    generate: async () => {
+        const outcome = outcomes.shift();
+        if (!outcome) throw new Error('No more outcomes.');
+        if (outcome instanceof Error) throw outcome;
+        return outcome;
+    },
+});
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const fast = { baseDelayMs: 1, maxDelayMs: 5 };
+
+describe('isRetryable', () => {
+    it('retries rate limits, server errors and lost connections only', () => {
+        assert.deepEqual([null, 429, 500, 503, 400, 401, 402].map(status => isRetryable(new ImageProviderError('x', status))), [true, true, true, true, false, false, false]);
+        assert.equal(isRetryable(new Error('x')), false);
+    });
+});
+
+describe('createJobQueue', () => {
+    it('runs at most `concurrency` jobs at once, oldest first', async () => {
+        const { provider, calls } = manualProvider();
+        const queue = createJobQueue(provider, { concurrency: 2 });
+        const results = ['first', 'second', 'third'].map(label => queue.submit(label, request));
+        assert.deepEqual(queue.jobs().map(job => job.status), ['running', 'running', 'queued']);
+        calls[1].resolve(image);
+        await results[1];
+        assert.deepEqual(queue.jobs().map(job => job.status), ['running', 'succeeded', 'running']);
+        calls[0].resolve(image);
+        calls[2].resolve(image);
+        await Promise.all(results);
+        assert.equal(calls.length, 3);
+    });
+
+    it('starts more jobs when the concurrency is raised', () => {
+        const { provider, calls } = manualProvider();
+        const queue = createJobQueue(provider, { concurrency: 1 });
+        ['a', 'b', 'c'].forEach(label => queue.submit(label, request).catch(() => {}));
+        assert.equal(calls.length, 1);
+        queue.setConcurrency(3);
+        assert.equal(calls.length, 3);
+        queue.cancelAll();
+    });
+
+    it('retries rate limits and server errors with backoff until one succeeds', async () => {
+        const provider = scriptedProvider(new ImageProviderError('Busy', 429), new ImageProviderError('Down', 503), image);
+        const queue = createJobQueue(provider, fast);
+        assert.equal(await queue.submit('retry', request), image);
+        assert.deepEqual(queue.jobs().map(job => [job.status, job.attempts]), [['succeeded', 3]]);
+    });
+
+    it("waits at least the server's Retry-After before retrying", async () => {
+        const queue = createJobQueue(scriptedProvider(new ImageProviderError('Busy', 429, 200), image), { baseDelayMs: 1, maxDelayMs: 1000 });
+        const result = queue.submit('retry', request);
+        await tick();
+        const [waiting] = queue.jobs();
+        assert.equal(waiting.status, 'waiting');
+        assert.ok(waiting.retryAt! - Date.now() > 150);
+        queue.cancelAll();
+        await assert.rejects(result, GenerationError);
+    });
+
+    it('gives up after `maxAttempts` and reports the failure once', async () => {
+        const failures: GenerationError[] = [];
+        const busy = () => new ImageProviderError('Busy', 429);
+        const queue = createJobQueue(scriptedProvider(busy(), busy(), busy()), { ...fast, maxAttempts: 3, onFailure: (_job, error) => failures.push(error) });
+        await assert.rejects(queue.submit('busy', request), (error: unknown) => error instanceof GenerationError && error.kind === 'quota');
+        assert.equal(queue.jobs()[0].attempts, 3);
+        assert.equal(failures.length, 1);
+    });
+
+    it('fails at once on errors a retry cannot fix, and on replies without an image', async () => {
+        const queue = createJobQueue(scriptedProvider(new ImageProviderError('Bad image', 400), { ...image, images: [], finishReason: 'IMAGE_SAFETY' }), fast);
+        await assert.rejects(queue.submit('bad', request), (error: unknown) => error instanceof GenerationError && error.kind === 'invalid-input');
+        await assert.rejects(queue.submit('blocked', request), (error: unknown) => error instanceof GenerationError && error.kind === 'safety');
+        assert.deepEqual(queue.jobs().map(job => job.attempts), [1, 1]);
+    });
+
+    it("cancels a running job through the caller's signal and aborts its call", async () => {
+        const { provider, calls } = manualProvider();
+        const queue = createJobQueue(provider);
+        const controller = new AbortController();
+        const result = queue.submit('cancel me', request, controller.signal);
+        controller.abort();
+        await assert.rejects(result, (error: unknown) => error instanceof GenerationError && error.kind === 'cancelled');
+        assert.equal(calls[0].options.signal?.aborted, true);
+        // A reply that arrives after the cancel is ignored.
+        calls[0].resolve(image);
+        await tick();
+        assert.equal(queue.jobs()[0].status, 'cancelled');
+    });
+
+    it('keeps only the 50 most recent finished jobs', async () => {
+        const queue = createJobQueue(scriptedProvider(...Array.from({ length: 55 }, () => image)), { concurrency: 5 });
+        await Promise.all(Array.from({ length: 55 }, (_, i) => queue.submit(`job ${i}`, request)));
+        await tick();
+        const labels = queue.jobs().map(job => job.label);
+        assert.equal(labels.length, 50);
+        assert.equal(labels[0], 'job 5');
+        queue.clearFinished();
+        assert.deepEqual(queue.jobs(), []);
+    });
+});
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { assertHasImage, classifyGenerationError, ERROR_GUIDANCE, GenerationError } from './generationErrors';
+import { newId } from './idb';
+import { ImageGenerationRequest, ImageGenerationResult, ImageProvider, ImageProviderError } from './imageProvider';
+
+// --- GENERATION JOB QUEUE ---
+// Every generation call in the browser runs as a job: queued, started when a slot
+// is free (so pose sets and batch runs stay under the image quota), retried with
+// exponential backoff on rate-limit and transient server errors, and cancellable
+// at any point through its AbortController. The queue panel subscribes to changes.
+// Jobs settle with a result that has an image, or reject with a GenerationError.
+
+export type JobStatus = 'queued' | 'running' | 'waiting' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+    id: string;
+    label: string; // e.g. "Front Pose" or "LWN-101"
+    mode: ImageGenerationRequest['mode'];
+    status: JobStatus;
+    attempts: number;
+    createdAt: number;
+    retryAt: number | null; // set while waiting to retry
+    error: string | null;
+}
+
+export interface JobQueueOptions {
+    concurrency: number;
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    /** Called once for every job that fails for good (not for cancellations). */
+    onFailure?: (job: GenerationJob, error: GenerationError, request: ImageGenerationRequest) => void;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: JobQueueOptions = {
+    concurrency: 2,
+    maxAttempts: 4,
+    baseDelayMs: 2000,
+    maxDelayMs: 30000,
+};
+
+const FINISHED: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+// The panel lists this many finished jobs at most; older ones are dropped, oldest first.
+const MAX_FINISHED_JOBS = 50;
+
+export const isFinished = (job: GenerationJob) => FINISHED.includes(job.status);
+
+/** Rate limits, server-side failures and lost connections are worth another attempt. */
+export const isRetryable = (error: unknown) =>
+    error instanceof ImageProviderError && (error.status === null || error.status === 429 || error.status >= 500);
+
+// Exponential backoff with jitter (half fixed, half random); the server's Retry-After wins when it is longer.
+const backoffDelay = (attempt: number, error: unknown, options: JobQueueOptions) => {
+    const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+    const jittered = exponential / 2 + Math.random() * (exponential / 2);
+    const retryAfter = error instanceof ImageProviderError ? error.retryAfterMs ?? 0 : 0;
+    return Math.max(jittered, Math.min(retryAfter, options.maxDelayMs));
+};
+
+interface QueueEntry {
+    job: GenerationJob;
+    request: ImageGenerationRequest | null; // dropped once the job finishes: it holds every uploaded image
+    controller: AbortController;
+    timer: ReturnType<typeof setTimeout> | null;
+    resolve: (result: ImageGenerationResult) => void;
+    reject: (error: unknown) => void;
+}
+
+export const createJobQueue = (provider: ImageProvider, initialOptions: Partial<JobQueueOptions> = {}) => {
+    const options: JobQueueOptions = { ...DEFAULT_QUEUE_OPTIONS, ...initialOptions };
+    const entries: QueueEntry[] = [];
+    const listeners = new Set<(jobs: GenerationJob[]) => void>();
+
+    const notify = () => {
+        const jobs = entries.map(entry => ({ ...entry.job }));
+        listeners.forEach(listener => listener(jobs));
+    };
+
+    const finish = (entry: QueueEntry, status: JobStatus, error: string | null = null) => {
+        entry.job.status = status;
+        entry.job.error = error;
+        entry.job.retryAt = null;
+        if (entry.timer) clearTimeout(entry.timer);
+        entry.timer = null;
+        entry.request = null;
+    };
+
+    const pruneFinished = () => {
+        const finished = entries.filter(entry => isFinished(entry.job));
+        finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach(entry => entries.splice(entries.indexOf(entry), 1));
+    };
+
+    const run = async (entry: QueueEntry) => {
+        const { request } = entry;
+        if (!request) return;
+        entry.job.status = 'running';
+        entry.job.attempts += 1;
+        notify();
+        try {
+            const result = await provider.generate(request, { signal: entry.controller.signal });
+            if (entry.job.status !== 'running') return; // cancelled while in flight
+            assertHasImage(result);
+            finish(entry, 'succeeded');
+            entry.resolve(result);
+        } catch (error) {
+            if (entry.job.status !== 'running') return;
+            if (isRetryable(error) && entry.job.attempts < options.maxAttempts) {
+                const delay = backoffDelay(entry.job.attempts, error, options);
+                entry.job.status = 'waiting';
+                entry.job.retryAt = Date.now() + delay;
+                entry.job.error = error instanceof Error ? error.message : String(error);
+                entry.timer = setTimeout(() => {
+                    entry.timer = null;
+                    entry.job.status = 'queued';
+                    entry.job.retryAt = null;
+                    pump();
+                }, delay);
+            } else {
+                const failure = classifyGenerationError(error);
+                finish(entry, 'failed', `${failure.guidance.title}: ${failure.message}`);
+                options.onFailure?.({ ...entry.job }, failure, request);
+                entry.reject(failure);
+            }
+        }
+        pump();
+    };
+
+    // Starts queued jobs, oldest first, while there are free slots.
+    const pump = () => {
+        let running = entries.filter(entry => entry.job.status === 'running').length;
+        for (const entry of entries) {
+            if (running >= options.concurrency) break;
+            if (entry.job.status === 'queued') {
+                running++;
+                run(entry);
+            }
+        }
+        pruneFinished();
+        notify();
+    };
+
+    const queue = {
+        /**
+         * Queues a generation and resolves with its result once a try succeeds.
+         * Aborting `signal` cancels the job, so a caller can cancel a group at once.
+         */
+        submit: (label: string, request: ImageGenerationRequest, signal?: AbortSignal) => new Promise<ImageGenerationResult>((resolve, reject) => {
+            const id = newId();
+            entries.push({
+                job: { id, label, mode: request.mode, status: 'queued', attempts: 0, createdAt: Date.now(), retryAt: null, error: null },
+                request,
+                controller: new AbortController(),
+                timer: null,
+                resolve,
+                reject,
+            });
+            signal?.addEventListener('abort', () => queue.cancel(id), { once: true });
+            if (signal?.aborted) queue.cancel(id);
+            else pump();
+        }),
+        /** Cancels a queued, running or waiting job; its promise rejects with a 'cancelled' GenerationError. */
+        cancel: (id: string) => {
+            const entry = entries.find(e => e.job.id === id);
+            if (!entry || isFinished(entry.job)) return;
+            finish(entry, 'cancelled');
+            entry.controller.abort();
+            entry.reject(new GenerationError('cancelled', ERROR_GUIDANCE.cancelled.explanation));
+            pump();
+        },
+        cancelAll: () => entries.filter(e => !isFinished(e.job)).forEach(e => queue.cancel(e.job.id)),
+        clearFinished: () => {
+            for (let i = entries.length - 1; i >= 0; i--) {
+                if (isFinished(entries[i].job)) entries.splice(i, 1);
+            }
+            notify();
+        },
+        jobs: () => entries.map(entry => ({ ...entry.job })),
+        subscribe: (listener: (jobs: GenerationJob[]) => void) => {
+            listeners.add(listener);
+            listener(queue.jobs());
+            return () => { listeners.delete(listener); };
+        },
+        getConcurrency: () => options.concurrency,
+        setConcurrency: (concurrency: number) => {
+            options.concurrency = Math.max(1, concurrency);
+            pump();
+        },
+    };
+    return queue;
+};
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { LookbookDocument, renderLookbookHtml } from './lookbook';
+
+const lookbook = (changes: Partial<LookbookDocument> = {}): LookbookDocument => ({
+    id: 'lookbook-0001',
+    title: 'Eid Lawn 2026',
+    client: '',
+    intro: '',
+    items: [{ image: { base64: 'AAAA', mimeType: 'image/png' }, title: 'Look 1', sku: '', price: '', notes: '' }],
+    publishedAt: '2026-10-19T09:00:00.000Z',
+    ...changes,
+});
+
+describe('renderLookbookHtml', () => {
+    it('escapes every text field', () => {
+        const html = renderLookbookHtml(lookbook({
+            title: '<script>alert(1)</script>',
+            client: 'Ayesha & "Co"',
+            intro: "It's <b>bold</b>",
+            items: [{ image: { base64: 'AAAA', mimeType: 'image/png' }, title: '"><img src=x onerror=alert(1)>', sku: '<SKU>', price: '<PKR>', notes: '<i>note</i>' }],
+        }));
+        assert.ok(!html.includes('<script>alert(1)</script>'));
+        assert.ok(!html.includes('<img src=x'));
+        assert.ok(!html.includes('<b>') && !html.includes('<i>'));
+        assert.ok(html.includes('&lt;script&gt;alert(1)&lt;/script&gt;'));
+        assert.ok(html.includes('Prepared for Ayesha &amp; &quot;Co&quot;'));
+        assert.ok(html.includes('<p>It&#39;s &lt;b&gt;bold&lt;/b&gt;</p>'));
+        assert.ok(html.includes('alt="&quot;&gt;&lt;img src=x onerror=alert(1)&gt;"'));
+        assert.ok(html.includes('SKU &lt;SKU&gt;'));
+    });
+
+    it('turns blank lines in notes into paragraphs and single newlines into breaks', () => {
+        const html = renderLookbookHtml(lookbook({ intro: 'First line\nsecond line\n\nNew paragraph' }));
+        assert.ok(html.includes('<p>First line<br>second line</p><p>New paragraph</p>'));
+    });
+
+    it('leaves out the client, price, SKU and notes when they are empty', () => {
+        const html = renderLookbookHtml(lookbook());
+        assert.ok(!html.includes('Prepared for'));
+        assert.ok(!html.includes('class="price"'));
+        assert.ok(!html.includes('class="sku"'));
+        assert.ok(!html.includes('class="notes"'));
+    });
+});
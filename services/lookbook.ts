@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ExportItem, slug } from './exportArchive';
+import { STUDIO_NAME } from './exportPipeline';
+import { newId, requestToPromise, withStore } from './idb';
+import { InlineImage, toDataUrl } from './imageProvider';
+
+// --- LOOKBOOKS ---
+// Client-facing selections of results, with a title, SKU, price and notes for each
+// image. Lookbooks are edited and kept in this browser's IndexedDB. Exports and
+// published copies are a `LookbookDocument`: the same content, with images already
+// run through the export pipeline. `renderLookbookHtml` turns one into a single
+// self-contained, printable page in the studio's branding. The public
+// `#lookbook/<id>` route shows the published copy kept by the API server
+// (server/lookbooks.ts).
+
+export interface LookbookItem {
+    id: string;
+    image: InlineImage;
+    title: string;
+    sku: string;
+    price: string; // free text, e.g. "PKR 12,500"
+    notes: string;
+    source: Omit<ExportItem, 'image'>; // how the image was made, for export metadata
+}
+
+export interface Lookbook {
+    id: string;
+    owner: string;
+    title: string;
+    client: string;
+    intro: string;
+    items: LookbookItem[];
+    createdAt: string;
+    updatedAt: string;
+    publishedAt: string | null; // when the public copy was last updated
+}
+
+/** What is exported and published: text and processed images only. */
+export interface LookbookDocument {
+    id: string;
+    title: string;
+    client: string;
+    intro: string;
+    items: { image: InlineImage; title: string; sku: string; price: string; notes: string }[];
+    publishedAt: string;
+}
+
+export const MAX_LOOKBOOK_ITEMS = 40;
+export const LOOKBOOK_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+const STORE = 'lookbooks';
+
+export const lookbookFileName = (title: string) => `${slug(title) || 'lookbook'}.html`;
+
+export const newLookbook = (owner: string): Lookbook => {
+    const now = new Date().toISOString();
+    return { id: newId(), owner, title: 'Untitled lookbook', client: '', intro: '', items: [], createdAt: now, updatedAt: now, publishedAt: null };
+};
+
+export const newLookbookItem = ({ image, ...source }: ExportItem): LookbookItem =>
+    ({ id: newId(), image, title: source.title, sku: source.sku ?? '', price: '', notes: '', source });
+
+/** Human-readable problems that stop a lookbook from being saved or shared. */
+export const validateLookbook = (lookbook: Pick<Lookbook, 'title' | 'items'>) => {
+    const problems: string[] = [];
+    if (!lookbook.title.trim()) problems.push('The lookbook needs a title.');
+    if (lookbook.items.length === 0) problems.push('Add at least one image.');
+    if (lookbook.items.length > MAX_LOOKBOOK_ITEMS) problems.push(`Use at most ${MAX_LOOKBOOK_ITEMS} images.`);
+    return problems;
+};
+
+export const lookbookStore = {
+    /** The user's lookbooks, most recently edited first. */
+    listByOwner: async (owner: string) => {
+        const lookbooks = await withStore(STORE, 'readonly', store => requestToPromise<Lookbook[]>(store.index('owner').getAll(owner)));
+        return lookbooks.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+    get: (id: string) => withStore(STORE, 'readonly', store => requestToPromise<Lookbook | undefined>(store.get(id))),
+    put: (lookbook: Lookbook) => {
+        const saved = { ...lookbook, title: lookbook.title.trim(), client: lookbook.client.trim(), updatedAt: new Date().toISOString() };
+        return withStore(STORE, 'readwrite', store => requestToPromise(store.put(saved)).then(() => saved));
+    },
+    remove: (id: string) => withStore(STORE, 'readwrite', store => requestToPromise(store.delete(id))),
+};
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const paragraphs = (text: string) =>
+    text.trim().split(/\n\s*\n/).filter(Boolean).map(p => `<p>${escapeHtml(p.trim()).replace(/\n/g, '<br>')}</p>`).join('');
+
+const LOOKBOOK_CSS = `
+* { box-sizing: border-box; }
+body { margin: 0; background: #faf7f2; color: #1c0a2e; font-family: 'Helvetica Neue', Arial, sans-serif; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+.page { max-width: 1080px; margin: 0 auto; padding: 48px 32px; }
+header { text-align: center; border-bottom: 1px solid #d8c7ee; padding-bottom: 32px; margin-bottom: 40px; }
+.brand { font-family: 'Cormorant Garamond', Georgia, serif; letter-spacing: 0.3em; text-transform: uppercase; color: #9333ea; font-size: 14px; margin: 0 0 16px; }
+h1 { font-family: 'Cormorant Garamond', Georgia, serif; font-weight: 500; font-size: 44px; margin: 0; }
+.client { margin: 8px 0 0; color: #6b5a80; font-size: 15px; }
+.intro { max-width: 640px; margin: 24px auto 0; line-height: 1.6; color: #3d2b55; }
+.looks { display: grid; grid-template-columns: repeat(2, 1fr); gap: 40px 32px; }
+figure { margin: 0; break-inside: avoid; page-break-inside: avoid; }
+figure img { display: block; width: 100%; height: auto; border-radius: 4px; }
+figcaption { padding-top: 12px; }
+.look-title { display: flex; justify-content: space-between; gap: 12px; align-items: baseline; }
+h2 { font-family: 'Cormorant Garamond', Georgia, serif; font-weight: 600; font-size: 22px; margin: 0; }
+.price { font-weight: bold; color: #9333ea; white-space: nowrap; }
+.sku { margin: 4px 0 0; font-size: 12px; letter-spacing: 0.08em; text-transform: uppercase; color: #6b5a80; }
+.notes { font-size: 14px; line-height: 1.5; color: #3d2b55; }
+.notes p { margin: 6px 0 0; }
+footer { margin-top: 48px; padding-top: 16px; border-top: 1px solid #d8c7ee; text-align: center; font-size: 12px; color: #6b5a80; }
+@media (max-width: 640px) { .looks { grid-template-columns: 1fr; } h1 { font-size: 34px; } }
+@page { size: A4; margin: 14mm; }
+@media print { body { background: #fff; } .page { padding: 0; } .looks { gap: 24px 20px; } }
+`;
+
+/** A complete HTML page for the lookbook; images are inlined, so it needs nothing else. */
+export const renderLookbookHtml = (lookbook: LookbookDocument) => {
+    const looks = lookbook.items.map(item => `
+<figure>
+  <img src="${toDataUrl(item.image)}" alt="${escapeHtml(item.title)}">
+  <figcaption>
+    <div class="look-title"><h2>${escapeHtml(item.title)}</h2>${item.price.trim() ? `<span class="price">${escapeHtml(item.price.trim())}</span>` : ''}</div>
+    ${item.sku.trim() ? `<p class="sku">SKU ${escapeHtml(item.sku.trim())}</p>` : ''}
+    ${item.notes.trim() ? `<div class="notes">${paragraphs(item.notes)}</div>` : ''}
+  </figcaption>
+</figure>`).join('');
+    const date = new Date(lookbook.publishedAt).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(lookbook.title)} · ${STUDIO_NAME}</title>
+<style>${LOOKBOOK_CSS}</style>
+</head>
+<body>
+<div class="page">
+<header>
+  <p class="brand">${STUDIO_NAME}</p>
+  <h1>${escapeHtml(lookbook.title)}</h1>
+  ${lookbook.client.trim() ? `<p class="client">Prepared for ${escapeHtml(lookbook.client.trim())}</p>` : ''}
+  ${lookbook.intro.trim() ? `<div class="intro">${paragraphs(lookbook.intro)}</div>` : ''}
+</header>
+<main class="looks">${looks}
+</main>
+<footer>${STUDIO_NAME} · ${escapeHtml(date)}</footer>
+</div>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { InlineImage } from './imageProvider';
+import { newId, requestToPromise, withStore } from './idb';
+
+// --- MODEL LIBRARY ---
+// Named model identities: a description plus a few reference photos of the same
+// person. Picking one on the dashboard sends its photos with every try-on and
+// pose request, so the face stays the same across poses and across sessions.
+// A model is private to its owner unless shared with the whole studio.
+
+export interface LibraryModel {
+    id: string;
+    owner: string;
+    name: string;
+    description: string;
+    images: InlineImage[];
+    shared: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Three keeps a refinement (garments, model photo, references, the image) within
+// the server's default image limit.
+export const MAX_MODEL_REFERENCES = 3;
+
+const STORE = 'models';
+
+export const newLibraryModel = (owner: string): LibraryModel => {
+    const now = new Date().toISOString();
+    return { id: newId(), owner, name: '', description: '', images: [], shared: false, createdAt: now, updatedAt: now };
+};
+
+/** Human-readable problems that stop a model from being saved. */
+export const validateLibraryModel = (model: LibraryModel) => {
+    const problems: string[] = [];
+    if (!model.name.trim()) problems.push('The model needs a name.');
+    if (model.images.length === 0) problems.push('Add at least one reference photo.');
+    if (model.images.length > MAX_MODEL_REFERENCES) problems.push(`Use at most ${MAX_MODEL_REFERENCES} reference photos.`);
+    return problems;
+};
+
+/** Owners edit their own models; admins may edit any shared one. */
+export const canEditLibraryModel = (model: LibraryModel, user: { username: string } | null, isAdmin: boolean) =>
+    !!user && (model.owner === user.username || (isAdmin && model.shared));
+
+export const modelLibrary = {
+    /** The user's own models and everything shared, sorted by name. */
+    listFor: async (username: string) => {
+        const models = await withStore(STORE, 'readonly', store => requestToPromise<LibraryModel[]>(store.getAll()));
+        return models
+            .filter(model => model.owner === username || model.shared)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    get: (id: string) => withStore(STORE, 'readonly', store => requestToPromise<LibraryModel | undefined>(store.get(id))),
+    put: (model: LibraryModel) => {
+        const saved = { ...model, name: model.name.trim(), description: model.description.trim(), updatedAt: new Date().toISOString() };
+        return withStore(STORE, 'readwrite', store => requestToPromise(store.put(saved)).then(() => saved));
+    },
+    remove: (id: string) => withStore(STORE, 'readwrite', store => requestToPromise(store.delete(id))),
+};
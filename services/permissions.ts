@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- ROLES & PERMISSIONS ---
+// Shared by the browser (route guards, UI) and the API server (enforcement).
+// The server is the authority; the browser only uses this to hide what the
+// server would refuse anyway.
+
+export type Role = 'admin' | 'stylist' | 'viewer';
+export type Permission = 'generate' | 'manage-users' | 'view-history';
+
+export const ROLES: Role[] = ['admin', 'stylist', 'viewer'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+    admin: 'Admin',
+    stylist: 'Stylist',
+    viewer: 'Viewer',
+};
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    admin: ['generate', 'manage-users', 'view-history'],
+    stylist: ['generate', 'view-history'],
+    viewer: ['view-history'],
+};
+
+export const DEFAULT_ROLE: Role = 'stylist';
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const permissionsForRole = (role: Role): Permission[] => ROLE_PERMISSIONS[role] ?? [];
+
+export const hasPermission = (user: { role: Role } | null | undefined, permission: Permission) =>
+    !!user && permissionsForRole(user.role).includes(permission);
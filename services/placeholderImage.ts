@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- PLACEHOLDER PNG ENCODER ---
+// A tiny dependency-free PNG writer used by the mock image provider. It works in
+// both the browser and Node, so offline demos and automated tests need neither a
+// canvas nor the network.
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/** CRC-32 as used by PNG chunks and zip entries. */
+export const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array) => {
+    let a = 1;
+    let b = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        a = (a + bytes[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+};
+
+const writeUint32 = (target: Uint8Array, offset: number, value: number) => {
+    target[offset] = (value >>> 24) & 0xff;
+    target[offset + 1] = (value >>> 16) & 0xff;
+    target[offset + 2] = (value >>> 8) & 0xff;
+    target[offset + 3] = value & 0xff;
+};
+
+const chunk = (type: string, data: Uint8Array) => {
+    const out = new Uint8Array(12 + data.length);
+    writeUint32(out, 0, data.length);
+    for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+    out.set(data, 8);
+    writeUint32(out, 8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+    return out;
+};
+
+// zlib stream made of uncompressed ("stored") deflate blocks.
+const zlibStore = (raw: Uint8Array) => {
+    const MAX_BLOCK = 65535;
+    const blockCount = Math.max(1, Math.ceil(raw.length / MAX_BLOCK));
+    const out = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+    out[0] = 0x78;
+    out[1] = 0x01;
+    let offset = 2;
+    for (let i = 0; i < blockCount; i++) {
+        const start = i * MAX_BLOCK;
+        const length = Math.min(MAX_BLOCK, raw.length - start);
+        out[offset++] = i === blockCount - 1 ? 1 : 0;
+        out[offset++] = length & 0xff;
+        out[offset++] = (length >>> 8) & 0xff;
+        out[offset++] = ~length & 0xff;
+        out[offset++] = (~length >>> 8) & 0xff;
+        out.set(raw.subarray(start, start + length), offset);
+        offset += length;
+    }
+    writeUint32(out, offset, adler32(raw));
+    return out;
+};
+
+const concatBytes = (parts: Uint8Array[]) => {
+    const total = parts.reduce((sum, p) => sum + p.length, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    parts.forEach(p => {
+        out.set(p, offset);
+        offset += p.length;
+    });
+    return out;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    const CHUNK = 0x8000;
+    for (let i = 0; i < bytes.length; i += CHUNK) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+    }
+    return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string) => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+/**
+ * Encodes an 8-bit RGB image as PNG. `pixel` is called once per pixel and must
+ * return `[r, g, b]` in the 0-255 range.
+ */
+export const encodePng = (width: number, height: number, pixel: (x: number, y: number) => [number, number, number]) => {
+    const stride = width * 3 + 1;
+    const raw = new Uint8Array(stride * height);
+    for (let y = 0; y < height; y++) {
+        raw[y * stride] = 0; // filter: none
+        for (let x = 0; x < width; x++) {
+            const [r, g, b] = pixel(x, y);
+            const i = y * stride + 1 + x * 3;
+            raw[i] = r;
+            raw[i + 1] = g;
+            raw[i + 2] = b;
+        }
+    }
+
+    const header = new Uint8Array(13);
+    writeUint32(header, 0, width);
+    writeUint32(header, 4, height);
+    header[8] = 8; // bit depth
+    header[9] = 2; // colour type: truecolour
+    header[10] = 0;
+    header[11] = 0;
+    header[12] = 0;
+
+    return concatBytes([
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        chunk('IHDR', header),
+        chunk('IDAT', zlibStore(raw)),
+        chunk('IEND', new Uint8Array(0)),
+    ]);
+};
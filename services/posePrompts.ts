@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { outfitType } from './garmentSchema';
+import type { TryOnMode } from './historyStore';
+import { PromptTemplate, renderTemplate } from './promptTemplates';
+import { TryOnGarmentImages } from './tryOnPrompts';
+
+// --- POSE-SET PROMPT BUILDING ---
+// A pose set can show plain pieces in picked colours, or the real product when
+// garment photos are uploaded. Every piece is either "as photographed" or "plain
+// in this colour", and the whole outfit is in one fabric. The template's Plain
+// Outfit or Garment Outfit line fills {{outfit}} in the shared brief.
+
+export type Fabric = 'lawn' | 'chiffon' | 'khaddar' | 'silk';
+
+export const FABRICS: Fabric[] = ['lawn', 'chiffon', 'khaddar', 'silk'];
+
+export const FABRIC_LABELS: Record<Fabric, string> = {
+    lawn: 'Lawn',
+    chiffon: 'Chiffon',
+    khaddar: 'Khaddar',
+    silk: 'Silk',
+};
+
+const FABRIC_DESCRIPTIONS: Record<Fabric, string> = {
+    lawn: 'lightweight cotton lawn',
+    chiffon: 'sheer, flowing chiffon',
+    khaddar: 'thick, hand-woven khaddar',
+    silk: 'lustrous silk',
+};
+
+export const isFabric = (value: unknown): value is Fabric => FABRICS.includes(value as Fabric);
+
+/** Plain colour per garment slot id; slots without one use the slot's default. */
+export interface PieceColours {
+    [slot: string]: string;
+}
+
+export interface PoseOutfitOptions {
+    template: PromptTemplate;
+    tryOnMode: TryOnMode;
+    garments: TryOnGarmentImages;
+    colours: PieceColours;
+    fabric: Fabric;
+}
+
+/** "Kameez (shirt): exactly as in the provided photo; Trouser (pants): plain, colour exactly #1f2937" */
+const describePieces = (tryOnMode: TryOnMode, garments: TryOnGarmentImages, colours: PieceColours) =>
+    outfitType(tryOnMode).slots
+        .map(slot => `${slot.promptName}: ${garments[slot.id] ? 'exactly as in the provided photo' : `plain, colour exactly ${pieceColour(slot.id, tryOnMode, colours)}`}`)
+        .join('; ');
+
+/** The colour picked for a piece, or its slot's default. */
+export const pieceColour = (slotId: string, tryOnMode: TryOnMode, colours: PieceColours) =>
+    colours[slotId] ?? outfitType(tryOnMode).slots.find(slot => slot.id === slotId)?.defaultColour ?? '';
+
+/** The colour of the outfit's main (first) piece, which fills {{colour}}. */
+export const mainPieceColour = (tryOnMode: TryOnMode, colours: PieceColours) =>
+    pieceColour(outfitType(tryOnMode).slots[0].id, tryOnMode, colours);
+
+export const hasGarmentPhotos = (tryOnMode: TryOnMode, garments: TryOnGarmentImages) =>
+    outfitType(tryOnMode).slots.some(slot => !!garments[slot.id]);
+
+/** The {{outfit}} line, with {{tryOnMode}}, {{pieces}}, {{fabric}} and {{colour}} filled in. */
+export const buildPoseOutfit = (options: PoseOutfitOptions) => {
+    const { template, tryOnMode, garments, colours, fabric } = options;
+    const text = hasGarmentPhotos(tryOnMode, garments) ? template.poses.outfitGarments : template.poses.outfitPlain;
+    return renderTemplate(text, {
+        tryOnMode: outfitType(tryOnMode).promptName,
+        pieces: describePieces(tryOnMode, garments, colours),
+        fabric: FABRIC_DESCRIPTIONS[fabric],
+        colour: mainPieceColour(tryOnMode, colours),
+    });
+};
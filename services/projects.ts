@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { slug } from './exportArchive';
+import { DEFAULT_OUTFIT_TYPE } from './garmentSchema';
+import { AppMode, GenerationInputs, HistoryEntry, HistoryImage, historyStore } from './historyStore';
+import { newId, requestToPromise, withStore } from './idb';
+import type { InlineImage } from './imageProvider';
+import { LibraryModel, modelLibrary } from './modelLibrary';
+import { base64ToBytes, bytesToBase64 } from './placeholderImage';
+import { normalizeTemplate, PromptTemplate, templateStore, validateTemplate } from './promptTemplates';
+import { isRecord } from './validation';
+import { createZip, readZip, ZipEntry } from './zip';
+
+// --- PROJECTS ---
+// Named workspaces such as "Eid Lawn 2026" or "Bridal – Client Ayesha". A project
+// keeps the dashboard as it was last left inside it (garments, model, prompts,
+// aspect ratio and template), and generations made while it is active carry its
+// id. Projects are kept in this browser's IndexedDB. An archive moves one to
+// another browser, with its generations and the library models and template it uses.
+
+export interface Project {
+    id: string;
+    owner: string;
+    name: string;
+    workspace: GenerationInputs | null; // null until the dashboard is first used inside it
+    templateId: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+const STORE = 'projects';
+const ACTIVE_PROJECT_KEY = 'virtual-try-on-project';
+
+export const newProject = (owner: string, name: string): Project => {
+    const now = new Date().toISOString();
+    return { id: newId(), owner, name, workspace: null, templateId: null, createdAt: now, updatedAt: now };
+};
+
+/** The dashboard's starting state, for a project it has not been used in yet. */
+export const blankWorkspace = (appMode: AppMode): GenerationInputs => ({
+    appMode,
+    tryOnMode: DEFAULT_OUTFIT_TYPE.id,
+    garments: {},
+    accessories: {},
+    modelImage: null,
+    modelPrompt: '',
+    backgroundPrompt: '',
+    aspectRatio: '16:9',
+    dressColor: '',
+});
+
+/** Human-readable problems that stop a project from being saved; `others` are the owner's other projects. */
+export const validateProject = (project: Pick<Project, 'id' | 'name'>, others: Project[]) => {
+    const problems: string[] = [];
+    const name = project.name.trim().toLowerCase();
+    if (!name) problems.push('The project needs a name.');
+    else if (others.some(other => other.id !== project.id && other.name.toLowerCase() === name)) problems.push('You already have a project with that name.');
+    return problems;
+};
+
+export const projectStore = {
+    /** The user's projects, sorted by name. */
+    listByOwner: async (owner: string) => {
+        const projects = await withStore(STORE, 'readonly', store => requestToPromise<Project[]>(store.index('owner').getAll(owner)));
+        return projects.sort((a, b) => a.name.localeCompare(b.name));
+    },
+    get: (id: string) => withStore(STORE, 'readonly', store => requestToPromise<Project | undefined>(store.get(id))),
+    put: (project: Project) => {
+        const saved = { ...project, name: project.name.trim(), updatedAt: new Date().toISOString() };
+        return withStore(STORE, 'readwrite', store => requestToPromise(store.put(saved)).then(() => saved));
+    },
+    remove: (id: string) => withStore(STORE, 'readwrite', store => requestToPromise(store.delete(id))),
+
+    getActiveId: () => localStorage.getItem(ACTIVE_PROJECT_KEY),
+    setActiveId: (id: string | null) => {
+        if (id) localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+        else localStorage.removeItem(ACTIVE_PROJECT_KEY);
+    },
+};
+
+// --- Archives ---
+// A zip with `project.json` and the images under `images/`. In the manifest each
+// image is replaced by `{ file, mimeType }`, so the JSON stays readable.
+
+interface ProjectArchive {
+    project: Pick<Project, 'name' | 'workspace' | 'templateId'>;
+    history: HistoryEntry[];
+    models: LibraryModel[];
+    template: PromptTemplate | null;
+}
+
+const ARCHIVE_FORMAT = 'virtual-try-on-project';
+const ARCHIVE_VERSION = 1;
+const MANIFEST = 'project.json';
+
+const isInlineImage = (value: unknown): value is InlineImage =>
+    isRecord(value) && typeof value.base64 === 'string' && typeof value.mimeType === 'string';
+
+const isImageSlots = (value: unknown): value is Record<string, InlineImage | null> =>
+    isRecord(value) && Object.values(value).every(image => image === null || isInlineImage(image));
+
+const isOptional = (value: unknown, guard: (value: unknown) => boolean) => value === undefined || guard(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isGenerationInputs = (value: unknown): value is GenerationInputs =>
+    isRecord(value)
+    && (value.appMode === 'virtual-try-on' || value.appMode === 'model-generation')
+    && isString(value.tryOnMode)
+    && isImageSlots(value.garments)
+    && isOptional(value.accessories, isImageSlots)
+    && (value.modelImage === null || isInlineImage(value.modelImage))
+    && [value.modelPrompt, value.backgroundPrompt, value.aspectRatio, value.dressColor].every(isString)
+    && isOptional(value.libraryModel, model => isRecord(model) && isString(model.id) && isString(model.name));
+
+const isHistoryImage = (value: unknown): value is HistoryImage =>
+    isRecord(value) && isString(value.title) && isString(value.prompt) && isInlineImage(value.image)
+    && isOptional(value.favourite, favourite => typeof favourite === 'boolean');
+
+const isHistoryEntry = (value: unknown): value is HistoryEntry =>
+    isRecord(value) && isString(value.createdAt) && isGenerationInputs(value.inputs)
+    && Array.isArray(value.images) && value.images.every(isHistoryImage);
+
+const isLibraryModel = (value: unknown): value is LibraryModel =>
+    isRecord(value) && [value.id, value.name, value.description, value.createdAt, value.updatedAt].every(isString)
+    && Array.isArray(value.images) && value.images.length > 0 && value.images.every(isInlineImage);
+
+const isImageRef = (value: unknown): value is { file: string; mimeType: string } =>
+    isRecord(value) && Object.keys(value).length === 2 && typeof value.file === 'string' && typeof value.mimeType === 'string';
+
+const packImages = (value: unknown, files: ZipEntry[]): unknown => {
+    if (isInlineImage(value)) {
+        const extension = value.mimeType.split('/')[1]?.replace(/[^a-z0-9]/g, '') || 'bin';
+        const file = `images/${String(files.length + 1).padStart(4, '0')}.${extension}`;
+        files.push({ name: file, data: base64ToBytes(value.base64) });
+        return { file, mimeType: value.mimeType };
+    }
+    if (Array.isArray(value)) return value.map(item => packImages(item, files));
+    if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, packImages(item, files)]));
+    return value;
+};
+
+const unpackImages = (value: unknown, files: Map<string, Uint8Array>): unknown => {
+    if (isImageRef(value)) {
+        const data = files.get(value.file);
+        if (!data) throw new Error(`The archive is missing ${value.file}.`);
+        return { base64: bytesToBase64(data), mimeType: value.mimeType };
+    }
+    if (Array.isArray(value)) return value.map(item => unpackImages(item, files));
+    if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, unpackImages(item, files)]));
+    return value;
+};
+
+export const projectArchiveName = (name: string) => `${slug(name) || 'project'}-project.zip`;
+
+/** Zips a project with its generations, the library models it used and its template. */
+export const buildProjectArchive = async (project: Project) => {
+    const history = (await historyStore.listByOwner(project.owner)).filter(entry => entry.projectId === project.id);
+    const modelIds = new Set([project.workspace, ...history.map(entry => entry.inputs)].flatMap(inputs => inputs?.libraryModel ? [inputs.libraryModel.id] : []));
+    const models = (await Promise.all([...modelIds].map(id => modelLibrary.get(id)))).filter((model): model is LibraryModel => !!model);
+    const template = project.templateId ? (await templateStore.get(project.templateId)) ?? null : null;
+    const archive: ProjectArchive = { project, history, models, template };
+
+    const files: ZipEntry[] = [];
+    const manifest = packImages({ format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: new Date().toISOString(), ...archive }, files);
+    return createZip([{ name: MANIFEST, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) }, ...files]);
+};
+
+const parseProjectArchive = async (buffer: ArrayBuffer): Promise<ProjectArchive> => {
+    const entries = await readZip(buffer);
+    const manifestEntry = entries.find(entry => entry.name === MANIFEST);
+    if (!manifestEntry) throw new Error(`The archive has no ${MANIFEST}; it is not a project export.`);
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(new TextDecoder().decode(manifestEntry.data));
+    } catch {
+        throw new Error(`${MANIFEST} is not valid JSON.`);
+    }
+    if (!isRecord(manifest) || manifest.format !== ARCHIVE_FORMAT) throw new Error('The archive is not a project export.');
+    if (typeof manifest.version === 'number' && manifest.version > ARCHIVE_VERSION) throw new Error('The archive was made by a newer version of the app.');
+    const files = new Map(entries.map(entry => [entry.name, entry.data]));
+    const [project, history, models, template] = [manifest.project, manifest.history, manifest.models, manifest.template].map(value => unpackImages(value, files));
+    if (!isRecord(project) || !isString(project.name) || !Array.isArray(history) || !Array.isArray(models)) {
+        throw new Error(`${MANIFEST} is incomplete.`);
+    }
+    if ((project.workspace != null && !isGenerationInputs(project.workspace)) || (project.templateId != null && !isString(project.templateId))) {
+        throw new Error(`${MANIFEST} has a project that cannot be read.`);
+    }
+    const badEntry = history.findIndex(entry => !isHistoryEntry(entry));
+    if (badEntry >= 0) throw new Error(`Generation ${badEntry + 1} in ${MANIFEST} cannot be read.`);
+    const badModel = models.findIndex(model => !isLibraryModel(model));
+    if (badModel >= 0) throw new Error(`Library model ${badModel + 1} in ${MANIFEST} cannot be read.`);
+
+    let archivedTemplate: PromptTemplate | null = null;
+    if (template !== undefined && template !== null) {
+        archivedTemplate = normalizeTemplate(template);
+        const problems = validateTemplate(archivedTemplate);
+        if (problems.length > 0) throw new Error(`The template "${archivedTemplate.name}": ${problems[0]}`);
+    }
+    return {
+        project: {
+            name: project.name,
+            workspace: isGenerationInputs(project.workspace) ? project.workspace : null,
+            templateId: isString(project.templateId) ? project.templateId : null,
+        },
+        history: history.filter(isHistoryEntry),
+        models: models.filter(isLibraryModel),
+        template: archivedTemplate,
+    };
+};
+
+/**
+ * Adds an archived project as a new project of `owner`. Everything gets a fresh id,
+ * so nothing already here is overwritten; library models and the template are
+ * added only when this browser does not have them yet. The whole archive is
+ * checked before anything is written, so a bad one adds nothing.
+ */
+export const importProjectArchive = async (buffer: ArrayBuffer, owner: string) => {
+    const archive = await parseProjectArchive(buffer);
+    const names = new Set((await projectStore.listByOwner(owner)).map(project => project.name.toLowerCase()));
+    const baseName = archive.project.name.trim() || 'Imported project';
+    let name = baseName;
+    for (let n = 2; names.has(name.toLowerCase()); n++) name = `${baseName} (${n})`;
+
+    for (const model of archive.models) {
+        if (!(await modelLibrary.get(model.id))) {
+            const { id, name, description, images, createdAt, updatedAt } = model;
+            await modelLibrary.put({ id, name, description, images, createdAt, updatedAt, owner, shared: false });
+        }
+    }
+    if (archive.template && !(await templateStore.get(archive.template.id))) await templateStore.put(archive.template);
+
+    const project = await projectStore.put({ ...newProject(owner, name), workspace: archive.project.workspace, templateId: archive.project.templateId });
+    for (const entry of archive.history) {
+        await historyStore.put({ id: newId(), owner, createdAt: entry.createdAt, inputs: entry.inputs, images: entry.images, projectId: project.id });
+    }
+    return { project, generations: archive.history.length };
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_TEMPLATE, parseTemplateImport, PromptTemplate, renderTemplate, serializeTemplates, validateTemplate } from './promptTemplates';
+
+const withChanges = (change: (template: PromptTemplate) => void) => {
+    const template = structuredClone(DEFAULT_TEMPLATE);
+    change(template);
+    return template;
+};
+
+describe('renderTemplate', () => {
+    it('fills known variables and leaves unknown ones as written', () => {
+        assert.equal(renderTemplate('{{ model }} on {{background}}, {{mood}}', { model: 'A model', background: 'a beach' }), 'A model on a beach, {{mood}}');
+    });
+
+    it('writes numbers as text', () => {
+        assert.equal(renderTemplate('{{poseCount}} poses', { poseCount: 5 }), '5 poses');
+    });
+});
+
+describe('validateTemplate', () => {
+    it('accepts the default template', () => {
+        assert.deepEqual(validateTemplate(DEFAULT_TEMPLATE), []);
+    });
+
+    it('reports a missing name, empty prompts and untitled poses', () => {
+        const problems = validateTemplate(withChanges(template => {
+            template.name = ' ';
+            template.tryOn.prompt = '';
+            template.poses.presets[0].title = '';
+        }));
+        assert.deepEqual(problems, ['The template needs a name.', 'The try-on prompt is empty.', 'Pose 1 needs a title and a prompt.']);
+    });
+
+    it('names unknown variables once each', () => {
+        const problems = validateTemplate(withChanges(template => {
+            template.tryOn.prompt += ' {{mood}} {{mood}}';
+            template.poses.base += ' {{lighting}}';
+        }));
+        assert.deepEqual(problems, ['Unknown variables: {{mood}}, {{lighting}}.']);
+    });
+});
+
+describe('parseTemplateImport', () => {
+    it('reads back an export', () => {
+        assert.deepEqual(parseTemplateImport(serializeTemplates([DEFAULT_TEMPLATE])), [DEFAULT_TEMPLATE]);
+    });
+
+    it('rejects files that are not templates', () => {
+        assert.throws(() => parseTemplateImport('not json'), /not valid JSON/);
+        assert.throws(() => parseTemplateImport('null'), /Not a prompt template/);
+        assert.throws(() => parseTemplateImport(JSON.stringify(withChanges(template => { template.name = ''; }))), /needs a name/);
+    });
+});
@@ -0,0 +1,293 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { newId, requestToPromise, withStore } from './idb';
+import { isRecord, JsonRecord } from './validation';
+
+// --- PROMPT TEMPLATES ---
+// Every prompt the app sends is rendered from a template: the try-on instruction,
+// the pose-set brief with its pose presets, and the "Surprise Me" suggestions.
+// Templates are kept in IndexedDB, shared by everyone using this browser, and
+// travel between machines as JSON. Saving a template bumps its version.
+//
+// Template text may use {{variable}} placeholders from TEMPLATE_VARIABLES.
+
+export interface PosePreset {
+    id: string;
+    title: string;
+    prompt: string;
+}
+
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    version: number;
+    updatedAt: string;
+    tryOn: {
+        prompt: string;
+        outfit: string;
+        accessories: string; // added when at least one accessory is switched on
+        refine: string; // follow-up instruction for editing a result
+        inpaint: string; // instruction for editing a masked region of a result
+        defaultModel: string; // empty: the outfit type's own default model
+        defaultBackground: string;
+    };
+    poses: {
+        base: string;
+        outfitPlain: string; // the {{outfit}} line when no garment photos are uploaded
+        outfitGarments: string; // ...and when at least one is
+        defaultModel: string; // empty: the outfit type's own default model
+        defaultBackground: string;
+        presets: PosePreset[];
+        count: number; // how many presets (from the top) a pose set generates
+    };
+    surprise: {
+        models: string[];
+        backgrounds: string[];
+    };
+}
+
+export const TEMPLATE_VARIABLES: { [name: string]: string } = {
+    model: 'Model description (the prompt, or the template default)',
+    background: 'Background description (the prompt, or the template default)',
+    colour: 'Colour of the outfit\'s main piece, e.g. #a855f7 (pose sets)',
+    outfit: 'The outfit line for a pose set: Plain Outfit or Garment Outfit, filled in',
+    pieces: 'Each piece of a pose-set outfit, from its photo or as a plain colour',
+    fabric: 'The fabric picked for a pose set, e.g. "lightweight cotton lawn"',
+    aspectRatio: 'Aspect ratio, e.g. 3:4',
+    garments: 'The uploaded pieces, e.g. "the provided Kameez (shirt) and a matching Trouser (pants)"',
+    accessories: 'The accessories switched on for a try-on and where each is worn',
+    tryOnMode: 'The outfit type, e.g. "3-piece" or "lehenga choli"',
+    poseCount: 'Number of poses in the set',
+    instruction: 'The refinement or region instruction, e.g. "fix the sleeve length"',
+};
+
+export const DEFAULT_TEMPLATE_ID = 'house-default';
+
+export const DEFAULT_TEMPLATE: PromptTemplate = {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'House Default',
+    version: 1,
+    updatedAt: '1970-01-01T00:00:00.000Z',
+    tryOn: {
+        prompt: 'Generate a photorealistic image of a model wearing a {{tryOnMode}} Pakistani traditional outfit. Model description: {{model}}. Background: {{background}}. The image aspect ratio must be {{aspectRatio}}.',
+        outfit: 'The outfit consists of: {{garments}}.',
+        accessories: 'Accessories: {{accessories}}. Reproduce each accessory exactly as in its photo, in its stated position and at a realistic size, without covering or changing the outfit.',
+        refine: 'Edit the image you just generated. Keep the same model, face, pose, garments, fabric and embroidery unless the instruction says otherwise, and keep the aspect ratio at {{aspectRatio}}. Instruction: {{instruction}}',
+        inpaint: 'Edit only the masked part of this image region: {{instruction}}. The result must be the same size as the region. Outside the mask, keep every pixel as it is. Match the lighting, perspective and fabric of the surrounding image, and follow the reference garments for colour, print and embroidery.',
+        defaultModel: '',
+        defaultBackground: 'Indoor studio with soft, professional fashion lighting',
+    },
+    poses: {
+        base: `
+**Objective:** Create a set of {{poseCount}} photorealistic images for a fashion catalog. Absolute consistency is critical.
+**Model Identity (Consistent across all images):** {{model}}. The model's face, hair, and all features must be identical in every single image.
+**Background (Consistent across all images):** {{background}}. The background, lighting, and camera style must be identical in every single image.
+**Outfit (Consistent across all images):** {{outfit}}
+**Image Quality:** 4K high-resolution, ultra-realistic, photorealistic.
+**Aspect Ratio:** {{aspectRatio}}.
+`,
+        outfitPlain: 'A traditional Pakistani {{tryOnMode}} outfit in {{fabric}}. {{pieces}}. The outfit must be completely plain, with absolutely NO embroidery, NO prints, and NO patterns on the fabric. The fabric has a soft, natural texture.',
+        outfitGarments: 'A traditional Pakistani {{tryOnMode}} outfit in {{fabric}}. {{pieces}}. Reproduce each photographed piece exactly, including its print, embroidery, borders and colours, identically in every image. Pieces without a photo are completely plain.',
+        defaultModel: '',
+        defaultBackground: 'a modern, minimalist studio setting with soft, diffused professional lighting',
+        presets: [
+            { id: 'front', title: 'Front Pose', prompt: '**Pose:** Full front view of the model standing naturally, wearing the complete {{tryOnMode}} outfit.' },
+            { id: 'back', title: 'Back Pose', prompt: '**Pose:** Full back view of the model standing, wearing the complete {{tryOnMode}} outfit.' },
+            { id: 'close-up', title: 'Close-up Pose', prompt: "**Pose:** Waist-up portrait of the model. Focus on the clear fabric texture and the model's expression. The model is wearing the complete {{tryOnMode}} outfit." },
+            { id: 'side', title: 'Side Pose', prompt: '**Pose:** Three-quarter side view of the model standing, showing the cut and drape of the complete {{tryOnMode}} outfit.' },
+            { id: 'sitting', title: 'Sitting Pose', prompt: '**Pose:** The model is sitting gracefully on a minimal object or plain background, wearing the complete {{tryOnMode}} outfit.' },
+        ],
+        count: 5,
+    },
+    surprise: {
+        models: [
+            'Elegant Pakistani model, confident pose, natural expression',
+            'Young South Asian model with a joyful smile, standing in a dynamic pose',
+        ],
+        backgrounds: [
+            'Indoor studio with soft, professional fashion lighting',
+            'An outdoor garden with blooming flowers and lush greenery, during a sunny day',
+            'Inside a high-end fashion boutique with elegant decor',
+            'A traditional courtyard with intricate architectural details',
+        ],
+    },
+};
+
+// --- Rendering ---
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+/** Replaces {{variable}} placeholders; unknown ones are left as written. */
+export const renderTemplate = (text: string, variables: { [name: string]: string | number }) =>
+    text.replace(PLACEHOLDER, (match, name: string) => (name in variables ? String(variables[name]) : match));
+
+const unknownVariables = (text: string) =>
+    [...text.matchAll(PLACEHOLDER)].map(m => m[1]).filter(name => !(name in TEMPLATE_VARIABLES));
+
+/** Human-readable problems that stop a template from being saved. */
+export const validateTemplate = (template: PromptTemplate) => {
+    const problems: string[] = [];
+    if (!template.name.trim()) problems.push('The template needs a name.');
+    if (!template.tryOn.prompt.trim()) problems.push('The try-on prompt is empty.');
+    if (!template.poses.base.trim()) problems.push('The pose-set prompt is empty.');
+    if (template.poses.presets.length === 0) problems.push('Add at least one pose preset.');
+    template.poses.presets.forEach((preset, index) => {
+        if (!preset.title.trim() || !preset.prompt.trim()) problems.push(`Pose ${index + 1} needs a title and a prompt.`);
+    });
+
+    const texts = [template.tryOn.prompt, template.tryOn.outfit, template.tryOn.accessories, template.tryOn.refine, template.tryOn.inpaint, template.poses.base, template.poses.outfitPlain, template.poses.outfitGarments, ...template.poses.presets.map(p => p.prompt)];
+    const unknown = [...new Set(texts.flatMap(unknownVariables))];
+    if (unknown.length > 0) problems.push(`Unknown variable${unknown.length === 1 ? '' : 's'}: ${unknown.map(name => `{{${name}}}`).join(', ')}.`);
+    return problems;
+};
+
+/** Number of poses a set generates, clamped to the presets available. */
+export const poseCountFor = (template: PromptTemplate, requested = template.poses.count) =>
+    Math.max(1, Math.min(template.poses.presets.length, requested));
+
+// --- Import / export ---
+
+const EXPORT_FORMAT = 'virtual-try-on-templates';
+
+export const serializeTemplates = (templates: PromptTemplate[]) =>
+    JSON.stringify({ format: EXPORT_FORMAT, exportedAt: new Date().toISOString(), templates }, null, 2);
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isWholeNumber = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+/** Fills a parsed template's missing fields from the defaults; throws when it is not a template at all. */
+export const normalizeTemplate = (raw: unknown): PromptTemplate => {
+    if (!isRecord(raw) || typeof raw.name !== 'string') throw new Error('Not a prompt template.');
+    const { tryOn, poses } = raw;
+    if (!isRecord(tryOn) || !isRecord(poses) || !Array.isArray(poses.presets)) throw new Error('Not a prompt template.');
+    const surprise: JsonRecord = isRecord(raw.surprise) ? raw.surprise : {};
+    const presets: PosePreset[] = poses.presets.map((p: unknown) => {
+        const preset: JsonRecord = isRecord(p) ? p : {};
+        return {
+            id: typeof preset.id === 'string' && preset.id ? preset.id : newId(),
+            title: String(preset.title ?? ''),
+            prompt: String(preset.prompt ?? ''),
+        };
+    });
+    return {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : newId(),
+        name: raw.name,
+        version: isWholeNumber(raw.version) && raw.version > 0 ? raw.version : 1,
+        updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date().toISOString(),
+        tryOn: {
+            prompt: String(tryOn.prompt ?? ''),
+            outfit: String(tryOn.outfit ?? ''),
+            accessories: String(tryOn.accessories ?? DEFAULT_TEMPLATE.tryOn.accessories),
+            refine: String(tryOn.refine ?? DEFAULT_TEMPLATE.tryOn.refine),
+            inpaint: String(tryOn.inpaint ?? DEFAULT_TEMPLATE.tryOn.inpaint),
+            defaultModel: String(tryOn.defaultModel ?? ''),
+            defaultBackground: String(tryOn.defaultBackground ?? ''),
+        },
+        poses: {
+            base: String(poses.base ?? ''),
+            outfitPlain: String(poses.outfitPlain ?? DEFAULT_TEMPLATE.poses.outfitPlain),
+            outfitGarments: String(poses.outfitGarments ?? DEFAULT_TEMPLATE.poses.outfitGarments),
+            defaultModel: String(poses.defaultModel ?? ''),
+            defaultBackground: String(poses.defaultBackground ?? ''),
+            presets,
+            count: isWholeNumber(poses.count) ? poses.count : presets.length,
+        },
+        surprise: {
+            models: isStringArray(surprise.models) ? surprise.models : [],
+            backgrounds: isStringArray(surprise.backgrounds) ? surprise.backgrounds : [],
+        },
+    };
+};
+
+/**
+ * Accepts an export file, a bare array or a single template. Throws when the
+ * JSON is not a template, or when any template fails validation.
+ */
+export const parseTemplateImport = (json: string): PromptTemplate[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    const list: unknown[] = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.templates) ? data.templates : [data];
+    return list.map((raw: unknown) => {
+        const template = normalizeTemplate(raw);
+        const problems = validateTemplate(template);
+        if (problems.length > 0) throw new Error(`"${template.name}": ${problems[0]}`);
+        return template;
+    });
+};
+
+// --- Storage ---
+
+const STORE = 'templates';
+const ACTIVE_TEMPLATE_KEY = 'virtual-try-on-template';
+
+export const cloneTemplate = (template: PromptTemplate, name = `${template.name} (copy)`): PromptTemplate => ({
+    ...structuredClone(template),
+    id: newId(),
+    name,
+    version: 1,
+    updatedAt: new Date().toISOString(),
+});
+
+export const newPosePreset = (): PosePreset => ({ id: newId(), title: 'New Pose', prompt: '**Pose:** ' });
+
+// Templates saved before a field existed get the default wording for it.
+const withDefaults = (template: PromptTemplate): PromptTemplate => ({
+    ...template,
+    tryOn: {
+        ...template.tryOn,
+        accessories: template.tryOn.accessories ?? DEFAULT_TEMPLATE.tryOn.accessories,
+        refine: template.tryOn.refine ?? DEFAULT_TEMPLATE.tryOn.refine,
+        inpaint: template.tryOn.inpaint ?? DEFAULT_TEMPLATE.tryOn.inpaint,
+    },
+    poses: {
+        ...template.poses,
+        outfitPlain: template.poses.outfitPlain ?? DEFAULT_TEMPLATE.poses.outfitPlain,
+        outfitGarments: template.poses.outfitGarments ?? DEFAULT_TEMPLATE.poses.outfitGarments,
+    },
+});
+
+export const templateStore = {
+    /** Sorted by name. The default template is listed until it has been saved over. */
+    list: async () => {
+        const stored = (await withStore(STORE, 'readonly', store => requestToPromise<PromptTemplate[]>(store.getAll()))).map(withDefaults);
+        const templates = stored.some(t => t.id === DEFAULT_TEMPLATE_ID) ? stored : [DEFAULT_TEMPLATE, ...stored];
+        return templates.sort((a, b) => a.name.localeCompare(b.name));
+    },
+    get: async (id: string) => {
+        const stored = await withStore(STORE, 'readonly', store => requestToPromise<PromptTemplate | undefined>(store.get(id)));
+        return stored ? withDefaults(stored) : id === DEFAULT_TEMPLATE_ID ? DEFAULT_TEMPLATE : undefined;
+    },
+    /** Saves a new version of `template` and returns it. */
+    save: async (template: PromptTemplate) => {
+        const existing = await templateStore.get(template.id);
+        const saved: PromptTemplate = {
+            ...template,
+            version: existing ? existing.version + 1 : template.version,
+            updatedAt: new Date().toISOString(),
+        };
+        await withStore(STORE, 'readwrite', store => requestToPromise(store.put(saved)));
+        return saved;
+    },
+    /** Stores an imported template as-is, replacing any with the same id. */
+    put: (template: PromptTemplate) => withStore(STORE, 'readwrite', store => requestToPromise(store.put(template))),
+    remove: (id: string) => withStore(STORE, 'readwrite', store => requestToPromise(store.delete(id))),
+
+    getActiveId: () => localStorage.getItem(ACTIVE_TEMPLATE_KEY) || DEFAULT_TEMPLATE_ID,
+    setActiveId: (id: string) => localStorage.setItem(ACTIVE_TEMPLATE_KEY, id),
+    /** The template generation should use; falls back to the default when unavailable. */
+    getActive: async () => {
+        try {
+            return (await templateStore.get(templateStore.getActiveId())) ?? DEFAULT_TEMPLATE;
+        } catch (error) {
+            console.error('Could not load the active template:', error);
+            return DEFAULT_TEMPLATE;
+        }
+    },
+};
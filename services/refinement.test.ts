@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createVersionStack } from './refinement';
+
+const image = (name: string) => ({ base64: name, mimeType: 'image/png' });
+
+describe('createVersionStack', () => {
+    it('starts empty', () => {
+        const stack = createVersionStack();
+        assert.equal(stack.current(), undefined);
+        assert.equal(stack.canUndo(), false);
+        assert.deepEqual(stack.position(), { index: -1, count: 0 });
+    });
+
+    it('undoes and redoes between versions', () => {
+        const stack = createVersionStack();
+        stack.reset(image('original'));
+        stack.push(image('v2'), 'shorter sleeves');
+        assert.equal(stack.previous()?.image.base64, 'original');
+        assert.equal(stack.undo()?.image.base64, 'original');
+        assert.equal(stack.canUndo(), false);
+        assert.equal(stack.undo()?.image.base64, 'original'); // stays on the first version
+        assert.equal(stack.redo()?.instruction, 'shorter sleeves');
+        assert.equal(stack.canRedo(), false);
+    });
+
+    it('drops the redo branch when refining after an undo', () => {
+        const stack = createVersionStack();
+        stack.reset(image('original'));
+        stack.push(image('v2'), 'first');
+        stack.push(image('v3'), 'second');
+        stack.undo();
+        stack.push(image('v3b'), 'instead');
+        assert.deepEqual(stack.position(), { index: 2, count: 3 });
+        assert.equal(stack.canRedo(), false);
+        assert.equal(stack.current()?.image.base64, 'v3b');
+    });
+
+    it('starts over on reset', () => {
+        const stack = createVersionStack();
+        stack.reset(image('original'));
+        stack.push(image('v2'), 'first');
+        stack.reset(image('other'));
+        assert.deepEqual(stack.position(), { index: 0, count: 1 });
+        assert.equal(stack.current()?.instruction, '');
+    });
+});
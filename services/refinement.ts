@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { ImageGenerationRequest, InlineImage, LabelledImage } from './imageProvider';
+import { PromptTemplate, renderTemplate } from './promptTemplates';
+
+// --- ITERATIVE REFINEMENT ---
+// A try-on result can be edited with follow-up instructions. Each edit sends the
+// original request, the current version and the instruction as a multi-turn
+// conversation (see server/providers.ts), and its result becomes a new version.
+// Versions form an undo stack: refining after an undo drops the redo branch.
+
+export interface RefinementVersion {
+    image: InlineImage;
+    instruction: string; // empty for the original generation
+    createdAt: string;
+}
+
+/** The request that produced the first version; every refinement replays it. */
+export interface RefinementBase {
+    prompts: string[];
+    garments: LabelledImage[];
+    modelImage: InlineImage | null;
+    modelReferences: InlineImage[];
+    aspectRatio: string;
+}
+
+export const createVersionStack = () => {
+    let versions: RefinementVersion[] = [];
+    let index = -1;
+
+    return {
+        /** Starts a new stack from an original result. */
+        reset: (image: InlineImage) => {
+            versions = [{ image, instruction: '', createdAt: new Date().toISOString() }];
+            index = 0;
+        },
+        clear: () => {
+            versions = [];
+            index = -1;
+        },
+        push: (image: InlineImage, instruction: string) => {
+            versions = [...versions.slice(0, index + 1), { image, instruction, createdAt: new Date().toISOString() }];
+            index = versions.length - 1;
+        },
+        undo: () => {
+            if (index > 0) index--;
+            return versions[index];
+        },
+        redo: () => {
+            if (index < versions.length - 1) index++;
+            return versions[index];
+        },
+        current: (): RefinementVersion | undefined => versions[index],
+        previous: (): RefinementVersion | undefined => versions[index - 1],
+        canUndo: () => index > 0,
+        canRedo: () => index < versions.length - 1,
+        position: () => ({ index, count: versions.length }),
+    };
+};
+
+export const buildRefineRequest = (template: PromptTemplate, base: RefinementBase, image: InlineImage, instruction: string): ImageGenerationRequest => ({
+    mode: 'refine',
+    prompts: [renderTemplate(template.tryOn.refine, { instruction, aspectRatio: base.aspectRatio })],
+    garments: base.garments,
+    modelImage: base.modelImage,
+    modelReferences: base.modelReferences,
+    aspectRatio: base.aspectRatio,
+    refine: { image, originalPrompts: base.prompts },
+});
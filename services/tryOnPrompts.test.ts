@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { outfitType } from './garmentSchema';
+import { DEFAULT_TEMPLATE } from './promptTemplates';
+import { buildTryOnPrompts, TryOnPromptOptions } from './tryOnPrompts';
+
+const photo = { base64: 'AAAA', mimeType: 'image/jpeg' };
+
+const options = (changes: Partial<TryOnPromptOptions> = {}): TryOnPromptOptions => ({
+    template: DEFAULT_TEMPLATE,
+    tryOnMode: '3-piece',
+    garments: { kameez: photo, dupatta: photo },
+    hasModelImage: false,
+    modelDescription: '',
+    backgroundDescription: '',
+    aspectRatio: '3:4',
+    ...changes,
+});
+
+describe('buildTryOnPrompts', () => {
+    it('names the outfit type and its pieces, asking for a match where a photo is missing', () => {
+        const [prompt, outfit] = buildTryOnPrompts(options());
+        assert.ok(prompt.includes('wearing a 3-piece Pakistani traditional outfit'));
+        assert.equal(outfit, 'The outfit consists of: the provided Kameez (shirt), the provided Dupatta (scarf) and a matching Trouser (pants).');
+    });
+
+    it("uses the outfit type's own default model when the template leaves it empty", () => {
+        const [women] = buildTryOnPrompts(options());
+        const [men] = buildTryOnPrompts(options({ tryOnMode: 'kurta-shalwar', garments: { kurta: photo } }));
+        assert.ok(women.includes(`Model description: ${outfitType('3-piece').defaultModel}.`));
+        assert.ok(men.includes(`Model description: ${outfitType('kurta-shalwar').defaultModel}.`));
+        assert.ok(men.includes('male model') && !men.includes('female'));
+    });
+
+    it("prefers the prompt, then a model photo, then the template's default model", () => {
+        const template = { ...DEFAULT_TEMPLATE, tryOn: { ...DEFAULT_TEMPLATE.tryOn, defaultModel: 'a house model' } };
+        assert.ok(buildTryOnPrompts(options({ template }))[0].includes('Model description: a house model.'));
+        assert.ok(buildTryOnPrompts(options({ template, hasModelImage: true }))[0].includes('the person in the provided model photo'));
+        assert.ok(buildTryOnPrompts(options({ template, modelDescription: 'a tall model' }))[0].includes('Model description: a tall model.'));
+    });
+
+    it('adds the accessories line only when one is switched on', () => {
+        assert.equal(buildTryOnPrompts(options()).length, 2);
+        const prompts = buildTryOnPrompts(options({ accessories: { jhumkas: photo } }));
+        assert.equal(prompts.length, 3);
+        assert.ok(prompts[2].startsWith('Accessories: the provided Jhumkas'));
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ACCESSORY_SLOTS, outfitType, PLACEMENT_DESCRIPTIONS } from './garmentSchema';
+import type { TryOnMode } from './historyStore';
+import type { InlineImage, LabelledImage } from './imageProvider';
+import { PromptTemplate, renderTemplate } from './promptTemplates';
+
+// --- TRY-ON PROMPT BUILDING ---
+// Shared by the dashboard and batch catalog runs, so a SKU processed in a batch
+// gets exactly the request a manual upload of the same pieces would. The wording
+// comes from the active prompt template (services/promptTemplates.ts); piece names
+// and image order come from the outfit type (services/garmentSchema.ts).
+
+/** Uploaded pieces keyed by garment slot id; slots the outfit lacks are ignored. */
+export interface TryOnGarmentImages {
+    [slot: string]: InlineImage | null;
+}
+
+export interface TryOnPromptOptions {
+    template: PromptTemplate;
+    tryOnMode: TryOnMode;
+    garments: TryOnGarmentImages;
+    accessories?: TryOnGarmentImages; // only the accessories switched on for this generation
+    hasModelImage: boolean;
+    modelDescription: string;
+    backgroundDescription: string;
+    aspectRatio: string;
+}
+
+/** "the provided Kameez (shirt), the provided Dupatta (scarf) and a matching Trouser (pants)" */
+const describeGarments = (tryOnMode: TryOnMode, garments: TryOnGarmentImages) => {
+    const pieces = outfitType(tryOnMode).slots.flatMap(slot => {
+        if (garments[slot.id]) return [`the provided ${slot.promptName}`];
+        return slot.matchWhenMissing ? [`a matching ${slot.promptName}`] : [];
+    });
+    return pieces.length > 1 ? `${pieces.slice(0, -1).join(', ')} and ${pieces[pieces.length - 1]}` : pieces[0] ?? '';
+};
+
+/** "the provided Jhumkas (bell-shaped earrings), worn on both ears; the provided Bangles, worn on both wrists" */
+const describeAccessories = (accessories: TryOnGarmentImages) =>
+    ACCESSORY_SLOTS
+        .filter(slot => accessories[slot.id])
+        .map(slot => `the provided ${slot.promptName}, ${PLACEMENT_DESCRIPTIONS[slot.placement]}`)
+        .join('; ');
+
+/** Text parts for a try-on request; empty descriptions fall back to the template defaults. */
+export const buildTryOnPrompts = (options: TryOnPromptOptions) => {
+    const { template, tryOnMode, garments, accessories = {}, hasModelImage, modelDescription, backgroundDescription, aspectRatio } = options;
+    const variables = {
+        model: modelDescription || (hasModelImage ? 'the person in the provided model photo' : template.tryOn.defaultModel || outfitType(tryOnMode).defaultModel),
+        background: backgroundDescription || template.tryOn.defaultBackground,
+        aspectRatio,
+        tryOnMode: outfitType(tryOnMode).promptName,
+        garments: describeGarments(tryOnMode, garments),
+        accessories: describeAccessories(accessories),
+    };
+    // The Accessories line is left out entirely when none are switched on.
+    return [template.tryOn.prompt, template.tryOn.outfit, variables.accessories ? template.tryOn.accessories : '']
+        .filter(text => text.trim())
+        .map(text => renderTemplate(text, variables));
+};
+
+/** Labelled garment images in the order the model expects them, then any accessories. */
+export const buildTryOnGarments = (tryOnMode: TryOnMode, garments: TryOnGarmentImages, accessories: TryOnGarmentImages = {}): LabelledImage[] => [
+    ...outfitType(tryOnMode).slots
+        .filter(slot => garments[slot.id])
+        .map(slot => ({ label: `This is the ${slot.label}:`, image: garments[slot.id]! })),
+    ...ACCESSORY_SLOTS
+        .filter(slot => accessories[slot.id])
+        .map(slot => ({ label: `This is the ${slot.label}:`, image: accessories[slot.id]! })),
+];
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { emptyCounts, isUsageQuota, NO_QUOTA, quotaProblem, usageByDay, UsageRecord } from './usage';
+
+const used = (requests: number) => ({ ...emptyCounts(), requests });
+
+describe('quotaProblem', () => {
+    it('allows everything without a quota', () => {
+        assert.equal(quotaProblem(NO_QUOTA, used(1000), used(100000)), null);
+    });
+
+    it('stops at the daily limit', () => {
+        const quota = { daily: 5, monthly: null };
+        assert.equal(quotaProblem(quota, used(4), used(4)), null);
+        assert.match(quotaProblem(quota, used(5), used(5)) ?? '', /daily quota of 5/);
+    });
+
+    it('stops at the monthly limit even with calls left today', () => {
+        assert.match(quotaProblem({ daily: 10, monthly: 50 }, used(0), used(50)) ?? '', /monthly quota of 50/);
+    });
+});
+
+describe('isUsageQuota', () => {
+    it('accepts whole numbers above zero and null', () => {
+        assert.equal(isUsageQuota({ daily: 5, monthly: null }), true);
+        assert.equal(isUsageQuota(NO_QUOTA), true);
+    });
+
+    it('rejects anything else', () => {
+        [null, [], {}, { daily: 0, monthly: null }, { daily: 1.5, monthly: null }, { daily: '5', monthly: null }, { daily: 5 }]
+            .forEach(value => assert.equal(isUsageQuota(value), false, JSON.stringify(value)));
+    });
+});
+
+describe('usageByDay', () => {
+    it('fills days without calls', () => {
+        const records: UsageRecord[] = [
+            { username: 'a', day: '2026-10-01', ...used(2) },
+            { username: 'b', day: '2026-10-01', ...used(1) },
+            { username: 'a', day: '2026-10-03', ...used(4) },
+        ];
+        assert.deepEqual(usageByDay(records, '2026-10-01', '2026-10-03').map(day => [day.day, day.requests]), [
+            ['2026-10-01', 3],
+            ['2026-10-02', 0],
+            ['2026-10-03', 4],
+        ]);
+    });
+});
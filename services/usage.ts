@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { toCsv } from './csv';
+import { isRecord } from './validation';
+
+// --- USAGE METERING ---
+// Shared by the API server, which meters every generation call per user and day
+// (server/usage.ts), and the admin usage dashboard, which charts and exports it.
+// Days are UTC calendar days ("2026-10-19"). Quotas count generation calls:
+// "Generate 5 Poses" is five calls.
+
+export interface UsageCounts {
+    requests: number; // generation calls sent to the image service
+    images: number; // images returned
+    failures: number; // calls that errored or returned no image
+    cost: number; // estimated, in USD, at the price configured when the call was made
+}
+
+export interface UsageRecord extends UsageCounts {
+    username: string;
+    day: string;
+}
+
+/** Calls a user may make per UTC day and per UTC month; null means no limit. */
+export interface UsageQuota {
+    daily: number | null;
+    monthly: number | null;
+}
+
+export const NO_QUOTA: UsageQuota = { daily: null, monthly: null };
+
+const isQuotaLimit = (value: unknown) => value === null || (typeof value === 'number' && Number.isInteger(value) && value > 0);
+
+/** Each limit a whole number above zero, or null for none. */
+export const isUsageQuota = (value: unknown): value is UsageQuota =>
+    isRecord(value) && isQuotaLimit(value.daily) && isQuotaLimit(value.monthly);
+
+export const emptyCounts = (): UsageCounts => ({ requests: 0, images: 0, failures: 0, cost: 0 });
+
+export const usageDay = (date = new Date()) => date.toISOString().slice(0, 10);
+
+export const addCounts = (total: UsageCounts, counts: UsageCounts): UsageCounts => ({
+    requests: total.requests + counts.requests,
+    images: total.images + counts.images,
+    failures: total.failures + counts.failures,
+    cost: total.cost + counts.cost,
+});
+
+export const totalUsage = (records: UsageCounts[]) => records.reduce(addCounts, emptyCounts());
+
+const groupUsage = (records: UsageRecord[], key: (record: UsageRecord) => string) => {
+    const groups = new Map<string, UsageCounts>();
+    records.forEach(record => groups.set(key(record), addCounts(groups.get(key(record)) ?? emptyCounts(), record)));
+    return groups;
+};
+
+/** Totals per user, highest estimated cost first. */
+export const usageByUser = (records: UsageRecord[]) =>
+    [...groupUsage(records, record => record.username)]
+        .map(([username, counts]) => ({ username, ...counts }))
+        .sort((a, b) => b.cost - a.cost || b.requests - a.requests || a.username.localeCompare(b.username));
+
+/** Totals for every day from `from` to `to` inclusive, days without calls included. */
+export const usageByDay = (records: UsageRecord[], from: string, to: string) => {
+    const groups = groupUsage(records, record => record.day);
+    const days: (UsageCounts & { day: string })[] = [];
+    for (let date = new Date(`${from}T00:00:00Z`); usageDay(date) <= to; date.setUTCDate(date.getUTCDate() + 1)) {
+        const day = usageDay(date);
+        days.push({ day, ...(groups.get(day) ?? emptyCounts()) });
+    }
+    return days;
+};
+
+/** Why a user with this quota may not generate now, or null when they may. */
+export const quotaProblem = (quota: UsageQuota, today: UsageCounts, month: UsageCounts) => {
+    if (quota.daily !== null && today.requests >= quota.daily) {
+        return `You have used your daily quota of ${quota.daily} generations. It resets at midnight UTC.`;
+    }
+    if (quota.monthly !== null && month.requests >= quota.monthly) {
+        return `You have used your monthly quota of ${quota.monthly} generations. It resets on the 1st (UTC).`;
+    }
+    return null;
+};
+
+export const formatCost = (cost: number) => `$${cost.toFixed(2)}`;
+
+/** One row per user and day, oldest first. */
+export const serializeUsageCsv = (records: UsageRecord[]) => toCsv([
+    ['day', 'user', 'requests', 'images', 'failures', 'estimated_cost_usd'],
+    ...[...records]
+        .sort((a, b) => a.day.localeCompare(b.day) || a.username.localeCompare(b.username))
+        .map(r => [r.day, r.username, r.requests, r.images, r.failures, r.cost.toFixed(4)]),
+]);
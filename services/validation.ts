@@ -0,0 +1,13 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- VALIDATION ---
+// Narrowing for parsed JSON of unknown shape: imported files and request bodies.
+
+export type JsonRecord = Record<string, unknown>;
+
+/** A JSON object: not null, not an array. */
+export const isRecord = (value: unknown): value is JsonRecord =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { deflateRawSync } from 'node:zlib';
+import { createZip, readZip } from './zip';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+const archive = async (...entries: [string, string][]) =>
+    createZip(entries.map(([name, data]) => ({ name, data: text(data) }))).arrayBuffer();
+
+// One deflated entry, laid out by hand since createZip only stores.
+const deflatedArchive = (name: string, data: Uint8Array) => {
+    const nameBytes = text(name);
+    const compressed = deflateRawSync(data);
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, 8, true);
+    lv.setUint32(18, compressed.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, 8, true);
+    cv.setUint32(20, compressed.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    central.set(nameBytes, 46);
+    const eocd = new Uint8Array(22);
+    const ev = new DataView(eocd.buffer);
+    ev.setUint32(0, 0x06054b50, true);
+    ev.setUint16(8, 1, true);
+    ev.setUint16(10, 1, true);
+    ev.setUint32(12, central.length, true);
+    ev.setUint32(16, local.length + compressed.length, true);
+    return new Blob([local, compressed, central, eocd]).arrayBuffer();
+};
+
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe('createZip and readZip', () => {
+    it('round-trip names, including UTF-8 ones, and contents', async () => {
+        const entries = await readZip(await archive(['project.json', '{"a":1}'], ['images/0001.png', 'png bytes'], ['لان/کرتا.txt', 'lawn']));
+        assert.deepEqual(entries.map(entry => [entry.name, decode(entry.data)]), [
+            ['project.json', '{"a":1}'],
+            ['images/0001.png', 'png bytes'],
+            ['لان/کرتا.txt', 'lawn'],
+        ]);
+    });
+
+    it('writes an empty archive that reads back empty', async () => {
+        assert.deepEqual(await readZip(await createZip([]).arrayBuffer()), []);
+    });
+});
+
+describe('readZip', () => {
+    it('inflates deflated entries', async () => {
+        const data = text('kameez '.repeat(200));
+        const [entry] = await readZip(await deflatedArchive('catalog/manifest.csv', data));
+        assert.equal(entry.name, 'catalog/manifest.csv');
+        assert.deepEqual(entry.data, data);
+    });
+
+    it('skips directories and turns backslashes into slashes', async () => {
+        const entries = await readZip(await archive(['lwn-101/', ''], ['lwn-101\\kameez.jpg', 'jpg']));
+        assert.deepEqual(entries.map(entry => entry.name), ['lwn-101/kameez.jpg']);
+    });
+
+    it('rejects files that are not zips, and encrypted entries', async () => {
+        await assert.rejects(readZip(text('sku,kameez\n').buffer), /Not a zip archive/);
+        const bytes = new Uint8Array(await archive(['secret.jpg', 'jpg']));
+        const centralAt = bytes.length - 22 - (46 + 'secret.jpg'.length);
+        bytes[centralAt + 8] |= 0x1;
+        await assert.rejects(readZip(bytes.buffer), /"secret.jpg" is encrypted/);
+    });
+});
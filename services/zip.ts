@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { crc32 } from './placeholderImage';
+
+// --- ZIP ARCHIVES ---
+// Just enough of the zip format for catalog uploads and exports. Reading handles
+// stored and deflated entries, inflating with the browser's DecompressionStream so
+// no archive library is bundled; Zip64 and encrypted archives are rejected.
+// Writing always stores: exports are mostly PNG/JPEG, which do not compress further.
+
+export interface ZipEntry {
+    name: string; // full path inside the archive, using forward slashes
+    data: Uint8Array;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+const inflateRaw = async (bytes: Uint8Array) => {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndOfCentralDirectory = (view: DataView) => {
+    // The record is 22 bytes plus a comment of up to 64 KiB, so scan backwards.
+    const lowest = Math.max(0, view.byteLength - 22 - 0xffff);
+    for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+        if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+    }
+    throw new Error('Not a zip archive.');
+};
+
+/** Reads every file entry of a zip archive (directories are skipped). */
+export const readZip = async (buffer: ArrayBuffer): Promise<ZipEntry[]> => {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    const decoder = new TextDecoder();
+
+    const eocd = findEndOfCentralDirectory(view);
+    const entryCount = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    if (offset === 0xffffffff || entryCount === 0xffff) throw new Error('Zip64 archives are not supported.');
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new Error('The zip directory is corrupt.');
+        const flags = view.getUint16(offset + 8, true);
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)).replace(/\\/g, '/');
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+        if (flags & 0x1) throw new Error(`"${name}" is encrypted.`);
+        if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) throw new Error(`"${name}" is corrupt.`);
+
+        // The local header repeats the name and may carry a different extra field.
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) {
+            entries.push({ name, data: raw.slice() });
+        } else if (method === 8) {
+            entries.push({ name, data: await inflateRaw(raw) });
+        } else {
+            throw new Error(`"${name}" uses an unsupported compression method (${method}).`);
+        }
+    }
+    return entries;
+};
+
+// MS-DOS date/time fields, local time, two-second resolution.
+const dosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/** Builds a zip archive of uncompressed entries. Names are written as UTF-8. */
+export const createZip = (entries: ZipEntry[], modified = new Date()) => {
+    const encoder = new TextEncoder();
+    const { time, date } = dosDateTime(modified);
+    const locals: Uint8Array[] = [];
+    const centrals: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach(entry => {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+
+        const local = new Uint8Array(30 + name.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, LOCAL_SIGNATURE, true);
+        lv.setUint16(4, 20, true); // version needed
+        lv.setUint16(6, 0x0800, true); // UTF-8 names
+        lv.setUint16(8, 0, true); // stored
+        lv.setUint16(10, time, true);
+        lv.setUint16(12, date, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, entry.data.length, true);
+        lv.setUint32(22, entry.data.length, true);
+        lv.setUint16(26, name.length, true);
+        local.set(name, 30);
+
+        const central = new Uint8Array(46 + name.length);
+        const cv = new DataView(central.buffer);
+        cv.setUint32(0, CENTRAL_SIGNATURE, true);
+        cv.setUint16(4, 20, true); // version made by
+        cv.setUint16(6, 20, true);
+        cv.setUint16(8, 0x0800, true);
+        cv.setUint16(10, 0, true);
+        cv.setUint16(12, time, true);
+        cv.setUint16(14, date, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, entry.data.length, true);
+        cv.setUint32(24, entry.data.length, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        locals.push(local, entry.data);
+        centrals.push(central);
+        offset += local.length + entry.data.length;
+    });
+
+    const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+    const eocd = new Uint8Array(22);
+    const ev = new DataView(eocd.buffer);
+    ev.setUint32(0, EOCD_SIGNATURE, true);
+    ev.setUint16(8, entries.length, true);
+    ev.setUint16(10, entries.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    return new Blob([...locals, ...centrals, eocd], { type: 'application/zip' });
+};